@@ -0,0 +1,127 @@
+import { type Request, type Response, Router } from 'express';
+import { auditAccessibility } from '../services/a11y.js';
+import { buildClassInventory } from '../services/inventory.js';
+import { checkMigration } from '../services/migration.js';
+import { checkStylePolicy } from '../services/policy.js';
+import { getCachedComponents, getWorkingDirectory } from '../services/scanner.js';
+import type { A11yFinding, Component } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { validateRegex, validateTemplateRules } from '../utils/validation.js';
+
+const router = Router();
+
+// The scanned components, or null after answering 400 when nothing was scanned yet
+function getScannedComponents(res: Response): Component[] | null {
+  const components = getCachedComponents();
+
+  if (components.length === 0) {
+    res.status(400).json({
+      success: false,
+      error: {
+        message: 'No components scanned. Call GET /api/components/scan first.',
+        code: 'NO_COMPONENTS',
+      },
+    });
+    return null;
+  }
+
+  return components;
+}
+
+// A fix the edit routes would refuse can't be previewed, so the finding goes without one
+function withUsableFix(finding: A11yFinding): A11yFinding {
+  const rule = finding.fix?.rule;
+  if (!rule) return finding;
+  if (validateTemplateRules([rule]) && (!rule.isRegex || validateRegex(rule.find).valid)) {
+    return finding;
+  }
+
+  logger.warn(`Dropped invalid ${finding.check} fix for ${finding.path}:${finding.line}`);
+  const { fix: _fix, ...rest } = finding;
+  return rest;
+}
+
+// Every class across the scanned components, grouped by utility family
+router.get('/classes', async (_req: Request, res: Response) => {
+  try {
+    const components = getScannedComponents(res);
+    if (!components) return;
+
+    const inventory = await buildClassInventory(components);
+    res.json({ success: true, inventory });
+  } catch (error) {
+    logger.error('Failed to build class inventory', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: 'Failed to build class inventory',
+        code: 'ANALYSIS_ERROR',
+      },
+    });
+  }
+});
+
+// Findings of the stylePolicy in .shadcn-tweaker.json across the scanned components
+router.get('/policy', async (_req: Request, res: Response) => {
+  try {
+    const components = getScannedComponents(res);
+    if (!components) return;
+
+    const report = await checkStylePolicy(components);
+    res.json({ success: true, report });
+  } catch (error) {
+    logger.error('Failed to check style policy', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: 'Failed to check style policy',
+        code: 'ANALYSIS_ERROR',
+      },
+    });
+  }
+});
+
+// Accessibility findings across the scanned components, each with a previewable fix
+router.get('/a11y', async (_req: Request, res: Response) => {
+  try {
+    const components = getScannedComponents(res);
+    if (!components) return;
+
+    const report = await auditAccessibility(components, getWorkingDirectory());
+    res.json({
+      success: true,
+      report: { ...report, findings: report.findings.map(withUsableFix) },
+    });
+  } catch (error) {
+    logger.error('Failed to audit accessibility', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: 'Failed to audit accessibility',
+        code: 'ANALYSIS_ERROR',
+      },
+    });
+  }
+});
+
+// What the Tailwind 4 migration would change in each component still using v3 class names
+router.get('/migration', async (_req: Request, res: Response) => {
+  try {
+    const components = getScannedComponents(res);
+    if (!components) return;
+
+    const report = await checkMigration(components, getWorkingDirectory());
+    res.json({ success: true, report });
+  } catch (error) {
+    logger.error('Failed to check Tailwind 4 migration', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: 'Failed to check Tailwind 4 migration',
+        code: 'ANALYSIS_ERROR',
+      },
+    });
+  }
+});
+
+export default router;
@@ -1,11 +1,12 @@
 import { type Request, type Response, Router } from 'express';
 import {
   getCachedComponents,
-  getComponentByName,
+  getComponentById,
   getComponentsWithContent,
   getWorkingDirectory,
   scanComponents,
 } from '../services/scanner.js';
+import { watchComponentRoots } from '../services/watcher.js';
 import { logger } from '../utils/logger.js';
 import { validateCustomPath } from '../utils/validation.js';
 
@@ -44,6 +45,9 @@ router.get('/scan', async (req: Request, res: Response) => {
       return;
     }
 
+    // Keep the cache in sync with edits made outside the tweaker
+    await watchComponentRoots(result.directories);
+
     res.json(result);
   } catch (error) {
     logger.error('Failed to scan components', error);
@@ -84,16 +88,17 @@ router.get('/', async (_req: Request, res: Response) => {
   }
 });
 
-router.get('/:name', async (req: Request, res: Response) => {
+// Ids contain slashes, so clients encode them as one segment
+router.get('/:id', async (req: Request, res: Response) => {
   try {
-    const { name } = req.params;
-    const component = await getComponentByName(name);
+    const { id } = req.params;
+    const component = await getComponentById(id);
 
     if (!component) {
       res.status(404).json({
         success: false,
         error: {
-          message: `Component not found: ${name}`,
+          message: `Component not found: ${id}`,
           code: 'COMPONENT_NOT_FOUND',
         },
       });
@@ -102,7 +107,7 @@ router.get('/:name', async (req: Request, res: Response) => {
 
     res.json(component);
   } catch (error) {
-    logger.error(`Failed to get component: ${req.params.name}`, error);
+    logger.error(`Failed to get component: ${req.params.id}`, error);
     res.status(500).json({
       success: false,
       error: {
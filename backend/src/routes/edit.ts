@@ -1,12 +1,25 @@
 import path from 'node:path';
 import { type Request, type Response, Router } from 'express';
-import { applyBatchAction, applyChanges, previewChanges } from '../services/modifier.js';
+import fs from 'fs-extra';
+import {
+  applyApprovedChanges,
+  applyBatchAction,
+  applyChanges,
+  previewChanges,
+} from '../services/modifier.js';
+import { findMatchesSafely, RegexTimeoutError } from '../services/regexRunner.js';
+import { getCachedComponents, getWorkingDirectory } from '../services/scanner.js';
+import { findThemeFile } from '../services/theme.js';
+import type { MatchesResult } from '../types/index.js';
+import { sendApplyFailure } from '../utils/applyResponse.js';
 import { logger } from '../utils/logger.js';
 import {
+  validateApplyApprovedRequest,
   validateApplyRequest,
   validateBatchActionRequest,
   validateComponentPaths,
   validateEditRequest,
+  validateMatchesRequest,
   validateRegex,
 } from '../utils/validation.js';
 
@@ -16,6 +29,17 @@ const router = Router();
 // Backend runs from the backend/ directory, so we need to go up one level to the project root
 const PROJECT_DIR = path.resolve(process.cwd(), '..');
 
+// Whole-file contents may only replace scanned components and the theme CSS file
+async function findUnknownWriteTargets(changes: Array<{ path: string; after?: string }>) {
+  const allowed = new Set(getCachedComponents().map((component) => path.resolve(component.path)));
+  const themeFile = await findThemeFile(getWorkingDirectory());
+  if (themeFile) allowed.add(path.resolve(themeFile));
+
+  return changes
+    .filter((change) => change.after !== undefined && !allowed.has(path.resolve(change.path)))
+    .map((change) => change.path);
+}
+
 router.post('/preview', async (req: Request, res: Response) => {
   try {
     if (!validateEditRequest(req.body)) {
@@ -23,14 +47,25 @@ router.post('/preview', async (req: Request, res: Response) => {
         success: false,
         error: {
           message:
-            'Invalid request body. Required: componentPaths (string[]), find (string), replace (string), isRegex (boolean)',
+            "Invalid request body. Required: componentPaths (string[]), find (string), replace (string), isRegex (boolean). Optional: matchMode ('text' | 'token'), variantPath (component.group.option, * allowed), scaleShift ({ scale, direction, steps?, percent? (not on shadow), tailwind? (3 | 4) }), migration ('tailwind-v4'), classEdit ({ line, column, rename?, add? }), prefixes (string[])",
           code: 'VALIDATION_ERROR',
         },
       });
       return;
     }
 
-    const { componentPaths, find, replace, isRegex } = req.body;
+    const {
+      componentPaths,
+      find,
+      replace,
+      isRegex,
+      matchMode,
+      variantPath,
+      scaleShift,
+      migration,
+      classEdit,
+      prefixes,
+    } = req.body;
 
     // Validate component paths to prevent path traversal attacks
     const pathValidation = validateComponentPaths(componentPaths, PROJECT_DIR);
@@ -59,7 +94,17 @@ router.post('/preview', async (req: Request, res: Response) => {
       }
     }
 
-    const result = await previewChanges(componentPaths, find, replace, isRegex);
+    const result = await previewChanges(componentPaths, {
+      find,
+      replace,
+      isRegex,
+      matchMode,
+      variantPath,
+      scaleShift,
+      migration,
+      classEdit,
+      prefixes,
+    });
 
     res.json({
       success: true,
@@ -67,6 +112,13 @@ router.post('/preview', async (req: Request, res: Response) => {
       totalChanges: result.totalChanges,
     });
   } catch (error) {
+    if (error instanceof RegexTimeoutError) {
+      res.status(422).json({
+        success: false,
+        error: { message: error.message, code: error.code },
+      });
+      return;
+    }
     logger.error('Failed to preview changes', error);
     res.status(500).json({
       success: false,
@@ -78,23 +130,35 @@ router.post('/preview', async (req: Request, res: Response) => {
   }
 });
 
-router.post('/apply', async (req: Request, res: Response) => {
+// Where a rule matches, without generating diffs; used for live feedback while typing
+router.post('/matches', async (req: Request, res: Response) => {
   try {
-    if (!validateApplyRequest(req.body)) {
+    if (!validateMatchesRequest(req.body)) {
       res.status(400).json({
         success: false,
         error: {
           message:
-            'Invalid request body. Required: componentPaths (string[]), find (string), replace (string), isRegex (boolean)',
+            'Invalid request body. Required: componentPaths (string[]), find (string), replace (string), isRegex (boolean). Optional: the other edit fields, limit (1-100)',
           code: 'VALIDATION_ERROR',
         },
       });
       return;
     }
 
-    const { componentPaths, find, replace, isRegex, createBackup = true } = req.body;
+    const {
+      componentPaths,
+      find,
+      replace,
+      isRegex,
+      matchMode,
+      variantPath,
+      scaleShift,
+      migration,
+      classEdit,
+      prefixes,
+      limit = 20,
+    } = req.body;
 
-    // Validate component paths to prevent path traversal attacks
     const pathValidation = validateComponentPaths(componentPaths, PROJECT_DIR);
     if (!pathValidation.valid) {
       res.status(400).json({
@@ -121,22 +185,139 @@ router.post('/apply', async (req: Request, res: Response) => {
       }
     }
 
-    const result = await applyChanges(componentPaths, find, replace, isRegex, createBackup);
+    const rule = {
+      find,
+      replace,
+      isRegex,
+      matchMode,
+      variantPath,
+      scaleShift,
+      migration,
+      classEdit,
+      prefixes,
+    };
+    const result: MatchesResult = { matches: [], total: 0, complete: true, skipped: [] };
+
+    // An empty pattern would match everywhere
+    if (find || scaleShift || migration || classEdit) {
+      for (const filePath of componentPaths) {
+        if (result.matches.length >= limit) {
+          result.complete = false;
+          break;
+        }
+
+        try {
+          const content = await fs.readFile(filePath, 'utf-8');
+          const found = await findMatchesSafely(content, rule, filePath);
+          result.total += found.length;
+          for (const match of found.slice(0, limit - result.matches.length)) {
+            result.matches.push({ path: filePath, ...match });
+          }
+        } catch (error) {
+          // A slow pattern is the rule's fault and fails the request like /preview does
+          if (error instanceof RegexTimeoutError) throw error;
+          // One unreadable file should not hide the matches in the others
+          const message = error instanceof Error ? error.message : 'Failed to search file';
+          result.skipped.push({ path: filePath, error: message });
+        }
+      }
+    }
+
+    res.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof RegexTimeoutError) {
+      res.status(422).json({
+        success: false,
+        error: { message: error.message, code: error.code },
+      });
+      return;
+    }
+    logger.error('Failed to find matches', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: 'Failed to find matches',
+        code: 'MATCHES_ERROR',
+      },
+    });
+  }
+});
+
+router.post('/apply', async (req: Request, res: Response) => {
+  try {
+    if (!validateApplyRequest(req.body)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          message:
+            "Invalid request body. Required: componentPaths (string[]), find (string), replace (string), isRegex (boolean). Optional: matchMode ('text' | 'token'), variantPath (component.group.option, * allowed), scaleShift ({ scale, direction, steps?, percent? (not on shadow), tailwind? (3 | 4) }), migration ('tailwind-v4'), classEdit ({ line, column, rename?, add? }), prefixes (string[]), fingerprints (Record<path, { hash, mtime }>)",
+          code: 'VALIDATION_ERROR',
+        },
+      });
+      return;
+    }
+
+    const {
+      componentPaths,
+      find,
+      replace,
+      isRegex,
+      matchMode,
+      variantPath,
+      scaleShift,
+      migration,
+      classEdit,
+      prefixes,
+      createBackup = true,
+      fingerprints,
+    } = req.body;
 
-    if (!result.success) {
-      res.status(500).json({
+    // Validate component paths to prevent path traversal attacks
+    const pathValidation = validateComponentPaths(componentPaths, PROJECT_DIR);
+    if (!pathValidation.valid) {
+      res.status(400).json({
         success: false,
         error: {
-          message: 'Some files failed to modify',
-          code: 'APPLY_PARTIAL_ERROR',
+          message: pathValidation.error || 'Invalid component paths',
+          code: 'PATH_TRAVERSAL_ERROR',
         },
-        modified: result.modified,
-        errors: result.errors,
-        backupId: result.backupId,
       });
       return;
     }
 
+    if (isRegex) {
+      const validation = validateRegex(find);
+      if (!validation.valid) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: `Invalid regex pattern: ${validation.error}`,
+            code: 'INVALID_REGEX',
+          },
+        });
+        return;
+      }
+    }
+
+    const result = await applyChanges(
+      componentPaths,
+      {
+        find,
+        replace,
+        isRegex,
+        matchMode,
+        variantPath,
+        scaleShift,
+        migration,
+        classEdit,
+        prefixes,
+      },
+      createBackup,
+      fingerprints
+    );
+
+    if (sendApplyFailure(res, result)) return;
+
     res.json({
       success: true,
       modified: result.modified,
@@ -144,6 +325,13 @@ router.post('/apply', async (req: Request, res: Response) => {
       backupId: result.backupId,
     });
   } catch (error) {
+    if (error instanceof RegexTimeoutError) {
+      res.status(422).json({
+        success: false,
+        error: { message: error.message, code: error.code },
+      });
+      return;
+    }
     logger.error('Failed to apply changes', error);
     res.status(500).json({
       success: false,
@@ -155,24 +343,28 @@ router.post('/apply', async (req: Request, res: Response) => {
   }
 });
 
-router.post('/batch-action', async (req: Request, res: Response) => {
+// Apply only what was accepted in the preview: exact file contents or hunk ids per file
+router.post('/apply-approved', async (req: Request, res: Response) => {
   try {
-    if (!validateBatchActionRequest(req.body)) {
+    if (!validateApplyApprovedRequest(req.body)) {
       res.status(400).json({
         success: false,
         error: {
           message:
-            'Invalid request body. Required: action (string), componentPaths (string[]). Valid actions: remove-cursor-pointer, add-focus-rings, update-border-radius, remove-class, replace-class',
+            'Invalid request body. Required: changes ({ path, after?, hunks?, fingerprint? }[] with exactly one of after or hunks). Optional: rule (required with hunks), createBackup (boolean)',
           code: 'VALIDATION_ERROR',
         },
       });
       return;
     }
 
-    const { action, componentPaths, options } = req.body;
+    const { changes, rule, createBackup = true } = req.body;
 
     // Validate component paths to prevent path traversal attacks
-    const pathValidation = validateComponentPaths(componentPaths, PROJECT_DIR);
+    const pathValidation = validateComponentPaths(
+      changes.map((change) => change.path),
+      PROJECT_DIR
+    );
     if (!pathValidation.valid) {
       res.status(400).json({
         success: false,
@@ -184,20 +376,94 @@ router.post('/batch-action', async (req: Request, res: Response) => {
       return;
     }
 
-    const result = await applyBatchAction(action, componentPaths, options);
+    const unknownTargets = await findUnknownWriteTargets(changes);
+    if (unknownTargets.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: {
+          message: `Full contents can only be written to scanned components or the theme file; send hunks for: ${unknownTargets.join(', ')}`,
+          code: 'UNKNOWN_WRITE_TARGET',
+        },
+      });
+      return;
+    }
 
-    if (!result.success) {
-      res.status(500).json({
+    if (rule?.isRegex) {
+      const validation = validateRegex(rule.find);
+      if (!validation.valid) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: `Invalid regex pattern: ${validation.error}`,
+            code: 'INVALID_REGEX',
+          },
+        });
+        return;
+      }
+    }
+
+    const result = await applyApprovedChanges(changes, rule, createBackup);
+
+    if (sendApplyFailure(res, result)) return;
+
+    res.json({
+      success: true,
+      modified: result.modified,
+      changes: result.changes,
+      backupId: result.backupId,
+    });
+  } catch (error) {
+    if (error instanceof RegexTimeoutError) {
+      res.status(422).json({
+        success: false,
+        error: { message: error.message, code: error.code },
+      });
+      return;
+    }
+    logger.error('Failed to apply approved changes', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: 'Failed to apply approved changes',
+        code: 'APPLY_ERROR',
+      },
+    });
+  }
+});
+
+router.post('/batch-action', async (req: Request, res: Response) => {
+  try {
+    if (!validateBatchActionRequest(req.body)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          message:
+            'Invalid request body. Required: action (string), componentPaths (string[]). Valid actions: remove-cursor-pointer, add-focus-rings, update-border-radius, remove-class, replace-class, migrate-tailwind-v4, step-<scale> (options.direction: up | down, options.steps, or options.percent on scales with sizes)',
+          code: 'VALIDATION_ERROR',
+        },
+      });
+      return;
+    }
+
+    const { action, componentPaths, options } = req.body;
+
+    // Validate component paths to prevent path traversal attacks
+    const pathValidation = validateComponentPaths(componentPaths, PROJECT_DIR);
+    if (!pathValidation.valid) {
+      res.status(400).json({
         success: false,
         error: {
-          message: result.errors?.[0]?.error || 'Batch action failed',
-          code: 'BATCH_ACTION_ERROR',
+          message: pathValidation.error || 'Invalid component paths',
+          code: 'PATH_TRAVERSAL_ERROR',
         },
-        errors: result.errors,
       });
       return;
     }
 
+    const result = await applyBatchAction(action, componentPaths, options);
+
+    if (sendApplyFailure(res, result, 'run batch action')) return;
+
     res.json({
       success: true,
       modified: result.modified,
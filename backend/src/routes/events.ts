@@ -0,0 +1,31 @@
+import { type Request, type Response, Router } from 'express';
+import { componentEvents } from '../services/watcher.js';
+import type { ComponentEvent } from '../types/index.js';
+
+const router = Router();
+
+// Keeps idle connections from being closed by proxies and detects dead clients
+const HEARTBEAT_MS = 30000;
+
+// Server-sent events: one `data:` message per ComponentEvent
+router.get('/', (req: Request, res: Response) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write(': connected\n\n');
+
+  const send = (event: ComponentEvent) => {
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+  };
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+
+  componentEvents.on('component', send);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    componentEvents.off('component', send);
+  });
+});
+
+export default router;
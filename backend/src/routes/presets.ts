@@ -0,0 +1,86 @@
+import path from 'node:path';
+import { type Request, type Response, Router } from 'express';
+import { getPreset, listPresets, previewPreset } from '../services/presets.js';
+import { getCachedComponents, getWorkingDirectory } from '../services/scanner.js';
+import { findThemeFile } from '../services/theme.js';
+import { logger } from '../utils/logger.js';
+import { validateComponentPaths, validatePresetPreviewRequest } from '../utils/validation.js';
+
+const router = Router();
+
+// Backend runs from the backend/ directory, so the project root is one level up
+const PROJECT_DIR = path.resolve(process.cwd(), '..');
+
+// Built-in looks: theme variables plus class rules
+router.get('/', (_req: Request, res: Response) => {
+  res.json({ success: true, presets: listPresets() });
+});
+
+// Previews a preset on the components and the theme file; apply with /api/edit/apply-approved
+router.post('/:id/preview', async (req: Request, res: Response) => {
+  try {
+    const preset = getPreset(req.params.id);
+    if (!preset) {
+      res.status(404).json({
+        success: false,
+        error: {
+          message: `Preset not found: ${req.params.id}`,
+          code: 'PRESET_NOT_FOUND',
+        },
+      });
+      return;
+    }
+
+    if (!validatePresetPreviewRequest(req.body)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          message: 'Invalid request body. Optional: componentPaths (string[])',
+          code: 'VALIDATION_ERROR',
+        },
+      });
+      return;
+    }
+
+    const componentPaths =
+      req.body.componentPaths ?? getCachedComponents().map((component) => component.path);
+
+    const pathValidation = validateComponentPaths(componentPaths, PROJECT_DIR);
+    if (!pathValidation.valid) {
+      res.status(400).json({
+        success: false,
+        error: {
+          message: pathValidation.error || 'Invalid component paths',
+          code: 'PATH_TRAVERSAL_ERROR',
+        },
+      });
+      return;
+    }
+
+    const cssPath = await findThemeFile(getWorkingDirectory());
+    if (!cssPath && preset.theme.length > 0) {
+      res.status(404).json({
+        success: false,
+        error: {
+          message: `${preset.name} sets theme variables, but no Tailwind CSS file was found. Set tailwind.css in components.json.`,
+          code: 'THEME_NOT_FOUND',
+        },
+      });
+      return;
+    }
+
+    const result = await previewPreset(preset, componentPaths, cssPath);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    logger.error(`Failed to preview preset: ${req.params.id}`, error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: 'Failed to preview preset',
+        code: 'PREVIEW_ERROR',
+      },
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,43 @@
+import { type Request, type Response, Router } from 'express';
+import { getProjectInfo } from '../services/project.js';
+import { getWorkingDirectory } from '../services/scanner.js';
+import { loadTailwindTheme } from '../services/tailwindTheme.js';
+import { logger } from '../utils/logger.js';
+
+const router = Router();
+
+// components.json settings, resolved aliases and the Tailwind setup
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    const project = await getProjectInfo(getWorkingDirectory());
+    res.json({ success: true, project });
+  } catch (error) {
+    logger.error('Failed to read project settings', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: 'Failed to read project settings',
+        code: 'PROJECT_ERROR',
+      },
+    });
+  }
+});
+
+// The radius, shadow, text, spacing and ring scales the project's Tailwind theme generates
+router.get('/tailwind-theme', async (_req: Request, res: Response) => {
+  try {
+    const theme = await loadTailwindTheme(getWorkingDirectory());
+    res.json({ success: true, theme });
+  } catch (error) {
+    logger.error('Failed to read the Tailwind theme', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: 'Failed to read the Tailwind theme',
+        code: 'TAILWIND_THEME_ERROR',
+      },
+    });
+  }
+});
+
+export default router;
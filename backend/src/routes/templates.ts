@@ -1,6 +1,7 @@
 import path from 'node:path';
 import { type Request, type Response, Router } from 'express';
-import { applyChanges } from '../services/modifier.js';
+import { applyRules } from '../services/modifier.js';
+import { RegexTimeoutError } from '../services/regexRunner.js';
 import {
   createTemplate,
   deleteTemplate,
@@ -8,8 +9,10 @@ import {
   listTemplates,
   updateTemplate,
 } from '../services/template.js';
+import { sendApplyFailure } from '../utils/applyResponse.js';
 import { logger } from '../utils/logger.js';
 import {
+  isOptionalFingerprints,
   validateComponentPaths,
   validateTemplateId,
   validateTemplateRules,
@@ -100,7 +103,7 @@ router.post('/', async (req: Request, res: Response) => {
         success: false,
         error: {
           message:
-            'Invalid rules format. Each rule must have find (string), replace (string), and isRegex (boolean)',
+            "Invalid rules format. Each rule must have find (string), replace (string), isRegex (boolean), an optional matchMode ('text' | 'token') an optional variantPath (component.group.option), scaleShift, migration ('tailwind-v4'), classEdit and prefixes (string[])",
           code: 'VALIDATION_ERROR',
         },
       });
@@ -249,7 +252,7 @@ router.delete('/:id', async (req: Request, res: Response) => {
   }
 });
 
-// Apply a template to components (applies all rules sequentially)
+// Apply a template to components (all rules in order, as one transaction)
 router.post('/:id/apply', async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
@@ -267,7 +270,7 @@ router.post('/:id/apply', async (req: Request, res: Response) => {
       return;
     }
 
-    const { componentPaths } = req.body;
+    const { componentPaths, fingerprints } = req.body;
 
     if (!Array.isArray(componentPaths) || componentPaths.length === 0) {
       res.status(400).json({
@@ -280,6 +283,17 @@ router.post('/:id/apply', async (req: Request, res: Response) => {
       return;
     }
 
+    if (!isOptionalFingerprints(fingerprints)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          message: 'fingerprints must map component paths to { hash, mtime }',
+          code: 'VALIDATION_ERROR',
+        },
+      });
+      return;
+    }
+
     // Validate component paths to prevent path traversal attacks
     const pathValidation = validateComponentPaths(componentPaths, PROJECT_DIR);
     if (!pathValidation.valid) {
@@ -305,42 +319,26 @@ router.post('/:id/apply', async (req: Request, res: Response) => {
       return;
     }
 
-    // Apply each rule in sequence
-    const allModified: string[] = [];
-    let totalChanges = 0;
-    let backupId: string | undefined;
-
-    for (let i = 0; i < template.rules.length; i++) {
-      const rule = template.rules[i];
-      // Only create backup on first rule application
-      const result = await applyChanges(
-        componentPaths,
-        rule.find,
-        rule.replace,
-        rule.isRegex,
-        i === 0 // Only backup on first rule
-      );
-
-      if (i === 0 && result.backupId) {
-        backupId = result.backupId;
-      }
+    // All rules are applied as one transaction with a single backup
+    const result = await applyRules(componentPaths, template.rules, true, fingerprints);
 
-      for (const path of result.modified) {
-        if (!allModified.includes(path)) {
-          allModified.push(path);
-        }
-      }
-      totalChanges += result.changes;
-    }
+    if (sendApplyFailure(res, result, 'apply template')) return;
 
     res.json({
       success: true,
-      modified: allModified,
-      changes: totalChanges,
-      backupId,
+      modified: result.modified,
+      changes: result.changes,
+      backupId: result.backupId,
       rulesApplied: template.rules.length,
     });
   } catch (error) {
+    if (error instanceof RegexTimeoutError) {
+      res.status(422).json({
+        success: false,
+        error: { message: error.message, code: error.code },
+      });
+      return;
+    }
     logger.error(`Failed to apply template: ${req.params.id}`, error);
     res.status(500).json({
       success: false,
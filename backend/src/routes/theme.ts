@@ -0,0 +1,242 @@
+import path from 'node:path';
+import { type Request, type Response, Router } from 'express';
+import fs from 'fs-extra';
+import { getWorkingDirectory } from '../services/scanner.js';
+import {
+  applyThemeFileEdits,
+  findThemeFile,
+  loadTheme,
+  previewThemeEdits,
+  previewThemeImport,
+  previewThemeTransform,
+} from '../services/theme.js';
+import { sendApplyFailure } from '../utils/applyResponse.js';
+import { logger } from '../utils/logger.js';
+import {
+  isPathSafe,
+  validateThemeApplyRequest,
+  validateThemeEditRequest,
+  validateThemeImportRequest,
+  validateThemeTransformRequest,
+} from '../utils/validation.js';
+
+const router = Router();
+
+const THEME_NOT_FOUND = {
+  success: false,
+  error: {
+    message:
+      'No Tailwind CSS file found. Set tailwind.css in components.json to the file with your theme variables.',
+    code: 'THEME_NOT_FOUND',
+  },
+};
+
+const INVALID_EDITS =
+  'Invalid request body. Required: edits ({ name: "--variable", scope: "light" | "dark" | "theme", value }[]), values cannot contain ; { } or line breaks';
+
+// CSS variables of the :root, .dark and @theme blocks
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    const theme = await loadTheme(getWorkingDirectory());
+    if (!theme) {
+      res.status(404).json(THEME_NOT_FOUND);
+      return;
+    }
+    res.json({ success: true, theme });
+  } catch (error) {
+    logger.error('Failed to read theme', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: 'Failed to read theme',
+        code: 'THEME_ERROR',
+      },
+    });
+  }
+});
+
+router.post('/preview', async (req: Request, res: Response) => {
+  try {
+    if (!validateThemeEditRequest(req.body)) {
+      res.status(400).json({
+        success: false,
+        error: { message: INVALID_EDITS, code: 'VALIDATION_ERROR' },
+      });
+      return;
+    }
+
+    const cssPath = await findThemeFile(getWorkingDirectory());
+    if (!cssPath) {
+      res.status(404).json(THEME_NOT_FOUND);
+      return;
+    }
+
+    const { preview, changes, contrast } = await previewThemeEdits(cssPath, req.body.edits);
+    res.json({ success: true, preview, changes, contrast });
+  } catch (error) {
+    logger.error('Failed to preview theme edits', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: 'Failed to preview theme edits',
+        code: 'PREVIEW_ERROR',
+      },
+    });
+  }
+});
+
+// Previews a color transform; apply the returned edits with /apply
+router.post('/transform', async (req: Request, res: Response) => {
+  try {
+    if (!validateThemeTransformRequest(req.body)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          message:
+            'Invalid request body. Required: transform ({ type: "hue-shift", degrees } | { type: "lighten", amount } | { type: "convert", format } | { type: "contrast", ratio? }). Optional: tokens (variable names, * wildcards), scopes ("light" | "dark" | "theme")[]',
+          code: 'VALIDATION_ERROR',
+        },
+      });
+      return;
+    }
+
+    const cssPath = await findThemeFile(getWorkingDirectory());
+    if (!cssPath) {
+      res.status(404).json(THEME_NOT_FOUND);
+      return;
+    }
+
+    const result = await previewThemeTransform(cssPath, req.body);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    logger.error('Failed to preview color transform', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: 'Failed to preview color transform',
+        code: 'PREVIEW_ERROR',
+      },
+    });
+  }
+});
+
+// Previews a theme snippet, pasted or from a .css file; apply the returned edits with /apply
+router.post('/import', async (req: Request, res: Response) => {
+  try {
+    if (!validateThemeImportRequest(req.body)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          message:
+            'Invalid request body. Required: exactly one of css (the snippet) or file (path to a .css file)',
+          code: 'VALIDATION_ERROR',
+        },
+      });
+      return;
+    }
+
+    const root = getWorkingDirectory();
+    const cssPath = await findThemeFile(root);
+    if (!cssPath) {
+      res.status(404).json(THEME_NOT_FOUND);
+      return;
+    }
+
+    let snippet = req.body.css;
+    if (req.body.file !== undefined) {
+      const snippetPath = path.resolve(root, req.body.file);
+      // Only read snippets from inside the project
+      if (!isPathSafe(snippetPath, root)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: `Path traversal detected in file: ${req.body.file}`,
+            code: 'PATH_TRAVERSAL_ERROR',
+          },
+        });
+        return;
+      }
+      if (!(await fs.pathExists(snippetPath))) {
+        res.status(404).json({
+          success: false,
+          error: { message: `File not found: ${req.body.file}`, code: 'FILE_NOT_FOUND' },
+        });
+        return;
+      }
+      snippet = await fs.readFile(snippetPath, 'utf-8');
+    }
+
+    const result = await previewThemeImport(root, cssPath, snippet ?? '');
+    if (result.edits.length === 0) {
+      res.status(400).json({
+        success: false,
+        error: {
+          message: 'The snippet declares no variables in :root, .dark or @theme',
+          code: 'NO_THEME_VARIABLES',
+        },
+      });
+      return;
+    }
+
+    res.json({ success: true, ...result });
+  } catch (error) {
+    logger.error('Failed to import theme', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: 'Failed to import theme',
+        code: 'IMPORT_ERROR',
+      },
+    });
+  }
+});
+
+router.post('/apply', async (req: Request, res: Response) => {
+  try {
+    if (!validateThemeApplyRequest(req.body)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          message: `${INVALID_EDITS}. Optional: fingerprint (from the preview), createBackup (boolean)`,
+          code: 'VALIDATION_ERROR',
+        },
+      });
+      return;
+    }
+
+    const cssPath = await findThemeFile(getWorkingDirectory());
+    if (!cssPath) {
+      res.status(404).json(THEME_NOT_FOUND);
+      return;
+    }
+
+    const { edits, fingerprint, createBackup = true } = req.body;
+    const { result, changes } = await applyThemeFileEdits(
+      cssPath,
+      edits,
+      fingerprint,
+      createBackup
+    );
+
+    if (sendApplyFailure(res, result, 'apply theme edits')) return;
+
+    logger.info(`Applied ${changes.length} theme edits to ${cssPath}`);
+    res.json({
+      success: true,
+      modified: result.modified,
+      changes,
+      backupId: result.backupId,
+    });
+  } catch (error) {
+    logger.error('Failed to apply theme edits', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: 'Failed to apply theme edits',
+        code: 'APPLY_ERROR',
+      },
+    });
+  }
+});
+
+export default router;
@@ -1,9 +1,14 @@
 import cors from 'cors';
 import express from 'express';
+import analysisRouter from './routes/analysis.js';
 import backupRouter from './routes/backup.js';
 import componentsRouter from './routes/components.js';
 import editRouter from './routes/edit.js';
+import eventsRouter from './routes/events.js';
+import presetsRouter from './routes/presets.js';
+import projectRouter from './routes/project.js';
 import templatesRouter from './routes/templates.js';
+import themeRouter from './routes/theme.js';
 import { initializeDefaultTemplates } from './services/template.js';
 import { logger } from './utils/logger.js';
 
@@ -43,6 +48,11 @@ app.use('/api/components', componentsRouter);
 app.use('/api/edit', editRouter);
 app.use('/api/backup', backupRouter);
 app.use('/api/templates', templatesRouter);
+app.use('/api/project', projectRouter);
+app.use('/api/events', eventsRouter);
+app.use('/api/analysis', analysisRouter);
+app.use('/api/theme', themeRouter);
+app.use('/api/presets', presetsRouter);
 
 app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
   logger.error('Unhandled error', err);
@@ -74,7 +84,7 @@ async function start() {
       logger.info('Available endpoints:');
       logger.info('  GET  /api/components/scan - Scan for components');
       logger.info('  GET  /api/components - List all components');
-      logger.info('  GET  /api/components/:name - Get component details');
+      logger.info('  GET  /api/components/:id - Get component details');
       logger.info('  POST /api/edit/preview - Preview changes');
       logger.info('  POST /api/edit/apply - Apply changes');
       logger.info('  POST /api/edit/batch-action - Apply batch action');
@@ -84,6 +94,20 @@ async function start() {
       logger.info('  POST /api/backup/create - Create backup');
       logger.info('  GET  /api/backup/list - List backups');
       logger.info('  POST /api/backup/restore - Restore backup');
+      logger.info('  GET  /api/project - Project and Tailwind settings');
+      logger.info('  GET  /api/project/tailwind-theme - Tailwind theme scales');
+      logger.info('  GET  /api/events - Component changes on disk (SSE)');
+      logger.info('  GET  /api/analysis/classes - Class inventory');
+      logger.info('  GET  /api/analysis/policy - Style policy report');
+      logger.info('  GET  /api/analysis/a11y - Accessibility audit');
+      logger.info('  GET  /api/analysis/migration - Tailwind 4 migration report');
+      logger.info('  GET  /api/theme - Theme CSS variables');
+      logger.info('  POST /api/theme/preview - Preview theme edits');
+      logger.info('  POST /api/theme/transform - Preview a color transform');
+      logger.info('  POST /api/theme/import - Preview a theme CSS snippet');
+      logger.info('  POST /api/theme/apply - Apply theme edits');
+      logger.info('  GET  /api/presets - List theme presets');
+      logger.info('  POST /api/presets/:id/preview - Preview a theme preset');
     });
   } catch (error) {
     logger.error('Failed to start server', error);
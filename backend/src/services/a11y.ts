@@ -0,0 +1,340 @@
+import type {
+  A11yCheck,
+  A11yFinding,
+  A11yReport,
+  ClassEdit,
+  ClassLocation,
+  Component,
+  Severity,
+  TemplateRule,
+} from '../types/index.js';
+import { loadParsedFile } from './cache.js';
+import { getClassFamily } from './conflicts.js';
+import { getProjectInfo } from './project.js';
+import { formatClass, type ParsedClass, parseClass } from './tokens.js';
+
+type Finding = Omit<A11yFinding, 'componentId' | 'path' | 'line' | 'column'>;
+
+// How a string's classes change to fix a finding
+type ClassChange = Omit<ClassEdit, 'line' | 'column'>;
+
+interface AuditContext {
+  // Every class of the declaration that owns the string, e.g. all strings of buttonVariants
+  ownerClasses: ParsedClass[];
+  interactive: boolean;
+  formControl: boolean;
+  // Tailwind 3 only knows aria-[invalid=true]:, Tailwind 4 has aria-invalid:
+  ariaInvalid: string;
+}
+
+const FOCUS_VARIANTS = new Set(['focus', 'focus-visible', 'focus-within']);
+const FOCUS_RING_CLASSES = [
+  'focus-visible:ring-2',
+  'focus-visible:ring-ring',
+  'focus-visible:ring-offset-2',
+];
+const INTERACTIVE_ELEMENTS = new Set(['button', 'a', 'input', 'select', 'textarea', 'summary']);
+const FORM_CONTROL_ELEMENTS = new Set(['input', 'select', 'textarea']);
+const INTERACTIVE_OWNER =
+  /button|toggle|input|select|textarea|checkbox|radio|switch|slider|trigger/i;
+const FORM_CONTROL_OWNER = /input|select|textarea|checkbox|radio|switch/i;
+// Tailwind 3's bare ring is 3px wide, Tailwind 4's is 1px
+const BARE_RING_WIDTH = { 3: 3, 4: 1 } as const;
+
+const SEVERITY_ORDER: Severity[] = ['error', 'warning', 'info'];
+
+function hasFocusVariant(parsed: ParsedClass): boolean {
+  return parsed.variants.some((variant) => FOCUS_VARIANTS.has(variant));
+}
+
+function isOutlineRemoval(parsed: ParsedClass): boolean {
+  return parsed.utility === 'outline' && (parsed.value === 'none' || parsed.value === 'hidden');
+}
+
+function isFocusStyle(token: string): boolean {
+  const family = getClassFamily(token);
+  return family.startsWith('ring') || family.startsWith('outline');
+}
+
+// A rule that renames and adds classes in exactly this class string, keyed by its position
+function createFix(location: ClassLocation, change: ClassChange): TemplateRule {
+  return {
+    find: '',
+    replace: '',
+    isRegex: false,
+    matchMode: 'token',
+    classEdit: { line: location.line, column: location.column, ...change },
+  };
+}
+
+function finding(
+  check: A11yCheck,
+  severity: Severity,
+  message: string,
+  classes: string[],
+  location: ClassLocation,
+  change: ClassChange,
+  fixName: string
+): Finding {
+  return {
+    check,
+    severity,
+    message,
+    classes,
+    fix: { name: fixName, rule: createFix(location, change) },
+  };
+}
+
+// outline-none hides the browser's focus outline; something else has to show focus
+function checkOutline(location: ClassLocation, context: AuditContext): Finding | null {
+  const removals = location.classes.filter((token) => isOutlineRemoval(parseClass(token)));
+  if (removals.length === 0) return null;
+
+  const hasIndicator = context.ownerClasses.some(
+    (parsed) => hasFocusVariant(parsed) && !isOutlineRemoval(parsed)
+  );
+  if (hasIndicator) return null;
+
+  return finding(
+    'outline-without-indicator',
+    'error',
+    `${removals.join(' ')} removes the focus outline without another focus style`,
+    removals,
+    location,
+    { add: FOCUS_RING_CLASSES },
+    'Add a focus-visible ring'
+  );
+}
+
+// focus: also fires on mouse clicks; keyboard focus rings belong on focus-visible:
+function checkFocusVisible(location: ClassLocation): Finding | null {
+  const rename: Record<string, string> = {};
+  for (const token of location.classes) {
+    const parsed = parseClass(token);
+    if (!parsed.variants.includes('focus') || !isFocusStyle(token)) continue;
+    const variants = parsed.variants.map((variant) =>
+      variant === 'focus' ? 'focus-visible' : variant
+    );
+    rename[token] = formatClass({ ...parsed, variants });
+  }
+
+  const classes = Object.keys(rename);
+  if (classes.length === 0) return null;
+
+  return finding(
+    'focus-not-visible',
+    'warning',
+    `${classes.join(' ')} also shows on mouse focus; use focus-visible:`,
+    classes,
+    location,
+    { rename },
+    'Use focus-visible:'
+  );
+}
+
+// The string that styles the control's states, where disabled and invalid styles go
+function isStateString(location: ClassLocation): boolean {
+  return location.classes.some((token) => {
+    const { variants } = parseClass(token);
+    return variants.includes('hover') || variants.includes('focus-visible');
+  });
+}
+
+function checkDisabled(location: ClassLocation, context: AuditContext): Finding | null {
+  if (!context.interactive || !isStateString(location)) return null;
+
+  const hasDisabled = context.ownerClasses.some((parsed) =>
+    parsed.variants.some((variant) => variant.includes('disabled'))
+  );
+  if (hasDisabled) return null;
+
+  return finding(
+    'missing-disabled',
+    'warning',
+    'Interactive element has no disabled: styles',
+    [],
+    location,
+    { add: ['disabled:pointer-events-none', 'disabled:opacity-50'] },
+    'Add disabled: styles'
+  );
+}
+
+function checkAriaInvalid(location: ClassLocation, context: AuditContext): Finding | null {
+  if (!context.formControl || !isStateString(location)) return null;
+
+  const hasInvalid = context.ownerClasses.some((parsed) =>
+    parsed.variants.some((variant) => variant.includes('invalid'))
+  );
+  if (hasInvalid) return null;
+
+  const variant = context.ariaInvalid;
+  return finding(
+    'missing-aria-invalid',
+    'info',
+    `Form control has no ${variant}: styles for invalid input`,
+    [],
+    location,
+    { add: [`${variant}:border-destructive`, `${variant}:ring-destructive/20`] },
+    `Add ${variant}: styles`
+  );
+}
+
+function getRingWidth(parsed: ParsedClass, bareWidth: number): number | null {
+  if (parsed.utility !== 'ring') return null;
+  if (parsed.value === '') return bareWidth;
+  if (parsed.arbitrary !== undefined) {
+    const match = parsed.arbitrary.match(/^(\d*\.?\d+)px$/);
+    return match ? Number.parseFloat(match[1]) : null;
+  }
+  const width = Number.parseInt(parsed.value, 10);
+  return Number.isNaN(width) ? null : width;
+}
+
+// A 1px focus ring flush against the element is hard to see; WCAG 2.4.13 asks for 2px
+function checkRingOffset(
+  location: ClassLocation,
+  context: AuditContext,
+  bareWidth: number
+): Finding | null {
+  const thin = location.classes.filter((token) => {
+    const parsed = parseClass(token);
+    const width = getRingWidth(parsed, bareWidth);
+    return hasFocusVariant(parsed) && width !== null && width < 2;
+  });
+  if (thin.length === 0) return null;
+
+  const hasOffset = context.ownerClasses.some(
+    (parsed) => parsed.utility === 'ring-offset' && /^[1-9]/.test(parsed.value)
+  );
+  if (hasOffset) return null;
+
+  const rename: Record<string, string> = {};
+  const add: string[] = [];
+  for (const token of thin) {
+    const parsed = parseClass(token);
+    rename[token] = formatClass({ ...parsed, value: '2', arbitrary: undefined });
+    add.push(formatClass({ ...parsed, utility: 'ring-offset', value: '2', arbitrary: undefined }));
+  }
+
+  return finding(
+    'ring-offset',
+    'info',
+    `${thin.join(' ')} is a 1px focus ring without an offset`,
+    thin,
+    location,
+    { rename, add: [...new Set(add)] },
+    'Widen the ring to 2px with an offset'
+  );
+}
+
+function checkMotion(location: ClassLocation, context: AuditContext): Finding | null {
+  const reduced = context.ownerClasses.some((parsed) =>
+    parsed.variants.some((variant) => variant === 'motion-reduce' || variant === 'motion-safe')
+  );
+  if (reduced) return null;
+
+  const animated: string[] = [];
+  const add = new Set<string>();
+  for (const token of location.classes) {
+    const parsed = parseClass(token);
+    if (parsed.value === 'none') continue;
+    const family = getClassFamily(token);
+    if (family === 'transition') add.add('motion-reduce:transition-none');
+    else if (family === 'animate') add.add('motion-reduce:animate-none');
+    else continue;
+    animated.push(token);
+  }
+  if (animated.length === 0) return null;
+
+  return finding(
+    'motion-reduce',
+    'info',
+    `${animated.join(' ')} ignores prefers-reduced-motion`,
+    animated,
+    location,
+    { add: [...add] },
+    'Add motion-reduce: fallbacks'
+  );
+}
+
+// Strings of one declaration are checked together, e.g. the base and variants of buttonVariants
+function groupByOwner(locations: ClassLocation[]): ClassLocation[][] {
+  const groups = new Map<string, ClassLocation[]>();
+  for (const location of locations) {
+    const key = location.owner ?? `${location.line}:${location.column}`;
+    groups.set(key, [...(groups.get(key) ?? []), location]);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Audits every class string of the components for common accessibility
+ * problems in shadcn components. Each finding carries a rule that rewrites
+ * just the offending string, for the preview.
+ */
+export async function auditAccessibility(
+  components: Component[],
+  projectRoot: string
+): Promise<A11yReport> {
+  const { tailwind } = await getProjectInfo(projectRoot);
+  const major = tailwind.major ?? 4;
+  const counts: Record<Severity, number> = { error: 0, warning: 0, info: 0 };
+  const findings: A11yFinding[] = [];
+
+  for (const component of components) {
+    const { parsed } = await loadParsedFile(component.path);
+
+    for (const group of groupByOwner(parsed.classLocations)) {
+      const owner = group[0].owner ?? '';
+      const elements = group.map((location) => location.element ?? '');
+      const context: AuditContext = {
+        ownerClasses: group.flatMap((location) => location.classes.map(parseClass)),
+        interactive:
+          elements.some((element) => INTERACTIVE_ELEMENTS.has(element)) ||
+          INTERACTIVE_OWNER.test(owner),
+        formControl:
+          elements.some((element) => FORM_CONTROL_ELEMENTS.has(element)) ||
+          FORM_CONTROL_OWNER.test(owner),
+        ariaInvalid: major === 3 ? 'aria-[invalid=true]' : 'aria-invalid',
+      };
+
+      // Owner-wide checks report once, on the first string they apply to
+      const reported = new Set<A11yCheck>();
+      for (const location of group) {
+        const results = [
+          checkOutline(location, context),
+          checkFocusVisible(location),
+          checkDisabled(location, context),
+          checkAriaInvalid(location, context),
+          checkRingOffset(location, context, BARE_RING_WIDTH[major]),
+          checkMotion(location, context),
+        ];
+
+        for (const result of results) {
+          if (!result) continue;
+          if (result.check === 'missing-disabled' || result.check === 'missing-aria-invalid') {
+            if (reported.has(result.check)) continue;
+            reported.add(result.check);
+          }
+          findings.push({
+            ...result,
+            componentId: component.id,
+            path: component.path,
+            line: location.line,
+            column: location.column,
+          });
+          counts[result.severity]++;
+        }
+      }
+    }
+  }
+
+  findings.sort(
+    (a, b) =>
+      SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) ||
+      a.componentId.localeCompare(b.componentId) ||
+      a.line - b.line
+  );
+
+  return { components: components.length, counts, findings };
+}
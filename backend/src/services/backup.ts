@@ -2,6 +2,7 @@ import path from 'node:path';
 import fs from 'fs-extra';
 import type { Backup, BackupManifest } from '../types/index.js';
 import { logger } from '../utils/logger.js';
+import { markOwnWrites } from './watcher.js';
 
 const BACKUP_DIR = '.shadcn-tweaker/backups';
 
@@ -128,6 +129,7 @@ export async function restoreBackup(
 
   const manifest: BackupManifest = await fs.readJson(manifestPath);
   const restored: string[] = [];
+  markOwnWrites(manifest.files.map((file) => file.originalPath));
 
   for (const file of manifest.files) {
     try {
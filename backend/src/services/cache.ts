@@ -0,0 +1,140 @@
+import crypto from 'node:crypto';
+import path from 'node:path';
+import fs from 'fs-extra';
+import type { ParsedFile } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { parseComponent } from './classParser.js';
+import { getWorkingDirectory } from './config.js';
+
+const CACHE_DIR = '.shadcn-tweaker/cache';
+const CACHE_FILE = 'parsed-components.json';
+// Bump whenever ParsedFile or the parser's output changes, so old caches are discarded
+const CACHE_VERSION = 1;
+// Several files change at once during an apply; write the cache once afterwards
+const SAVE_DELAY_MS = 500;
+
+interface CacheEntry {
+  mtimeMs: number;
+  hash: string;
+  parsed: ParsedFile;
+}
+
+interface CacheFile {
+  version: number;
+  entries: Record<string, CacheEntry>;
+}
+
+export interface LoadedFile {
+  content: string;
+  parsed: ParsedFile;
+  size: number;
+  mtime: Date;
+}
+
+let entries: Map<string, CacheEntry> | null = null;
+let loading: Promise<Map<string, CacheEntry>> | null = null;
+let saveTimer: NodeJS.Timeout | null = null;
+// File contents stay in memory only, keyed like the entries by mtime
+const contents = new Map<string, { mtimeMs: number; content: string }>();
+
+function getCachePath(): string {
+  return path.join(getWorkingDirectory(), CACHE_DIR, CACHE_FILE);
+}
+
+function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+async function readCacheFile(): Promise<Map<string, CacheEntry>> {
+  try {
+    const cache: CacheFile = await fs.readJson(getCachePath());
+    if (cache.version === CACHE_VERSION) return new Map(Object.entries(cache.entries));
+  } catch {
+    // No cache yet, or an unreadable one that the next save replaces
+  }
+  return new Map();
+}
+
+function getEntries(): Promise<Map<string, CacheEntry>> {
+  if (entries) return Promise.resolve(entries);
+  loading ??= readCacheFile().then((loaded) => {
+    entries = loaded;
+    return loaded;
+  });
+  return loading;
+}
+
+function scheduleSave(): void {
+  if (saveTimer) clearTimeout(saveTimer);
+  saveTimer = setTimeout(async () => {
+    saveTimer = null;
+    if (!entries) return;
+    const cache: CacheFile = { version: CACHE_VERSION, entries: Object.fromEntries(entries) };
+    try {
+      await fs.outputJson(getCachePath(), cache);
+    } catch (error) {
+      logger.warn('Failed to write the scan cache', error);
+    }
+  }, SAVE_DELAY_MS);
+  saveTimer.unref();
+}
+
+function parseFile(content: string, filePath: string): ParsedFile {
+  const { classLocations, variants, exports, imports } = parseComponent(content, filePath);
+
+  return {
+    lines: content.split('\n').length,
+    classCount: (content.match(/className\s*[=:]\s*["'`{]/g) || []).length,
+    classes: [...new Set(classLocations.flatMap((location) => location.classes))],
+    classLocations,
+    variants,
+    exports,
+    imports,
+  };
+}
+
+async function readContent(filePath: string, mtimeMs: number): Promise<string> {
+  const cached = contents.get(filePath);
+  if (cached?.mtimeMs === mtimeMs) return cached.content;
+
+  const content = await fs.readFile(filePath, 'utf-8');
+  contents.set(filePath, { mtimeMs, content });
+  return content;
+}
+
+/**
+ * Returns a file's parse results, reusing the cache when the file's mtime is
+ * unchanged, or when only its mtime changed and the content hash still
+ * matches. Pass withContent to also get the file's text.
+ */
+export async function loadParsedFile(filePath: string): Promise<Omit<LoadedFile, 'content'>>;
+export async function loadParsedFile(filePath: string, withContent: true): Promise<LoadedFile>;
+export async function loadParsedFile(
+  filePath: string,
+  withContent = false
+): Promise<LoadedFile | Omit<LoadedFile, 'content'>> {
+  const cache = await getEntries();
+  const stats = await fs.stat(filePath);
+  const entry = cache.get(filePath);
+  const file = { size: stats.size, mtime: stats.mtime };
+
+  if (entry?.mtimeMs === stats.mtimeMs) {
+    if (!withContent) return { ...file, parsed: entry.parsed };
+    return { ...file, parsed: entry.parsed, content: await readContent(filePath, stats.mtimeMs) };
+  }
+
+  const content = await readContent(filePath, stats.mtimeMs);
+  const hash = hashContent(content);
+  // Touched but not edited, e.g. by a checkout or a formatter that changed nothing
+  const parsed = entry?.hash === hash ? entry.parsed : parseFile(content, filePath);
+
+  cache.set(filePath, { mtimeMs: stats.mtimeMs, hash, parsed });
+  scheduleSave();
+  return { ...file, parsed, content };
+}
+
+// Forgets a file, e.g. after the watcher saw it change or disappear
+export function invalidateCachedFile(filePath: string): void {
+  contents.delete(filePath);
+  if (entries?.delete(filePath)) scheduleSave();
+}
@@ -0,0 +1,373 @@
+import ts from 'typescript';
+import type { ClassContext, ClassLocation, CvaDefinition } from '../types/index.js';
+
+// Helpers whose arguments are class lists (cva is handled separately)
+const CLASS_FUNCTIONS = new Set(['cn', 'clsx', 'cx', 'classNames', 'twMerge', 'twJoin']);
+const CLASS_PROPERTIES = new Set(['className', 'class']);
+
+export interface ClassString extends ClassLocation {
+  // False when the string touches a template substitution, e.g. `px-${size}`
+  closedStart: boolean;
+  closedEnd: boolean;
+}
+
+export interface ParsedComponent {
+  classLocations: ClassLocation[];
+  variants: CvaDefinition[];
+  exports: string[];
+  imports: string[];
+}
+
+interface CollectContext {
+  context: ClassContext;
+  call?: string;
+  variant?: string;
+  element?: string;
+}
+
+function createSourceFile(content: string, fileName: string): ts.SourceFile {
+  return ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+}
+
+function getCalleeName(node: ts.CallExpression): string | null {
+  const callee = node.expression;
+  if (ts.isIdentifier(callee)) return callee.text;
+  if (ts.isPropertyAccessExpression(callee)) return callee.name.text;
+  return null;
+}
+
+function getPropertyName(name: ts.PropertyName): string | null {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name)) return name.text;
+  return null;
+}
+
+function getDeclarationName(statement: ts.Statement): string | undefined {
+  if (ts.isVariableStatement(statement)) {
+    const [declaration] = statement.declarationList.declarations;
+    return declaration && ts.isIdentifier(declaration.name) ? declaration.name.text : undefined;
+  }
+  if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) && statement.name) {
+    return statement.name.text;
+  }
+  if (ts.isExportAssignment(statement)) return 'default';
+  return undefined;
+}
+
+function getOwnerName(node: ts.Node): string | undefined {
+  let current: ts.Node = node;
+  while (current.parent && !ts.isSourceFile(current.parent)) {
+    current = current.parent;
+  }
+  return ts.isSourceFile(current.parent) ? getDeclarationName(current as ts.Statement) : undefined;
+}
+
+function getElementName(attribute: ts.JsxAttribute, sourceFile: ts.SourceFile): string {
+  // JsxAttribute -> JsxAttributes -> JsxOpeningElement | JsxSelfClosingElement
+  const element = attribute.parent.parent;
+  return element.tagName.getText(sourceFile);
+}
+
+function hasExportModifier(statement: ts.Statement): boolean {
+  return (
+    ts.canHaveModifiers(statement) &&
+    (ts.getModifiers(statement)?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword) ?? false)
+  );
+}
+
+function collectClassStrings(sourceFile: ts.SourceFile): ClassString[] {
+  const content = sourceFile.text;
+  const found = new Map<number, ClassString>();
+
+  const addString = (
+    node: ts.Node,
+    ctx: CollectContext,
+    start: number,
+    end: number,
+    closedStart = true,
+    closedEnd = true
+  ) => {
+    if (end <= start || found.has(start)) return;
+    const value = content.slice(start, end);
+    const position = sourceFile.getLineAndCharacterOfPosition(start);
+    const classes = value.split(/\s+/);
+    // Fragments glued to a substitution (`px-${size}`) are not complete classes
+    if (!closedStart) classes.shift();
+    if (!closedEnd) classes.pop();
+    found.set(start, {
+      value,
+      classes: classes.filter(Boolean),
+      start,
+      end,
+      line: position.line + 1,
+      column: position.character + 1,
+      ...ctx,
+      owner: getOwnerName(node),
+      closedStart,
+      closedEnd,
+    });
+  };
+
+  const collect = (node: ts.Node | undefined, ctx: CollectContext): void => {
+    if (!node) return;
+
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+      addString(node, ctx, node.getStart(sourceFile) + 1, node.getEnd() - 1);
+    } else if (ts.isTemplateExpression(node)) {
+      // Template parts are delimited by `, ${ and }
+      const head = node.head;
+      addString(node, ctx, head.getStart(sourceFile) + 1, head.getEnd() - 2, true, false);
+      for (const span of node.templateSpans) {
+        collect(span.expression, ctx);
+        const literal = span.literal;
+        const isTail = ts.isTemplateTail(literal);
+        addString(
+          node,
+          ctx,
+          literal.getStart(sourceFile) + 1,
+          literal.getEnd() - (isTail ? 1 : 2),
+          false,
+          isTail
+        );
+      }
+    } else if (ts.isJsxExpression(node) || ts.isParenthesizedExpression(node)) {
+      collect(node.expression, ctx);
+    } else if (ts.isConditionalExpression(node)) {
+      collect(node.whenTrue, ctx);
+      collect(node.whenFalse, ctx);
+    } else if (ts.isBinaryExpression(node)) {
+      const operator = node.operatorToken.kind;
+      if (operator === ts.SyntaxKind.AmpersandAmpersandToken) {
+        collect(node.right, ctx);
+      } else if (
+        operator === ts.SyntaxKind.BarBarToken ||
+        operator === ts.SyntaxKind.QuestionQuestionToken ||
+        operator === ts.SyntaxKind.PlusToken
+      ) {
+        collect(node.left, ctx);
+        collect(node.right, ctx);
+      }
+      // Comparisons like variant === 'default' are conditions, not classes
+    } else if (ts.isArrayLiteralExpression(node)) {
+      for (const element of node.elements) collect(element, ctx);
+    } else if (ts.isObjectLiteralExpression(node)) {
+      // clsx object syntax: { 'p-2 text-sm': isActive }
+      for (const property of node.properties) {
+        if (ts.isPropertyAssignment(property) && ts.isStringLiteral(property.name)) {
+          collect(property.name, ctx);
+        }
+      }
+    } else if (ts.isCallExpression(node)) {
+      visitCall(node, ctx.element);
+    }
+  };
+
+  const collectCva = (node: ts.CallExpression, element?: string) => {
+    const [base, config] = node.arguments;
+    collect(base, { context: 'cva-base', call: 'cva', element });
+
+    if (!config || !ts.isObjectLiteralExpression(config)) return;
+
+    for (const property of config.properties) {
+      if (!ts.isPropertyAssignment(property)) continue;
+      const name = getPropertyName(property.name);
+
+      if (name === 'variants' && ts.isObjectLiteralExpression(property.initializer)) {
+        for (const group of property.initializer.properties) {
+          if (!ts.isPropertyAssignment(group)) continue;
+          if (!ts.isObjectLiteralExpression(group.initializer)) continue;
+          const groupName = getPropertyName(group.name);
+          for (const option of group.initializer.properties) {
+            if (!ts.isPropertyAssignment(option)) continue;
+            collect(option.initializer, {
+              context: 'cva-variant',
+              call: 'cva',
+              variant: `${groupName}.${getPropertyName(option.name)}`,
+              element,
+            });
+          }
+        }
+      } else if (name === 'compoundVariants' && ts.isArrayLiteralExpression(property.initializer)) {
+        for (const compound of property.initializer.elements) {
+          if (!ts.isObjectLiteralExpression(compound)) continue;
+          for (const entry of compound.properties) {
+            if (!ts.isPropertyAssignment(entry)) continue;
+            const entryName = getPropertyName(entry.name);
+            if (entryName && CLASS_PROPERTIES.has(entryName)) {
+              collect(entry.initializer, { context: 'cva-compound', call: 'cva', element });
+            }
+          }
+        }
+      }
+      // defaultVariants only names variants, so it is never edited
+    }
+  };
+
+  const visitCall = (node: ts.CallExpression, element?: string): boolean => {
+    const name = getCalleeName(node);
+    if (name === 'cva') {
+      collectCva(node, element);
+      return true;
+    }
+    if (name && CLASS_FUNCTIONS.has(name)) {
+      for (const arg of node.arguments) collect(arg, { context: 'call', call: name, element });
+      return true;
+    }
+    return false;
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isJsxAttribute(node)) {
+      const name = node.name.getText(sourceFile);
+      if (CLASS_PROPERTIES.has(name)) {
+        collect(node.initializer, {
+          context: 'attribute',
+          element: getElementName(node, sourceFile),
+        });
+        return;
+      }
+    } else if (ts.isPropertyAssignment(node)) {
+      const name = getPropertyName(node.name);
+      if (name && CLASS_PROPERTIES.has(name)) {
+        collect(node.initializer, { context: 'property' });
+        return;
+      }
+    } else if (ts.isCallExpression(node) && visitCall(node)) {
+      return;
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+
+  return [...found.values()].sort((a, b) => a.start - b.start);
+}
+
+function getObjectProperty(
+  config: ts.ObjectLiteralExpression,
+  name: string
+): ts.ObjectLiteralExpression | undefined {
+  for (const property of config.properties) {
+    if (
+      ts.isPropertyAssignment(property) &&
+      getPropertyName(property.name) === name &&
+      ts.isObjectLiteralExpression(property.initializer)
+    ) {
+      return property.initializer;
+    }
+  }
+  return undefined;
+}
+
+function collectCvaDefinitions(sourceFile: ts.SourceFile): CvaDefinition[] {
+  const definitions: CvaDefinition[] = [];
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isCallExpression(node) && getCalleeName(node) === 'cva') {
+      const config = node.arguments[1];
+      const groups: Record<string, string[]> = {};
+      const defaultVariants: Record<string, string> = {};
+
+      if (config && ts.isObjectLiteralExpression(config)) {
+        for (const group of getObjectProperty(config, 'variants')?.properties ?? []) {
+          if (!ts.isPropertyAssignment(group)) continue;
+          const groupName = getPropertyName(group.name);
+          if (!groupName || !ts.isObjectLiteralExpression(group.initializer)) continue;
+          groups[groupName] = group.initializer.properties
+            .filter(ts.isPropertyAssignment)
+            .map((option) => getPropertyName(option.name))
+            .filter((option): option is string => option !== null);
+        }
+
+        for (const entry of getObjectProperty(config, 'defaultVariants')?.properties ?? []) {
+          if (!ts.isPropertyAssignment(entry)) continue;
+          const groupName = getPropertyName(entry.name);
+          if (groupName && ts.isStringLiteral(entry.initializer)) {
+            defaultVariants[groupName] = entry.initializer.text;
+          }
+        }
+      }
+
+      definitions.push({
+        name: getOwnerName(node) ?? 'cva',
+        line: sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1,
+        groups,
+        defaultVariants,
+      });
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+
+  return definitions;
+}
+
+function collectExports(sourceFile: ts.SourceFile): string[] {
+  const exports: string[] = [];
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportDeclaration(statement)) {
+      if (statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+        exports.push(...statement.exportClause.elements.map((e) => e.name.text));
+      }
+    } else if (ts.isExportAssignment(statement)) {
+      exports.push('default');
+    } else if (hasExportModifier(statement)) {
+      if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          if (ts.isIdentifier(declaration.name)) exports.push(declaration.name.text);
+        }
+      } else {
+        const name = getDeclarationName(statement);
+        if (name) exports.push(name);
+      }
+    }
+  }
+
+  return [...new Set(exports)];
+}
+
+// Module specifiers, e.g. "@/lib/utils" and "@radix-ui/react-slot"
+function collectImports(sourceFile: ts.SourceFile): string[] {
+  const imports: string[] = [];
+
+  for (const statement of sourceFile.statements) {
+    if (
+      (ts.isImportDeclaration(statement) || ts.isExportDeclaration(statement)) &&
+      statement.moduleSpecifier &&
+      ts.isStringLiteral(statement.moduleSpecifier)
+    ) {
+      imports.push(statement.moduleSpecifier.text);
+    }
+  }
+
+  return [...new Set(imports)];
+}
+
+/**
+ * Finds every string literal that holds Tailwind classes: className attributes,
+ * cn()/clsx() arguments and cva() bases, variants and compound variants.
+ */
+export function findClassStrings(content: string, fileName = 'component.tsx'): ClassString[] {
+  return collectClassStrings(createSourceFile(content, fileName));
+}
+
+/**
+ * Parses a component once and returns its class locations, cva variant groups,
+ * imported modules and exported names, covering both `export function Button`
+ * and shadcn's `export { Button }` form.
+ */
+export function parseComponent(content: string, fileName = 'component.tsx'): ParsedComponent {
+  const sourceFile = createSourceFile(content, fileName);
+
+  return {
+    classLocations: collectClassStrings(sourceFile).map(
+      ({ closedStart: _closedStart, closedEnd: _closedEnd, ...location }) => location
+    ),
+    variants: collectCvaDefinitions(sourceFile),
+    exports: collectExports(sourceFile),
+    imports: collectImports(sourceFile),
+  };
+}
@@ -0,0 +1,318 @@
+import type { ColorFormat } from '../types/index.js';
+
+/**
+ * A color in OKLCH: lightness 0-1, chroma, hue in degrees and alpha 0-1.
+ * Transforms work in OKLCH so lightness and hue changes look even across hues.
+ */
+export interface Oklch {
+  l: number;
+  c: number;
+  h: number;
+  alpha: number;
+}
+
+type Rgb = [number, number, number];
+
+// Below this chroma a color is gray and its hue is meaningless
+const ACHROMATIC = 0.0001;
+const CONTRAST_MARGIN = 0.02;
+
+function clamp(value: number, min = 0, max = 1): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function normalizeHue(hue: number): number {
+  return ((hue % 360) + 360) % 360;
+}
+
+// ============================================
+// Conversions
+// ============================================
+
+function srgbToLinear(channel: number): number {
+  return channel <= 0.04045 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+}
+
+function linearToSrgb(channel: number): number {
+  return channel <= 0.0031308 ? channel * 12.92 : 1.055 * channel ** (1 / 2.4) - 0.055;
+}
+
+function rgbToOklch([r, g, b]: Rgb, alpha: number): Oklch {
+  const [lr, lg, lb] = [r, g, b].map(srgbToLinear);
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+
+  const lightness = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s;
+  const a = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+  const bAxis = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+  const chroma = Math.hypot(a, bAxis);
+
+  return {
+    l: lightness,
+    c: chroma,
+    h: chroma < ACHROMATIC ? 0 : normalizeHue((Math.atan2(bAxis, a) * 180) / Math.PI),
+    alpha,
+  };
+}
+
+// sRGB channels 0-1, clipped to the gamut
+function oklchToRgb({ l, c, h }: Oklch): Rgb {
+  const a = c * Math.cos((h * Math.PI) / 180);
+  const b = c * Math.sin((h * Math.PI) / 180);
+  const lCone = (l + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const mCone = (l - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const sCone = (l - 0.0894841775 * a - 1.291485548 * b) ** 3;
+
+  return [
+    4.0767416621 * lCone - 3.3077115913 * mCone + 0.2309699292 * sCone,
+    -1.2684380046 * lCone + 2.6097574011 * mCone - 0.3413193965 * sCone,
+    -0.0041960863 * lCone - 0.7034186147 * mCone + 1.707614701 * sCone,
+  ].map((channel) => clamp(linearToSrgb(channel))) as Rgb;
+}
+
+function hslToRgb(h: number, s: number, l: number): Rgb {
+  const chroma = (1 - Math.abs(2 * l - 1)) * s;
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return l - (chroma / 2) * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+function rgbToHsl([r, g, b]: Rgb): [number, number, number] {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const d = max - min;
+  if (d === 0) return [0, 0, l];
+
+  const s = d / (1 - Math.abs(2 * l - 1));
+  let h: number;
+  if (max === r) h = ((g - b) / d) % 6;
+  else if (max === g) h = (b - r) / d + 2;
+  else h = (r - g) / d + 4;
+  return [normalizeHue(h * 60), s, l];
+}
+
+// ============================================
+// Parsing and formatting
+// ============================================
+
+// "50%" -> 0.5 of scale, "0.5" -> 0.5
+function parseNumber(value: string, percentScale = 1): number | null {
+  const number = Number.parseFloat(value);
+  if (Number.isNaN(number)) return null;
+  return value.endsWith('%') ? (number / 100) * percentScale : number;
+}
+
+function parseHue(value: string): number | null {
+  if (value === 'none') return 0;
+  const number = Number.parseFloat(value);
+  if (Number.isNaN(number)) return null;
+  if (value.endsWith('turn')) return normalizeHue(number * 360);
+  if (value.endsWith('rad')) return normalizeHue((number * 180) / Math.PI);
+  return normalizeHue(number);
+}
+
+// The space or comma separated arguments of a color, and its alpha after a slash
+function splitArguments(args: string): { parts: string[]; alpha: number } | null {
+  const [channels, alphaPart] = args.split('/').map((part) => part.trim());
+  const parts = channels.split(/[\s,]+/).filter(Boolean);
+  let alpha = 1;
+  if (alphaPart !== undefined) {
+    const parsed = parseNumber(alphaPart);
+    if (parsed === null) return null;
+    alpha = clamp(parsed);
+  } else if (parts.length === 4) {
+    // Legacy rgba(r, g, b, a) and hsla(h, s, l, a)
+    const parsed = parseNumber(parts.pop() as string);
+    if (parsed === null) return null;
+    alpha = clamp(parsed);
+  }
+  return parts.length === 3 ? { parts, alpha } : null;
+}
+
+function parseHsl(args: string): Oklch | null {
+  const split = splitArguments(args);
+  if (!split) return null;
+  const h = parseHue(split.parts[0]);
+  const s = parseNumber(split.parts[1]);
+  const l = parseNumber(split.parts[2]);
+  if (h === null || s === null || l === null) return null;
+  return rgbToOklch(hslToRgb(h, clamp(s), clamp(l)), split.alpha);
+}
+
+function parseRgb(args: string): Oklch | null {
+  const split = splitArguments(args);
+  if (!split) return null;
+  const channels = split.parts.map((part) => parseNumber(part, 255));
+  if (channels.some((channel) => channel === null)) return null;
+  return rgbToOklch(
+    channels.map((channel) => clamp((channel as number) / 255)) as Rgb,
+    split.alpha
+  );
+}
+
+function parseHex(value: string): Oklch | null {
+  let hex = value.slice(1);
+  if (hex.length === 3 || hex.length === 4) {
+    hex = [...hex].map((digit) => digit + digit).join('');
+  }
+  if (hex.length !== 6 && hex.length !== 8) return null;
+  const bytes = hex.match(/../g)?.map((byte) => Number.parseInt(byte, 16) / 255) ?? [];
+  return rgbToOklch([bytes[0], bytes[1], bytes[2]], bytes[3] ?? 1);
+}
+
+function parseOklch(args: string): Oklch | null {
+  const split = splitArguments(args);
+  if (!split) return null;
+  const l = parseNumber(split.parts[0]);
+  // 100% chroma is 0.4 in CSS Color 4
+  const c = parseNumber(split.parts[1], 0.4);
+  const h = parseHue(split.parts[2]);
+  if (l === null || c === null || h === null) return null;
+  return { l: clamp(l), c: Math.max(0, c), h, alpha: split.alpha };
+}
+
+/**
+ * Parses a CSS color in one of the formats theme variables use. Returns
+ * null for anything else, such as named colors or var() references.
+ */
+export function parseColor(value: string, format: ColorFormat): Oklch | null {
+  const fn = value.match(/^[a-z]+\((.*)\)$/i);
+  switch (format) {
+    case 'oklch':
+      return fn ? parseOklch(fn[1]) : null;
+    case 'hsl':
+      return fn ? parseHsl(fn[1]) : null;
+    case 'rgb':
+      return fn ? parseRgb(fn[1]) : null;
+    case 'hex':
+      return parseHex(value);
+    case 'hsl-channels':
+      return parseHsl(value);
+  }
+}
+
+function formatAlpha(alpha: number): string {
+  return alpha < 1 ? ` / ${round(alpha * 100, 1)}%` : '';
+}
+
+function formatHslChannels(color: Oklch): string {
+  const [h, s, l] = rgbToHsl(oklchToRgb(color));
+  return `${round(h, 1)} ${round(s * 100, 1)}% ${round(l * 100, 1)}%`;
+}
+
+/**
+ * Writes a color in the given format, the way shadcn's themes write it:
+ * oklch(0.205 0 0), hsl(222.2 84% 4.9%) or bare channels, rgb(), #hex.
+ */
+export function formatColor(color: Oklch, format: ColorFormat): string {
+  const alpha = formatAlpha(color.alpha);
+  switch (format) {
+    case 'oklch': {
+      const c = round(color.c, 3);
+      const h = c === 0 ? 0 : round(color.h, 3);
+      return `oklch(${round(color.l, 3)} ${c} ${h}${alpha})`;
+    }
+    case 'hsl':
+      return `hsl(${formatHslChannels(color)}${alpha})`;
+    case 'hsl-channels':
+      return `${formatHslChannels(color)}${alpha}`;
+    case 'rgb': {
+      const [r, g, b] = oklchToRgb(color).map((channel) => Math.round(channel * 255));
+      return `rgb(${r} ${g} ${b}${alpha})`;
+    }
+    case 'hex': {
+      const bytes = [...oklchToRgb(color), ...(color.alpha < 1 ? [color.alpha] : [])];
+      return `#${bytes
+        .map((channel) =>
+          Math.round(channel * 255)
+            .toString(16)
+            .padStart(2, '0')
+        )
+        .join('')}`;
+    }
+  }
+}
+
+// ============================================
+// Transforms
+// ============================================
+
+export function shiftHue(color: Oklch, degrees: number): Oklch {
+  if (color.c < ACHROMATIC) return color;
+  return { ...color, h: normalizeHue(color.h + degrees) };
+}
+
+// amount is in lightness percentage points; negative darkens
+export function adjustLightness(color: Oklch, amount: number): Oklch {
+  return { ...color, l: clamp(color.l + amount / 100) };
+}
+
+// WCAG 2 relative luminance of the color as displayed in sRGB
+export function getLuminance(color: Oklch): number {
+  const [r, g, b] = oklchToRgb(color).map(srgbToLinear);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * The WCAG 2 contrast ratio of two colors, from 1 to 21. Alpha is ignored:
+ * translucent colors are rated as if opaque.
+ */
+export function getContrastRatio(a: Oklch, b: Oklch): number {
+  const [lighter, darker] = [getLuminance(a), getLuminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+// Lightness closest to the color's own between it and the bound that reaches the ratio
+function searchLightness(
+  color: Oklch,
+  background: Oklch,
+  ratio: number,
+  bound: number
+): number | null {
+  if (getContrastRatio({ ...color, l: bound }, background) < ratio) return null;
+
+  let passing = bound;
+  let failing = color.l;
+  for (let i = 0; i < 24; i++) {
+    const middle = (passing + failing) / 2;
+    if (getContrastRatio({ ...color, l: middle }, background) >= ratio) passing = middle;
+    else failing = middle;
+  }
+  return passing;
+}
+
+/**
+ * Moves the color's lightness the least it takes to reach the contrast
+ * ratio against the background, keeping hue and chroma. When no lightness
+ * reaches it, returns black or white, whichever contrasts more.
+ */
+export function ensureContrast(color: Oklch, background: Oklch, ratio: number): Oklch {
+  if (getContrastRatio(color, background) >= ratio) return color;
+
+  // Aim a little higher so rounding the written value cannot drop below the ratio
+  const target = Math.min(21, ratio + CONTRAST_MARGIN);
+  const candidates = [
+    searchLightness(color, background, target, 0),
+    searchLightness(color, background, target, 1),
+  ].filter((l): l is number => l !== null);
+
+  if (candidates.length === 0) {
+    const black = { ...color, l: 0, c: 0 };
+    const white = { ...color, l: 1, c: 0 };
+    return getContrastRatio(black, background) >= getContrastRatio(white, background)
+      ? black
+      : white;
+  }
+
+  const l = candidates.sort((a, b) => Math.abs(a - color.l) - Math.abs(b - color.l))[0];
+  return { ...color, l };
+}
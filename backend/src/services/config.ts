@@ -0,0 +1,64 @@
+import path from 'node:path';
+import fs from 'fs-extra';
+import type { Config } from '../types/index.js';
+import { isValidGlob } from '../utils/glob.js';
+import { logger } from '../utils/logger.js';
+
+const CONFIG_FILENAME = '.shadcn-tweaker.json';
+
+const DEFAULT_CONFIG: Config = {
+  componentDirectory: './components/ui',
+  componentRoots: [],
+  include: ['**/*.{tsx,jsx,ts}'],
+  exclude: ['**/*.d.ts', '**/*.test.*', '**/*.spec.*', '**/*.stories.*'],
+  backupRetentionDays: 30,
+  maxBackups: 20,
+  autoBackup: true,
+  validateAfterEdit: true,
+  typeCheckAfterEdit: false,
+  formatAfterEdit: false,
+  port: 3001,
+};
+
+// The project the tweaker runs against, set by the CLI wrapper
+export function getWorkingDirectory(): string {
+  return process.env.SHADCN_TWEAKER_CWD || process.cwd();
+}
+
+// Drops include or exclude globs that are not valid patterns, so the scan never throws on them
+function readGlobs(value: unknown, field: 'include' | 'exclude'): string[] {
+  if (!Array.isArray(value)) return DEFAULT_CONFIG[field];
+
+  const globs = value.filter(isValidGlob);
+  if (globs.length < value.length) {
+    const invalid = value.filter((glob) => !isValidGlob(glob));
+    logger.warn(`Ignoring invalid ${field} globs in ${CONFIG_FILENAME}: ${invalid.join(', ')}`);
+  }
+  return globs;
+}
+
+/**
+ * Loads the project's .shadcn-tweaker.json, as written by `shadcn-tweaker init`,
+ * over the defaults. The file names the component directory componentsPath.
+ */
+export async function loadConfig(): Promise<Config> {
+  const configPath = path.join(getWorkingDirectory(), CONFIG_FILENAME);
+
+  if (!(await fs.pathExists(configPath))) {
+    return { ...DEFAULT_CONFIG };
+  }
+
+  try {
+    const { componentsPath, ...config } = await fs.readJson(configPath);
+    return {
+      ...DEFAULT_CONFIG,
+      ...config,
+      componentDirectory: componentsPath ?? DEFAULT_CONFIG.componentDirectory,
+      include: readGlobs(config.include ?? DEFAULT_CONFIG.include, 'include'),
+      exclude: readGlobs(config.exclude ?? DEFAULT_CONFIG.exclude, 'exclude'),
+    };
+  } catch (error) {
+    logger.warn(`Failed to read config file: ${configPath}`, error);
+    return { ...DEFAULT_CONFIG };
+  }
+}
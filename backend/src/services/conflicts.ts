@@ -0,0 +1,249 @@
+import type { ConflictResolution } from '../types/index.js';
+import { type ClassString, findClassStrings } from './classParser.js';
+import { getBaseClass, parseClass } from './tokens.js';
+
+interface ConflictGroup {
+  // null marks utilities that share a prefix with a group but never conflict with it
+  id: string | null;
+  pattern: RegExp;
+  // Groups a later class of this group also overrides, e.g. p-4 overrides px-2
+  overrides?: string[];
+}
+
+const SIDES = ['x', 'y', 't', 'r', 'b', 'l', 's', 'e'];
+const SIDE_OVERRIDES: Record<string, string[]> = { x: ['r', 'l', 's', 'e'], y: ['t', 'b'] };
+
+function spacingGroups(prefix: string): ConflictGroup[] {
+  return [
+    ...SIDES.map((side) => ({
+      id: `${prefix}${side}`,
+      pattern: new RegExp(`^${prefix}${side}-`),
+      overrides: (SIDE_OVERRIDES[side] ?? []).map((s) => `${prefix}${s}`),
+    })),
+    {
+      id: prefix,
+      pattern: new RegExp(`^${prefix}-`),
+      overrides: SIDES.map((side) => `${prefix}${side}`),
+    },
+  ];
+}
+
+// Checked in order, so specific patterns come before the prefixes they share
+const CONFLICT_GROUPS: ConflictGroup[] = [
+  {
+    id: 'display',
+    pattern:
+      /^(block|inline-block|inline|flex|inline-flex|grid|inline-grid|contents|flow-root|list-item|table|hidden)$/,
+  },
+  { id: 'position', pattern: /^(static|fixed|absolute|relative|sticky)$/ },
+  ...spacingGroups('p'),
+  ...spacingGroups('m'),
+  { id: 'gap-x', pattern: /^gap-x-/ },
+  { id: 'gap-y', pattern: /^gap-y-/ },
+  { id: 'gap', pattern: /^gap-/, overrides: ['gap-x', 'gap-y'] },
+  { id: 'size', pattern: /^size-/, overrides: ['w', 'h'] },
+  { id: 'min-w', pattern: /^min-w-/ },
+  { id: 'max-w', pattern: /^max-w-/ },
+  { id: 'min-h', pattern: /^min-h-/ },
+  { id: 'max-h', pattern: /^max-h-/ },
+  { id: 'w', pattern: /^w-/ },
+  { id: 'h', pattern: /^h-/ },
+  { id: 'rounded-side', pattern: /^rounded-(t|r|b|l|s|e|tl|tr|br|bl|ss|se|es|ee)(-|$)/ },
+  { id: 'rounded', pattern: /^rounded(-|$)/, overrides: ['rounded-side'] },
+  { id: 'shadow', pattern: /^shadow(-(2xs|xs|sm|md|lg|xl|2xl|inner|none|\[.+\]))?$/ },
+  { id: 'shadow-color', pattern: /^shadow-/ },
+  { id: 'ring-offset', pattern: /^ring-offset-(\d+|\[.+\])$/ },
+  { id: 'ring-offset-color', pattern: /^ring-offset-/ },
+  { id: null, pattern: /^ring-inset$/ },
+  { id: 'ring', pattern: /^ring(-(\d+|\[\d.*\]))?$/ },
+  { id: 'ring-color', pattern: /^ring-/ },
+  { id: 'outline-offset', pattern: /^outline-offset-/ },
+  { id: 'outline-style', pattern: /^outline(-(none|dashed|dotted|double|hidden))?$/ },
+  { id: 'outline', pattern: /^outline-(\d+|\[\d.*\])$/ },
+  { id: 'outline-color', pattern: /^outline-/ },
+  { id: null, pattern: /^border-(x|y|t|r|b|l|s|e)(-|$)/ },
+  { id: null, pattern: /^border-(collapse|separate|spacing)/ },
+  { id: 'border-style', pattern: /^border-(solid|dashed|dotted|double|hidden|none)$/ },
+  { id: 'border', pattern: /^border(-(\d+|\[\d.*\]))?$/ },
+  { id: 'border-color', pattern: /^border-/ },
+  { id: 'text-align', pattern: /^text-(left|center|right|justify|start|end)$/ },
+  { id: 'text-overflow', pattern: /^text-(ellipsis|clip)$/ },
+  { id: 'text-wrap', pattern: /^text-(wrap|nowrap|balance|pretty)$/ },
+  { id: 'text-size', pattern: /^text-(xs|sm|base|lg|xl|\d+xl|\[\d.*\])$/ },
+  { id: 'text-color', pattern: /^text-/ },
+  {
+    id: 'font-weight',
+    pattern: /^font-(thin|extralight|light|normal|medium|semibold|bold|extrabold|black)$/,
+  },
+  { id: 'font-family', pattern: /^font-(sans|serif|mono)$/ },
+  {
+    id: null,
+    pattern:
+      /^bg-(fixed|local|scroll|clip-.+|origin-.+|repeat.*|no-repeat|cover|contain|auto|center|top|bottom|left|right|left-top|left-bottom|right-top|right-bottom|none|gradient-.+|linear-.+|radial.*|conic.*|blend-.+)$/,
+  },
+  { id: 'bg-color', pattern: /^bg-/ },
+  { id: 'leading', pattern: /^leading-/ },
+  { id: 'tracking', pattern: /^tracking-/ },
+  { id: 'opacity', pattern: /^opacity-/ },
+  { id: 'z', pattern: /^z-/ },
+  { id: 'cursor', pattern: /^cursor-/ },
+  { id: 'overflow-x', pattern: /^overflow-x-/ },
+  { id: 'overflow-y', pattern: /^overflow-y-/ },
+  { id: 'overflow', pattern: /^overflow-/, overrides: ['overflow-x', 'overflow-y'] },
+  { id: 'flex-direction', pattern: /^flex-(row|row-reverse|col|col-reverse)$/ },
+  { id: 'flex-wrap', pattern: /^flex-(wrap|wrap-reverse|nowrap)$/ },
+  { id: 'flex', pattern: /^flex-(1|auto|initial|none)$/ },
+  { id: 'items', pattern: /^items-/ },
+  { id: 'justify', pattern: /^justify-(start|end|center|between|around|evenly|stretch|normal)$/ },
+  { id: 'self', pattern: /^self-/ },
+  { id: 'transition', pattern: /^transition(-.+)?$/ },
+  { id: 'duration', pattern: /^duration-/ },
+  { id: 'ease', pattern: /^ease-/ },
+  { id: 'delay', pattern: /^delay-/ },
+  { id: 'animate', pattern: /^animate-/ },
+  { id: 'whitespace', pattern: /^whitespace-/ },
+  { id: 'pointer-events', pattern: /^pointer-events-/ },
+  { id: 'select', pattern: /^select-/ },
+];
+
+/**
+ * Splits a class into its variant key (sorted variants plus the important
+ * flag) and its base utility, e.g. hover:dark:!p-2 -> ['dark:hover:!', 'p-2'].
+ * Negative values (-mt-2) conflict with positive ones.
+ */
+function splitClass(token: string): { key: string; utility: string } {
+  const parsed = parseClass(token);
+  const key = [...parsed.variants].sort().join(':') + (parsed.important ? ':!' : ':');
+  return { key, utility: getBaseClass(parsed) };
+}
+
+function getConflictGroup(utility: string): ConflictGroup | null {
+  for (const group of CONFLICT_GROUPS) {
+    if (group.pattern.test(utility)) return group.id ? group : null;
+  }
+  return null;
+}
+
+/**
+ * Names the utility family a class belongs to, ignoring variants: the
+ * conflict group where there is one (text-size, text-color), otherwise the
+ * utility itself (e.g. grid-cols).
+ */
+export function getClassFamily(token: string): string {
+  const parsed = parseClass(token);
+  return getConflictGroup(getBaseClass(parsed))?.id ?? parsed.utility;
+}
+
+/**
+ * Returns, for each class that a later class overrides, the index of the
+ * class that wins. Like tailwind-merge, the last class of a group wins and
+ * classes only conflict under the same variants (hover:p-2 keeps p-4).
+ */
+export function findConflicts(classes: string[]): Map<number, number> {
+  const claimed = new Map<string, number>();
+  const overridden = new Map<number, number>();
+
+  for (let i = classes.length - 1; i >= 0; i--) {
+    const { key, utility } = splitClass(classes[i]);
+    const group = getConflictGroup(utility);
+    if (!group?.id) continue;
+
+    const winner = claimed.get(`${key}${group.id}`);
+    if (winner !== undefined) {
+      overridden.set(i, winner);
+      continue;
+    }
+
+    for (const id of [group.id, ...(group.overrides ?? [])]) {
+      if (!claimed.has(`${key}${id}`)) claimed.set(`${key}${id}`, i);
+    }
+  }
+
+  return overridden;
+}
+
+function resolveClassString(classString: ClassString): {
+  value: string;
+  conflicts: ConflictResolution[];
+} {
+  const { value } = classString;
+  const leading = value.match(/^\s*/)?.[0] ?? '';
+  const trailing = value.slice(leading.length).match(/\s*$/)?.[0] ?? '';
+  const body = value.slice(leading.length, value.length - trailing.length);
+
+  // Even indices are tokens, odd indices are the whitespace between them
+  const parts = body.split(/(\s+)/);
+  const lastIndex = parts.length - 1;
+  const tokenIndexes: number[] = [];
+
+  for (let i = 0; i < parts.length; i += 2) {
+    // Fragments glued to a template substitution are not complete classes
+    if (i === 0 && !leading && !classString.closedStart) continue;
+    if (i === lastIndex && !trailing && !classString.closedEnd) continue;
+    if (parts[i]) tokenIndexes.push(i);
+  }
+
+  const overridden = findConflicts(tokenIndexes.map((i) => parts[i]));
+  if (overridden.size === 0) return { value, conflicts: [] };
+
+  const removed = new Set<number>();
+  const conflicts: ConflictResolution[] = [];
+  for (const [index, winner] of overridden) {
+    const partIndex = tokenIndexes[index];
+    const offset = leading.length + parts.slice(0, partIndex).join('').length;
+    removed.add(partIndex);
+    conflicts.push({
+      line: classString.line + (value.slice(0, offset).match(/\n/g)?.length ?? 0),
+      removed: parts[partIndex],
+      kept: parts[tokenIndexes[winner]],
+    });
+  }
+
+  const kept: string[] = [];
+  for (let i = 0; i < parts.length; i += 2) {
+    if (removed.has(i)) continue;
+    kept.push(kept.length === 0 ? parts[i] : parts[i - 1] + parts[i]);
+  }
+
+  return {
+    value: leading + kept.join('') + trailing,
+    conflicts: conflicts.sort((a, b) => a.line - b.line),
+  };
+}
+
+/**
+ * Resolves Tailwind conflicts (shadow-sm shadow-lg, p-2 p-4) in the class
+ * strings an edit touched. Strings that also exist unchanged in the original
+ * content are left alone, so pre-existing markup is never rewritten.
+ */
+export function resolveConflicts(
+  before: string,
+  after: string,
+  fileName?: string
+): { content: string; conflicts: ConflictResolution[] } {
+  const untouched = new Map<string, number>();
+  for (const classString of findClassStrings(before, fileName)) {
+    untouched.set(classString.value, (untouched.get(classString.value) ?? 0) + 1);
+  }
+
+  const touched = findClassStrings(after, fileName).filter((classString) => {
+    const count = untouched.get(classString.value) ?? 0;
+    if (count === 0) return true;
+    untouched.set(classString.value, count - 1);
+    return false;
+  });
+
+  let content = after;
+  const conflicts: ConflictResolution[] = [];
+
+  // Splice from the end so earlier offsets stay valid
+  for (const classString of touched.reverse()) {
+    const resolved = resolveClassString(classString);
+    if (resolved.conflicts.length === 0) continue;
+
+    content = content.slice(0, classString.start) + resolved.value + content.slice(classString.end);
+    conflicts.unshift(...resolved.conflicts);
+  }
+
+  return { content, conflicts };
+}
@@ -1,5 +1,5 @@
 import * as Diff from 'diff';
-import type { Preview } from '../types/index.js';
+import type { DiffHunk, Preview } from '../types/index.js';
 
 export interface DiffResult {
   diff: string;
@@ -57,6 +57,40 @@ export function generateDiff(oldContent: string, newContent: string): DiffResult
   };
 }
 
+/**
+ * Splits a change into hunks with three lines of context, like git diff.
+ * Ids are stable for the same before and after content.
+ */
+export function createHunks(oldContent: string, newContent: string): DiffHunk[] {
+  const patch = Diff.structuredPatch('', '', oldContent, newContent, '', '', { context: 3 });
+
+  return patch.hunks.map((hunk, index) => ({
+    id: `h${index + 1}`,
+    oldStart: hunk.oldStart,
+    oldLines: hunk.oldLines,
+    newStart: hunk.newStart,
+    newLines: hunk.newLines,
+    lines: hunk.lines,
+  }));
+}
+
+/**
+ * Applies only the accepted hunks of a change to the original content.
+ * Returns null if the hunks no longer fit the content.
+ */
+export function applyHunks(
+  oldContent: string,
+  newContent: string,
+  acceptedIds: string[]
+): string | null {
+  const patch = Diff.structuredPatch('', '', oldContent, newContent, '', '', { context: 3 });
+  const accepted = new Set(acceptedIds);
+  const hunks = patch.hunks.filter((_hunk, index) => accepted.has(`h${index + 1}`));
+
+  const result = Diff.applyPatch(oldContent, { ...patch, hunks });
+  return result === false ? null : result;
+}
+
 export function createPreview(path: string, oldContent: string, newContent: string): Preview {
   const diffResult = generateDiff(oldContent, newContent);
 
@@ -67,5 +101,6 @@ export function createPreview(path: string, oldContent: string, newContent: stri
     diff: diffResult.diff,
     changes: diffResult.changes,
     lineNumbers: diffResult.lineNumbers,
+    hunks: createHunks(oldContent, newContent),
   };
 }
@@ -0,0 +1,119 @@
+import { spawn } from 'node:child_process';
+import path from 'node:path';
+import fs from 'fs-extra';
+import { logger } from '../utils/logger.js';
+
+export interface Formatter {
+  name: 'prettier' | 'biome';
+  bin: string;
+}
+
+const BIOME_CONFIGS = ['biome.json', 'biome.jsonc'];
+const PRETTIER_CONFIGS = [
+  '.prettierrc',
+  '.prettierrc.json',
+  '.prettierrc.json5',
+  '.prettierrc.yaml',
+  '.prettierrc.yml',
+  '.prettierrc.toml',
+  '.prettierrc.js',
+  '.prettierrc.cjs',
+  '.prettierrc.mjs',
+  'prettier.config.js',
+  'prettier.config.cjs',
+  'prettier.config.mjs',
+  'prettier.config.ts',
+];
+
+// Formatting a single component should be near instant; a hung formatter must not block applies
+const FORMAT_TIMEOUT_MS = 10000;
+
+async function hasAnyFile(dir: string, names: string[]): Promise<boolean> {
+  for (const name of names) {
+    if (await fs.pathExists(path.join(dir, name))) return true;
+  }
+  return false;
+}
+
+async function hasPrettierKey(dir: string): Promise<boolean> {
+  try {
+    const pkg = await fs.readJson(path.join(dir, 'package.json'));
+    return pkg.prettier !== undefined;
+  } catch {
+    return false;
+  }
+}
+
+// The formatter's own binary from the project, never a global install with other defaults
+async function findBin(dir: string, name: string): Promise<string | null> {
+  const bin = path.join(dir, 'node_modules', '.bin', name);
+  return (await fs.pathExists(bin)) ? bin : null;
+}
+
+/**
+ * Detects the project's formatter from its config files: Biome when a
+ * biome.json exists, otherwise Prettier when any Prettier config exists.
+ * Returns null when there is no config or the formatter is not installed.
+ */
+export async function detectFormatter(projectRoot: string): Promise<Formatter | null> {
+  if (await hasAnyFile(projectRoot, BIOME_CONFIGS)) {
+    const bin = await findBin(projectRoot, 'biome');
+    if (bin) return { name: 'biome', bin };
+  }
+
+  if ((await hasAnyFile(projectRoot, PRETTIER_CONFIGS)) || (await hasPrettierKey(projectRoot))) {
+    const bin = await findBin(projectRoot, 'prettier');
+    if (bin) return { name: 'prettier', bin };
+  }
+
+  return null;
+}
+
+function runFormatter(formatter: Formatter, content: string, filePath: string): Promise<string> {
+  const args =
+    formatter.name === 'biome'
+      ? ['format', `--stdin-file-path=${filePath}`]
+      : ['--stdin-filepath', filePath];
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(formatter.bin, args, {
+      cwd: path.dirname(filePath),
+      stdio: ['pipe', 'pipe', 'pipe'],
+      timeout: FORMAT_TIMEOUT_MS,
+    });
+    let stdout = '';
+    let stderr = '';
+
+    child.stdout.on('data', (chunk) => {
+      stdout += chunk;
+    });
+    child.stderr.on('data', (chunk) => {
+      stderr += chunk;
+    });
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code === 0) resolve(stdout);
+      else reject(new Error(stderr.trim() || `${formatter.name} exited with code ${code}`));
+    });
+
+    child.stdin.end(content);
+  });
+}
+
+/**
+ * Formats a file's content with the project's formatter and config, without
+ * touching the file on disk. Falls back to the unformatted content when the
+ * formatter fails, e.g. on content that does not parse.
+ */
+export async function formatContent(
+  formatter: Formatter,
+  content: string,
+  filePath: string
+): Promise<string> {
+  try {
+    return await runFormatter(formatter, content, path.resolve(filePath));
+  } catch (error) {
+    logger.warn(`Failed to format ${filePath} with ${formatter.name}`, error);
+    return content;
+  }
+}
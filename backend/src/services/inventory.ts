@@ -0,0 +1,87 @@
+import type {
+  ClassFamily,
+  ClassInventory,
+  ClassUsage,
+  ClassUsageComponent,
+  Component,
+} from '../types/index.js';
+import { loadParsedFile } from './cache.js';
+import { getClassFamily } from './conflicts.js';
+import { parseClass } from './tokens.js';
+
+const byCount = <T extends { count: number }>(a: T, b: T) => b.count - a.count;
+
+/**
+ * Counts every class across the components, grouped by utility family and
+ * listing where each class is used. Families and classes are sorted by use,
+ * with unprefixed classes before their variants.
+ */
+export async function buildClassInventory(components: Component[]): Promise<ClassInventory> {
+  const usages = new Map<string, ClassUsage>();
+  let totalClasses = 0;
+
+  for (const component of components) {
+    const { parsed } = await loadParsedFile(component.path);
+    const uses = new Map<string, ClassUsageComponent>();
+
+    for (const location of parsed.classLocations) {
+      for (const className of location.classes) {
+        let use = uses.get(className);
+        if (!use) {
+          use = {
+            id: component.id,
+            name: component.name,
+            path: component.path,
+            count: 0,
+            locations: [],
+          };
+          uses.set(className, use);
+        }
+        use.count++;
+        use.locations.push({ line: location.line, column: location.column });
+        totalClasses++;
+      }
+    }
+
+    for (const [className, use] of uses) {
+      let usage = usages.get(className);
+      if (!usage) {
+        usage = {
+          className,
+          variants: parseClass(className).variants.join(':'),
+          count: 0,
+          components: [],
+        };
+        usages.set(className, usage);
+      }
+      usage.count += use.count;
+      usage.components.push(use);
+    }
+  }
+
+  const families = new Map<string, ClassFamily>();
+  for (const usage of usages.values()) {
+    const name = getClassFamily(usage.className);
+    let family = families.get(name);
+    if (!family) {
+      family = { family: name, count: 0, classes: [] };
+      families.set(name, family);
+    }
+    family.count += usage.count;
+    family.classes.push(usage);
+  }
+
+  for (const family of families.values()) {
+    family.classes.sort(
+      (a, b) => Number(a.variants !== '') - Number(b.variants !== '') || byCount(a, b)
+    );
+    for (const usage of family.classes) usage.components.sort(byCount);
+  }
+
+  return {
+    components: components.length,
+    totalClasses,
+    uniqueClasses: usages.size,
+    families: [...families.values()].sort(byCount),
+  };
+}
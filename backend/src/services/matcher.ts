@@ -0,0 +1,483 @@
+import type { ClassEdit, MatchGroup, RuleMatch, TemplateRule } from '../types/index.js';
+import { type ClassString, findClassStrings } from './classParser.js';
+import { createMigrationMatcher, isMigrated } from './migration.js';
+import { shiftClass, snapToScale } from './scales.js';
+import { formatClass, getBaseClass, hasVariants, type ParsedClass, parseClass } from './tokens.js';
+
+export interface RuleResult {
+  content: string;
+  matches: number;
+}
+
+type TokenMatcher = (token: string) => string | null;
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// The class without variants, important flag or opacity, keeping the sign: -mt-2
+function getClassKey(parsed: ParsedClass): string {
+  return `${parsed.negative ? '-' : ''}${getBaseClass(parsed)}`;
+}
+
+// Carries the matched class's variants, important flag and opacity over to its replacement
+function withModifiers(parsed: ParsedClass, replacement: string): string {
+  return replacement
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((next) => {
+      const target = parseClass(next);
+      return formatClass({
+        ...target,
+        variants: [...parsed.variants, ...target.variants],
+        important: parsed.important || target.important,
+        opacity: target.opacity ?? parsed.opacity,
+      });
+    })
+    .join(' ');
+}
+
+function createBaseMatcher(rule: TemplateRule): TokenMatcher {
+  const { scaleShift } = rule;
+  if (scaleShift) {
+    return (token) => shiftClass(token, scaleShift);
+  }
+
+  if (rule.isRegex) {
+    // In token mode a regex has to match the whole class, not a substring of it
+    const pattern = new RegExp(`^(?:${rule.find})$`);
+    return (token) => (pattern.test(token) ? token.replace(pattern, rule.replace) : null);
+  }
+
+  // Targets written with variants (focus:outline-none) only match that exact class, bare
+  // targets (rounded-md) also match sm:rounded-md, !rounded-md and rounded-[6px]
+  const exact = new Set<string>();
+  const bare = new Set<string>();
+  for (const target of rule.find.split(/\s+/).filter(Boolean)) {
+    const isBare = target === getClassKey(parseClass(target));
+    (isBare ? bare : exact).add(target);
+  }
+
+  return (token) => {
+    if (exact.has(token)) return rule.replace;
+
+    const parsed = parseClass(token);
+    const key = getClassKey(parsed);
+    const snapped = parsed.arbitrary !== undefined ? snapToScale(key) : null;
+    if (!bare.has(key) && !(snapped && bare.has(snapped))) return null;
+
+    return withModifiers(parsed, rule.replace);
+  };
+}
+
+function createTokenMatcher(rule: TemplateRule): TokenMatcher {
+  const matcher = createBaseMatcher(rule);
+  const { prefixes } = rule;
+  if (!prefixes?.length) return matcher;
+
+  return (token) => (hasVariants(parseClass(token), prefixes) ? matcher(token) : null);
+}
+
+/**
+ * The matcher for each class string of a token rule. A migration looks at the
+ * whole string, to merge bg-opacity-50 into its bg color, and matches nothing
+ * in files that were already migrated.
+ */
+function createClassStringMatcher(
+  content: string,
+  classStrings: ClassString[],
+  rule: TemplateRule
+): (classString: ClassString) => TokenMatcher {
+  if (rule.migration) {
+    if (isMigrated(content, classStrings)) return () => () => null;
+    return (classString) => createMigrationMatcher(classString.classes);
+  }
+  const { classEdit } = rule;
+  if (classEdit) {
+    return () => (token) => classEdit.rename?.[token] ?? null;
+  }
+  const matcher = createTokenMatcher(rule);
+  return () => matcher;
+}
+
+/**
+ * Replaces whole class tokens inside a single class string, keeping the
+ * original whitespace (including line breaks) between the remaining tokens.
+ */
+export function replaceTokens(
+  classString: Pick<ClassString, 'value' | 'closedStart' | 'closedEnd'>,
+  matcher: TokenMatcher
+): { value: string; matches: number } {
+  const { value } = classString;
+  const leading = value.match(/^\s*/)?.[0] ?? '';
+  const trailing = value.slice(leading.length).match(/\s*$/)?.[0] ?? '';
+  const body = value.slice(leading.length, value.length - trailing.length);
+
+  if (!body) return { value, matches: 0 };
+
+  // Even indices are tokens, odd indices are the whitespace between them
+  const parts = body.split(/(\s+)/);
+  const lastIndex = parts.length - 1;
+
+  const replacements = new Map<number, string>();
+  const unchanged = new Set<string>();
+  for (let i = 0; i < parts.length; i += 2) {
+    const token = parts[i];
+    // Tokens glued to a template substitution are only part of a class name
+    const isPartial =
+      (i === 0 && !leading && !classString.closedStart) ||
+      (i === lastIndex && !trailing && !classString.closedEnd);
+    const replacement = isPartial ? null : matcher(token);
+
+    if (replacement === null || replacement === token) unchanged.add(token);
+    else replacements.set(i, replacement);
+  }
+
+  const kept: Array<{ separator: string; token: string }> = [];
+  const emitted = new Set<string>();
+  let matches = 0;
+
+  for (let i = 0; i < parts.length; i += 2) {
+    const token = parts[i];
+    const separator = i > 0 ? parts[i - 1] : '';
+    const replacement = replacements.get(i);
+
+    if (replacement === undefined) {
+      kept.push({ separator, token });
+      emitted.add(token);
+      continue;
+    }
+
+    matches++;
+    let nextSeparator = separator;
+    for (const next of replacement.split(/\s+/).filter(Boolean)) {
+      // Avoid duplicates such as "rounded-lg rounded-lg" after a replace
+      if (emitted.has(next) || unchanged.has(next)) continue;
+      kept.push({ separator: nextSeparator, token: next });
+      emitted.add(next);
+      nextSeparator = ' ';
+    }
+  }
+
+  if (matches === 0) return { value, matches: 0 };
+
+  const rebuilt = kept.map((part, i) => (i === 0 ? part.token : part.separator + part.token));
+  return { value: leading + rebuilt.join('') + trailing, matches };
+}
+
+function getComponentName(fileName: string): string {
+  const baseName = fileName.split(/[\\/]/).pop() ?? fileName;
+  return baseName.replace(/\.[^.]+$/, '');
+}
+
+/**
+ * Checks a cva variant (e.g. size.sm) of a component against a variant path
+ * such as button.size.sm or *.size.*
+ */
+export function matchesVariantPath(
+  variantPath: string,
+  componentName: string,
+  variant: string
+): boolean {
+  const [component, group, option] = variantPath.split('.');
+  const [variantGroup, variantOption] = variant.split('.');
+  const matches = (pattern: string, value: string) => pattern === '*' || pattern === value;
+
+  return (
+    matches(component.toLowerCase(), componentName.toLowerCase()) &&
+    matches(group, variantGroup) &&
+    matches(option, variantOption)
+  );
+}
+
+function findScopedClassStrings(
+  content: string,
+  rule: TemplateRule,
+  fileName = 'component.tsx'
+): ClassString[] {
+  const classStrings = findClassStrings(content, fileName);
+  const { variantPath, classEdit } = rule;
+  if (classEdit) {
+    return classStrings.filter(
+      (classString) =>
+        classString.line === classEdit.line && classString.column === classEdit.column
+    );
+  }
+  if (!variantPath) return classStrings;
+
+  const componentName = getComponentName(fileName);
+  return classStrings.filter(
+    (classString) =>
+      classString.context === 'cva-variant' &&
+      classString.variant !== undefined &&
+      matchesVariantPath(variantPath, componentName, classString.variant)
+  );
+}
+
+/**
+ * The span of a className="..." or className={"..."} attribute around a class
+ * string, with the whitespace before it, or null when the string is only part of it
+ */
+function findAttributeSpan(content: string, classString: ClassString): [number, number] | null {
+  if (classString.context !== 'attribute') return null;
+
+  const before = content
+    .slice(0, classString.start)
+    .match(/\s+(?:className|class)=(\{\s*)?(["'`])$/);
+  if (!before || content[classString.end] !== before[2]) return null;
+
+  const after = content.slice(classString.end + 1).match(before[1] ? /^\s*\}/ : /^/);
+  if (!after) return null;
+
+  return [classString.start - before[0].length, classString.end + 1 + after[0].length];
+}
+
+function rewriteClassStrings(
+  content: string,
+  classStrings: ClassString[],
+  rewrite: (classString: ClassString) => { value: string; matches: number }
+): RuleResult {
+  let result = content;
+  let matches = 0;
+
+  // Splice from the end so earlier offsets stay valid
+  for (const classString of [...classStrings].reverse()) {
+    const replaced = rewrite(classString);
+    if (replaced.matches === 0) continue;
+    matches += replaced.matches;
+
+    // Drop attributes whose classes were all removed instead of leaving className=""
+    const span = replaced.value.trim() ? null : findAttributeSpan(result, classString);
+    if (span) {
+      result = result.slice(0, span[0]) + result.slice(span[1]);
+      continue;
+    }
+
+    result = result.slice(0, classString.start) + replaced.value + result.slice(classString.end);
+  }
+
+  return { content: result, matches };
+}
+
+/**
+ * Renames classes of a class string like replaceTokens, then appends the
+ * classes to add that it does not have yet, before any trailing whitespace.
+ */
+function editClassString(
+  classString: ClassString,
+  edit: ClassEdit,
+  matcher: TokenMatcher
+): { value: string; matches: number } {
+  const renamed = replaceTokens(classString, matcher);
+  const present = new Set(renamed.value.split(/\s+/));
+  const missing = (edit.add ?? []).filter((token) => !present.has(token));
+  if (missing.length === 0) return renamed;
+
+  const { value } = renamed;
+  const added = missing.join(' ');
+  const matches = renamed.matches + missing.length;
+  if (!value.trim()) return { value: added, matches };
+  // Glued to a substitution (the "p-2 px-" of `p-2 px-${size}`), the classes go up front
+  if (!classString.closedEnd && !/\s$/.test(value)) return { value: `${added} ${value}`, matches };
+  return { value: value.replace(/\s*$/, (trailing) => ` ${added}${trailing}`), matches };
+}
+
+function applyTextRule(content: string, rule: TemplateRule): RuleResult {
+  if (rule.isRegex) {
+    const pattern = new RegExp(rule.find, 'g');
+    const found = content.match(pattern);
+    return {
+      content: content.replace(pattern, rule.replace),
+      matches: found ? found.length : 0,
+    };
+  }
+
+  const found = content.match(new RegExp(escapeRegex(rule.find), 'g'));
+  return {
+    content: content.split(rule.find).join(rule.replace),
+    matches: found ? found.length : 0,
+  };
+}
+
+/**
+ * Applies a single find/replace rule to file content. Text mode works on the
+ * raw source; token mode only touches whole classes in class-bearing strings.
+ * A variantPath limits either mode to the matching cva variant strings, and
+ * scale shifts and migrations always work on whole classes. A classEdit only
+ * rewrites the one class string at its line and column.
+ */
+export function applyRule(content: string, rule: TemplateRule, fileName?: string): RuleResult {
+  const { classEdit } = rule;
+  if (classEdit) {
+    const classStrings = findScopedClassStrings(content, rule, fileName);
+    const getMatcher = createClassStringMatcher(content, classStrings, rule);
+    return rewriteClassStrings(content, classStrings, (cs) =>
+      editClassString(cs, classEdit, getMatcher(cs))
+    );
+  }
+
+  if (rule.matchMode === 'token' || rule.scaleShift || rule.migration) {
+    const classStrings = findScopedClassStrings(content, rule, fileName);
+    const getMatcher = createClassStringMatcher(content, classStrings, rule);
+    return rewriteClassStrings(content, classStrings, (cs) => replaceTokens(cs, getMatcher(cs)));
+  }
+
+  if (rule.variantPath) {
+    return rewriteClassStrings(content, findScopedClassStrings(content, rule, fileName), (cs) => {
+      const replaced = applyTextRule(cs.value, rule);
+      return { value: replaced.content, matches: replaced.matches };
+    });
+  }
+
+  return applyTextRule(content, rule);
+}
+
+export type FoundMatch = Omit<RuleMatch, 'path'>;
+
+/**
+ * Expands $1, $<name>, $& and $$ in a replacement the way String.replace
+ * does for a single regex match.
+ */
+export function expandReplacement(replacement: string, match: RegExpExecArray): string {
+  return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (token, ref: string, name?: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return match[0];
+    if (name !== undefined) return match.groups?.[name] ?? (match.groups ? '' : token);
+    const index = Number.parseInt(ref, 10);
+    return index > 0 && index < match.length ? (match[index] ?? '') : token;
+  });
+}
+
+function getGroups(match: RegExpExecArray): MatchGroup[] {
+  const groups: MatchGroup[] = [];
+  const matchStart = match.indices?.[0]?.[0] ?? match.index;
+  const names = Object.entries(match.indices?.groups ?? {});
+
+  for (let index = 1; index < match.length; index++) {
+    const range = match.indices?.[index];
+    if (!range || match[index] === undefined) continue;
+    const name = names.find(([, other]) => other === range)?.[0];
+    groups.push({
+      index,
+      ...(name ? { name } : {}),
+      text: match[index],
+      start: range[0] - matchStart,
+      end: range[1] - matchStart,
+    });
+  }
+  return groups;
+}
+
+function toFoundMatch(
+  content: string,
+  offset: number,
+  text: string,
+  replacement: string,
+  groups: MatchGroup[]
+): FoundMatch {
+  const before = content.slice(0, offset);
+  const lineStart = before.lastIndexOf('\n') + 1;
+  const lineEnd = content.indexOf('\n', offset);
+  return {
+    line: (before.match(/\n/g)?.length ?? 0) + 1,
+    column: offset - lineStart + 1,
+    text,
+    replacement,
+    groups,
+    lineText: content.slice(lineStart, lineEnd === -1 ? undefined : lineEnd),
+  };
+}
+
+// Matches of a text rule in source, with offset added to each match position
+function findTextMatches(
+  content: string,
+  source: string,
+  offset: number,
+  rule: TemplateRule
+): FoundMatch[] {
+  const found: FoundMatch[] = [];
+
+  if (!rule.isRegex) {
+    if (!rule.find) return found;
+    for (let i = source.indexOf(rule.find); i !== -1; i = source.indexOf(rule.find, i + 1)) {
+      found.push(toFoundMatch(content, offset + i, rule.find, rule.replace, []));
+    }
+    return found;
+  }
+
+  const pattern = new RegExp(rule.find, 'gd');
+  for (let match = pattern.exec(source); match !== null; match = pattern.exec(source)) {
+    // Empty matches would otherwise never advance
+    if (match[0] === '') pattern.lastIndex++;
+    found.push(
+      toFoundMatch(
+        content,
+        offset + match.index,
+        match[0],
+        expandReplacement(rule.replace, match),
+        getGroups(match)
+      )
+    );
+  }
+  return found;
+}
+
+// Matches of a token rule: each whole class the rule would change
+function findTokenMatches(
+  content: string,
+  classString: ClassString,
+  rule: TemplateRule,
+  matcher: TokenMatcher
+): FoundMatch[] {
+  const found: FoundMatch[] = [];
+  const pattern =
+    rule.isRegex && !rule.scaleShift && !rule.migration
+      ? new RegExp(`^(?:${rule.find})$`, 'd')
+      : null;
+  const { value } = classString;
+  const tokenPattern = /\S+/g;
+
+  for (let token = tokenPattern.exec(value); token !== null; token = tokenPattern.exec(value)) {
+    const end = token.index + token[0].length;
+    // Tokens glued to a template substitution are only part of a class name
+    if (token.index === 0 && !classString.closedStart) continue;
+    if (end === value.length && !classString.closedEnd) continue;
+
+    const replacement = matcher(token[0]);
+    if (replacement === null || replacement === token[0]) continue;
+
+    const match = pattern?.exec(token[0]);
+    found.push(
+      toFoundMatch(
+        content,
+        classString.start + token.index,
+        token[0],
+        replacement,
+        match ? getGroups(match) : []
+      )
+    );
+  }
+  return found;
+}
+
+/**
+ * Lists where a rule matches without rewriting anything, for live feedback
+ * while a rule is being typed. Uses the same scoping as applyRule.
+ */
+export function findMatches(content: string, rule: TemplateRule, fileName?: string): FoundMatch[] {
+  if (rule.matchMode === 'token' || rule.scaleShift || rule.migration || rule.classEdit) {
+    const classStrings = findScopedClassStrings(content, rule, fileName);
+    const getMatcher = createClassStringMatcher(content, classStrings, rule);
+    return classStrings.flatMap((classString) =>
+      findTokenMatches(content, classString, rule, getMatcher(classString))
+    );
+  }
+
+  if (rule.variantPath) {
+    return findScopedClassStrings(content, rule, fileName).flatMap((classString) =>
+      findTextMatches(content, classString.value, classString.start, rule)
+    );
+  }
+
+  return findTextMatches(content, content, 0, rule);
+}
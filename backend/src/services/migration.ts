@@ -0,0 +1,199 @@
+import type {
+  ClassLocation,
+  Component,
+  ComponentMigration,
+  MigrationChange,
+  MigrationReport,
+} from '../types/index.js';
+import { loadParsedFile } from './cache.js';
+import { getClassFamily } from './conflicts.js';
+import { getProjectInfo } from './project.js';
+import { formatClass, getBaseClass, type ParsedClass, parseClass } from './tokens.js';
+
+const CORNERS = ['', 't', 'r', 'b', 'l', 's', 'e', 'tl', 'tr', 'br', 'bl', 'ss', 'se', 'es', 'ee'];
+const ROUNDED = CORNERS.map((corner) => (corner ? `rounded-${corner}` : 'rounded'));
+
+/**
+ * Tailwind 4's renames, keyed by the Tailwind 3 class without variants. Each
+ * class is looked up once, so chains such as shadow -> shadow-sm and
+ * shadow-sm -> shadow-xs never rename a class twice.
+ */
+const V4_RENAMES: Record<string, string> = {
+  'shadow-sm': 'shadow-xs',
+  shadow: 'shadow-sm',
+  'drop-shadow-sm': 'drop-shadow-xs',
+  'drop-shadow': 'drop-shadow-sm',
+  'blur-sm': 'blur-xs',
+  blur: 'blur-sm',
+  'backdrop-blur-sm': 'backdrop-blur-xs',
+  'backdrop-blur': 'backdrop-blur-sm',
+  ...Object.fromEntries(
+    ROUNDED.flatMap((rounded) => [
+      [`${rounded}-sm`, `${rounded}-xs`],
+      [rounded, `${rounded}-sm`],
+    ])
+  ),
+  'outline-none': 'outline-hidden',
+  ring: 'ring-3',
+  'flex-shrink': 'shrink',
+  'flex-shrink-0': 'shrink-0',
+  'flex-grow': 'grow',
+  'flex-grow-0': 'grow-0',
+  'overflow-ellipsis': 'text-ellipsis',
+  'decoration-slice': 'box-decoration-slice',
+  'decoration-clone': 'box-decoration-clone',
+};
+
+// Names only Tailwind 4 has: a file using any of them was already migrated
+const V4_ONLY = new Set([
+  'shadow-2xs',
+  'shadow-xs',
+  'drop-shadow-xs',
+  'blur-xs',
+  'backdrop-blur-xs',
+  ...ROUNDED.map((rounded) => `${rounded}-xs`),
+  'outline-hidden',
+  'ring-3',
+]);
+
+// bg-opacity-50, text-opacity-[.35], ... became an opacity modifier on the color
+const OPACITY_UTILITY = /^(bg|text|border|divide|ring|placeholder)-opacity-(\d+|\[.+\])$/;
+// Values of divide- and placeholder- that are not colors
+const NOT_A_COLOR = /^(x|y|\d|solid|dashed|dotted|double|none|reverse|\[\d)/;
+
+function getVariantKey(parsed: ParsedClass): string {
+  return [...parsed.variants].sort().join(':') + (parsed.important ? ':!' : ':');
+}
+
+// Whether a class sets the color an opacity utility applied to, e.g. bg-primary for bg-opacity-50
+function isColorOf(utility: string, parsed: ParsedClass): boolean {
+  if (parsed.negative || parsed.opacity !== undefined) return false;
+  if (OPACITY_UTILITY.test(getBaseClass(parsed))) return false;
+  if (utility === 'divide' || utility === 'placeholder') {
+    return parsed.utility === utility && !NOT_A_COLOR.test(parsed.value);
+  }
+  return getClassFamily(getBaseClass(parsed)) === `${utility}-color`;
+}
+
+function renameClass(parsed: ParsedClass): string | null {
+  const renamed = V4_RENAMES[getBaseClass(parsed)];
+  if (!renamed || parsed.negative) return null;
+  const target = parseClass(renamed);
+  return formatClass({ ...parsed, utility: target.utility, value: target.value });
+}
+
+/**
+ * Matches the classes of one class string the v4 migration changes. Opacity
+ * utilities merge into the color class with the same variants in the string
+ * (bg-primary bg-opacity-50 -> bg-primary/50); without one they are left for
+ * a hand edit. Returns '' for an opacity utility that was merged.
+ */
+export function createMigrationMatcher(classes: string[]): (token: string) => string | null {
+  const merged = new Map<string, string>();
+  const parsed = classes.map(parseClass);
+  parsed.forEach((opacityClass, index) => {
+    const match = getBaseClass(opacityClass).match(OPACITY_UTILITY);
+    if (!match) return;
+    const key = getVariantKey(opacityClass);
+    // The last color wins, like in the stylesheet
+    let colorIndex = -1;
+    parsed.forEach((other, otherIndex) => {
+      if (getVariantKey(other) === key && isColorOf(match[1], other)) colorIndex = otherIndex;
+    });
+    if (colorIndex === -1) return;
+    merged.set(classes[index], '');
+    merged.set(classes[colorIndex], formatClass({ ...parsed[colorIndex], opacity: match[2] }));
+  });
+
+  return (token) => {
+    const mergedValue = merged.get(token);
+    if (mergedValue !== undefined) return mergedValue;
+    return renameClass(parseClass(token));
+  };
+}
+
+/**
+ * Whether a file was already written for Tailwind 4: it uses a name only
+ * Tailwind 4 has, or carries the data-slot attributes of shadcn's v4
+ * components. The migration leaves such files alone, since running the
+ * renames again would turn shadow-sm into shadow-xs a second time.
+ */
+export function isMigrated(
+  content: string,
+  classStrings: Pick<ClassLocation, 'classes'>[]
+): boolean {
+  if (/\bdata-slot=/.test(content)) return true;
+  return classStrings.some((classString) =>
+    classString.classes.some((token) => V4_ONLY.has(getBaseClass(parseClass(token))))
+  );
+}
+
+function migrateComponent(
+  component: Component,
+  classLocations: ClassLocation[]
+): ComponentMigration | null {
+  const changes = new Map<string, MigrationChange>();
+  const unresolved = new Set<string>();
+
+  for (const location of classLocations) {
+    const matcher = createMigrationMatcher(location.classes);
+    for (const token of location.classes) {
+      const replacement = matcher(token);
+      if (replacement === null) {
+        if (OPACITY_UTILITY.test(getBaseClass(parseClass(token)))) unresolved.add(token);
+        continue;
+      }
+      const key = `${token}\u0000${replacement}`;
+      const change = changes.get(key) ?? { from: token, to: replacement, count: 0 };
+      change.count++;
+      changes.set(key, change);
+    }
+  }
+
+  if (changes.size === 0 && unresolved.size === 0) return null;
+  return {
+    componentId: component.id,
+    path: component.path,
+    changes: [...changes.values()].sort(
+      (a, b) => b.count - a.count || a.from.localeCompare(b.from)
+    ),
+    unresolved: [...unresolved].sort(),
+  };
+}
+
+/**
+ * Lists what the Tailwind 4 migration would change in each component, for
+ * projects on v4 whose components still use v3 class names. Components that
+ * already use v4 names are counted as migrated and not checked further.
+ */
+export async function checkMigration(
+  components: Component[],
+  projectRoot: string
+): Promise<MigrationReport> {
+  const { tailwind } = await getProjectInfo(projectRoot);
+  const pending: ComponentMigration[] = [];
+  let migrated = 0;
+  let totalChanges = 0;
+
+  for (const component of components) {
+    const { content, parsed } = await loadParsedFile(component.path, true);
+    if (isMigrated(content, parsed.classLocations)) {
+      migrated++;
+      continue;
+    }
+
+    const migration = migrateComponent(component, parsed.classLocations);
+    if (!migration) continue;
+    pending.push(migration);
+    totalChanges += migration.changes.reduce((sum, change) => sum + change.count, 0);
+  }
+
+  pending.sort((a, b) => a.componentId.localeCompare(b.componentId));
+  return {
+    tailwindMajor: tailwind.major,
+    components: components.length,
+    pending,
+    migrated,
+    totalChanges,
+  };
+}
@@ -1,20 +1,35 @@
 import crypto from 'node:crypto';
-import os from 'node:os';
 import path from 'node:path';
 import fs from 'fs-extra';
-import type { Preview } from '../types/index.js';
+import type {
+  ApprovedChange,
+  FileFingerprint,
+  Preview,
+  TemplateRule,
+  ValidationIssue,
+} from '../types/index.js';
 import { logger } from '../utils/logger.js';
-import { createBackup } from './backup.js';
-import { createPreview } from './differ.js';
+import { createBackup, restoreBackup } from './backup.js';
+import { loadConfig } from './config.js';
+import { resolveConflicts } from './conflicts.js';
+import { applyHunks, createPreview, generateDiff } from './differ.js';
+import { detectFormatter, type Formatter, formatContent } from './formatter.js';
+import { applyRuleSafely, RegexTimeoutError } from './regexRunner.js';
+import { getScaleShiftError, SCALES } from './scales.js';
+import { getWorkingDirectory } from './scanner.js';
+import { findUnknownClasses, loadTailwindTheme } from './tailwindTheme.js';
+import { type EditedFile, formatIssue, validateEdits } from './validator.js';
+import { markOwnWrites } from './watcher.js';
 
 /**
  * Generates a unique temporary file name using crypto.randomUUID
  * to prevent race conditions when multiple requests modify files concurrently.
+ * Staged files live next to their target so the final rename stays atomic.
  */
 function generateTempFileName(originalPath: string): string {
   const uuid = crypto.randomUUID();
   const baseName = path.basename(originalPath);
-  return path.join(os.tmpdir(), `shadcn-tweaker-${uuid}-${baseName}`);
+  return path.join(path.dirname(originalPath), `.shadcn-tweaker-${uuid}-${baseName}.tmp`);
 }
 
 export interface ModifyResult {
@@ -22,65 +37,241 @@ export interface ModifyResult {
   modified: string[];
   changes: number;
   backupId?: string;
-  errors?: Array<{ path: string; error: string }>;
+  errors?: Array<{ path: string; error: string; code?: string; issues?: ValidationIssue[] }>;
+  // True when a failure undid the writes this apply had already made. A
+  // failure with rolledBack unset and nothing in modified wrote nothing
+  rolledBack?: boolean;
+  // True when files changed on disk after they were previewed
+  stale?: boolean;
+  // True when edited files would not parse or type-check, so nothing was written
+  invalid?: boolean;
+}
+
+interface StagedFile {
+  path: string;
+  original: string;
+  tempPath: string;
+}
+
+function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+export function createFingerprint(content: string, mtime: Date): FileFingerprint {
+  return { hash: hashContent(content), mtime: mtime.toISOString() };
+}
+
+/**
+ * Checks edited files when validateAfterEdit is on: always for syntax, and
+ * against the project's tsconfig.json when typeCheckAfterEdit is on too.
+ */
+async function findInvalidFiles(files: EditedFile[]): Promise<Map<string, ValidationIssue[]>> {
+  const config = await loadConfig();
+  if (!config.validateAfterEdit || files.length === 0) return new Map();
+  return validateEdits(files, config.typeCheckAfterEdit ? getWorkingDirectory() : undefined);
+}
+
+// The project's formatter when formatAfterEdit is on
+async function getFormatter(): Promise<Formatter | null> {
+  const config = await loadConfig();
+  return config.formatAfterEdit ? detectFormatter(getWorkingDirectory()) : null;
+}
+
+async function formatEdit(
+  formatter: Formatter | null,
+  content: string,
+  filePath: string
+): Promise<string> {
+  return formatter ? formatContent(formatter, content, filePath) : content;
+}
+
+function invalidResult(invalid: Map<string, ValidationIssue[]>): ModifyResult {
+  return {
+    success: false,
+    modified: [],
+    changes: 0,
+    errors: [...invalid].map(([filePath, issues]) => ({
+      path: filePath,
+      error: formatIssue(issues[0]),
+      code: issues[0].kind === 'syntax' ? 'SYNTAX_ERROR' : 'TYPE_ERROR',
+      issues,
+    })),
+    invalid: true,
+  };
+}
+
+// Flags classes the edits introduce that the project's Tailwind theme lacks, e.g. rounded-lgg
+async function markUnknownClasses(previews: Preview[]): Promise<void> {
+  if (previews.length === 0) return;
+  const theme = await loadTailwindTheme(getWorkingDirectory());
+  for (const preview of previews) {
+    const unknownClasses = findUnknownClasses(theme, preview.before, preview.after, preview.path);
+    if (unknownClasses.length > 0) preview.unknownClasses = unknownClasses;
+  }
 }
 
 export async function previewChanges(
   componentPaths: string[],
-  find: string,
-  replace: string,
-  isRegex: boolean
+  rule: TemplateRule
 ): Promise<{ previews: Preview[]; totalChanges: number }> {
   const previews: Preview[] = [];
+  const formatter = await getFormatter();
   let totalChanges = 0;
 
-  const searchPattern = isRegex ? new RegExp(find, 'g') : null;
-
   for (const filePath of componentPaths) {
     try {
       const content = await fs.readFile(filePath, 'utf-8');
-      let newContent: string;
-      let matchCount: number;
-
-      if (isRegex && searchPattern) {
-        const matches = content.match(searchPattern);
-        matchCount = matches ? matches.length : 0;
-        newContent = content.replace(searchPattern, replace);
-      } else {
-        const escapedFind = find.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-        const regex = new RegExp(escapedFind, 'g');
-        const matches = content.match(regex);
-        matchCount = matches ? matches.length : 0;
-        newContent = content.split(find).join(replace);
-      }
+      const result = await applyRuleSafely(content, rule, filePath);
 
-      if (matchCount > 0) {
-        previews.push(createPreview(filePath, content, newContent));
-        totalChanges += matchCount;
+      if (result.matches > 0) {
+        const resolved = resolveConflicts(content, result.content, filePath);
+        // Formatted the same way as on apply, so the preview shows what lands on disk
+        const after = await formatEdit(formatter, resolved.content, filePath);
+        const stats = await fs.stat(filePath);
+        previews.push({
+          ...createPreview(filePath, content, after),
+          conflicts: resolved.conflicts,
+          fingerprint: createFingerprint(content, stats.mtime),
+        });
+        totalChanges += result.matches;
       }
     } catch (error) {
+      // A runaway regex fails the whole preview instead of silently skipping files
+      if (error instanceof RegexTimeoutError) throw error;
       logger.error(`Failed to preview changes for ${filePath}`, error);
     }
   }
 
+  // Show up front what an apply would refuse to write
+  const invalid = await findInvalidFiles(
+    previews.map((preview) => ({
+      path: preview.path,
+      original: preview.before,
+      content: preview.after,
+    }))
+  );
+  for (const preview of previews) {
+    const issues = invalid.get(preview.path);
+    if (issues) preview.issues = issues;
+  }
+  await markUnknownClasses(previews);
+
   return { previews, totalChanges };
 }
 
-export async function applyChanges(
+// Applies rules in order with the same conflict pass as the preview
+async function applyRulesToContent(
+  content: string,
+  rules: TemplateRule[],
+  filePath: string
+): Promise<{ content: string; matches: number }> {
+  let matches = 0;
+  for (const rule of rules) {
+    const result = await applyRuleSafely(content, rule, filePath);
+    if (result.matches === 0) continue;
+    content = resolveConflicts(content, result.content, filePath).content;
+    matches += result.matches;
+  }
+  return { content, matches };
+}
+
+/**
+ * Previews several rules applied in order to each file, the way a template
+ * or preset applies them. Files no rule matches are left out.
+ */
+export async function previewRules(
   componentPaths: string[],
-  find: string,
-  replace: string,
-  isRegex: boolean,
-  shouldBackup = true
+  rules: TemplateRule[]
+): Promise<Preview[]> {
+  const previews: Preview[] = [];
+  const formatter = await getFormatter();
+
+  for (const filePath of componentPaths) {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      const result = await applyRulesToContent(content, rules, filePath);
+      if (result.matches === 0) continue;
+
+      const after = await formatEdit(formatter, result.content, filePath);
+      const stats = await fs.stat(filePath);
+      previews.push({
+        ...createPreview(filePath, content, after),
+        fingerprint: createFingerprint(content, stats.mtime),
+      });
+    } catch (error) {
+      if (error instanceof RegexTimeoutError) throw error;
+      logger.error(`Failed to preview changes for ${filePath}`, error);
+    }
+  }
+
+  const invalid = await findInvalidFiles(
+    previews.map((preview) => ({
+      path: preview.path,
+      original: preview.before,
+      content: preview.after,
+    }))
+  );
+  for (const preview of previews) {
+    const issues = invalid.get(preview.path);
+    if (issues) preview.issues = issues;
+  }
+  await markUnknownClasses(previews);
+
+  return previews;
+}
+
+function staleError(filePath: string): { path: string; error: string; code: string } {
+  return {
+    path: filePath,
+    error: 'File changed on disk since it was previewed',
+    code: 'STALE_PREVIEW',
+  };
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * Puts back the original content of files that were already committed,
+ * preferring the backup taken for this apply.
+ */
+async function rollback(committed: StagedFile[], backupId?: string): Promise<boolean> {
+  if (committed.length === 0) return true;
+
+  try {
+    if (backupId) {
+      await restoreBackup(backupId);
+    } else {
+      for (const file of committed) {
+        await fs.writeFile(file.path, file.original, 'utf-8');
+      }
+    }
+    logger.warn(`Rolled back ${committed.length} files`);
+    return true;
+  } catch (error) {
+    logger.error('Failed to roll back changes', error);
+    return false;
+  }
+}
+
+/**
+ * Writes computed contents as a single transaction: new contents are staged
+ * first, then renamed into place. If anything fails, files that were already
+ * written are restored and nothing is left half-applied.
+ */
+async function commitChanges(
+  changed: EditedFile[],
+  totalChanges: number,
+  shouldBackup: boolean
 ): Promise<ModifyResult> {
-  const modified: string[] = [];
-  const errors: Array<{ path: string; error: string }> = [];
-  let totalChanges = 0;
-  let backupId: string | undefined;
+  // Nothing to write, so no backup either
+  if (changed.length === 0) return { success: true, modified: [], changes: 0 };
 
+  let backupId: string | undefined;
   if (shouldBackup) {
     try {
-      const backup = await createBackup(componentPaths);
+      const backup = await createBackup(changed.map((file) => file.path));
       backupId = backup.id;
     } catch (error) {
       logger.error('Failed to create backup', error);
@@ -93,65 +284,204 @@ export async function applyChanges(
     }
   }
 
-  const searchPattern = isRegex ? new RegExp(find, 'g') : null;
+  markOwnWrites(changed.map((file) => file.path));
 
-  for (const filePath of componentPaths) {
+  // Stage the new contents next to their targets
+  const staged: StagedFile[] = [];
+  for (const file of changed) {
+    const tempPath = generateTempFileName(file.path);
     try {
-      const content = await fs.readFile(filePath, 'utf-8');
-      let newContent: string;
-      let matchCount: number;
-
-      if (isRegex && searchPattern) {
-        const matches = content.match(searchPattern);
-        matchCount = matches ? matches.length : 0;
-        newContent = content.replace(new RegExp(find, 'g'), replace);
-      } else {
-        const escapedFind = find.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-        const regex = new RegExp(escapedFind, 'g');
-        const matches = content.match(regex);
-        matchCount = matches ? matches.length : 0;
-        newContent = content.split(find).join(replace);
-      }
-
-      if (matchCount > 0) {
-        // Use UUID-based temp file name to prevent race conditions
-        const tempPath = generateTempFileName(filePath);
-        await fs.writeFile(tempPath, newContent, 'utf-8');
-        await fs.move(tempPath, filePath, { overwrite: true });
+      await fs.writeFile(tempPath, file.content, 'utf-8');
+      staged.push({ path: file.path, original: file.original, tempPath });
+    } catch (error) {
+      logger.error(`Failed to stage ${file.path}`, error);
+      await Promise.all([...staged.map((f) => f.tempPath), tempPath].map((p) => fs.remove(p)));
+      return {
+        success: false,
+        modified: [],
+        changes: 0,
+        backupId,
+        errors: [{ path: file.path, error: getErrorMessage(error) }],
+      };
+    }
+  }
 
-        modified.push(filePath);
-        totalChanges += matchCount;
-        logger.info(`Modified ${filePath}: ${matchCount} changes`);
-      }
+  // Commit by renaming each staged file over its target
+  const committed: StagedFile[] = [];
+  for (const file of staged) {
+    try {
+      await fs.move(file.tempPath, file.path, { overwrite: true });
+      committed.push(file);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      errors.push({ path: filePath, error: errorMessage });
-      logger.error(`Failed to modify ${filePath}`, error);
+      logger.error(`Failed to modify ${file.path}`, error);
+      await Promise.all(
+        staged.filter((f) => !committed.includes(f)).map((f) => fs.remove(f.tempPath))
+      );
+      const rolledBack = committed.length > 0 && (await rollback(committed, backupId));
+      return {
+        success: false,
+        modified: rolledBack ? [] : committed.map((f) => f.path),
+        changes: 0,
+        backupId,
+        errors: [{ path: file.path, error: getErrorMessage(error) }],
+        rolledBack,
+      };
     }
   }
 
+  for (const file of committed) {
+    logger.info(`Modified ${file.path}`);
+  }
+
   return {
-    success: errors.length === 0,
-    modified,
+    success: true,
+    modified: committed.map((f) => f.path),
     changes: totalChanges,
     backupId,
-    errors: errors.length > 0 ? errors : undefined,
   };
 }
 
-export interface BatchAction {
+/**
+ * Applies rules in order to every file as a single transaction. New contents
+ * are computed in memory before anything is written.
+ *
+ * With fingerprints from a preview, only previewed files are written and the
+ * whole apply is refused if any of them changed on disk since.
+ */
+export async function applyRules(
+  componentPaths: string[],
+  rules: TemplateRule[],
+  shouldBackup = true,
+  fingerprints?: Record<string, FileFingerprint>
+): Promise<ModifyResult> {
+  const changed: EditedFile[] = [];
+  const stale: Array<{ path: string; error: string; code: string }> = [];
+  const formatter = await getFormatter();
+  let totalChanges = 0;
+
+  for (const filePath of componentPaths) {
+    // Files that were not part of the preview were never approved
+    if (fingerprints && !fingerprints[filePath]) continue;
+
+    try {
+      const original = await fs.readFile(filePath, 'utf-8');
+      const expected = fingerprints?.[filePath];
+      if (expected && hashContent(original) !== expected.hash) {
+        stale.push(staleError(filePath));
+        continue;
+      }
+
+      const result = await applyRulesToContent(original, rules, filePath);
+      if (result.matches > 0) {
+        const content = await formatEdit(formatter, result.content, filePath);
+        changed.push({ path: filePath, original, content });
+        totalChanges += result.matches;
+      }
+    } catch (error) {
+      if (error instanceof RegexTimeoutError) throw error;
+      logger.error(`Failed to modify ${filePath}`, error);
+      return {
+        success: false,
+        modified: [],
+        changes: 0,
+        errors: [{ path: filePath, error: getErrorMessage(error) }],
+      };
+    }
+  }
+
+  if (stale.length > 0) {
+    return { success: false, modified: [], changes: 0, errors: stale, stale: true };
+  }
+
+  const invalid = await findInvalidFiles(changed);
+  if (invalid.size > 0) return invalidResult(invalid);
+
+  return commitChanges(changed, totalChanges, shouldBackup);
+}
+
+/**
+ * Writes changes reviewed in a preview as a single transaction. Each file
+ * carries either the exact content to write or the ids of the hunks to keep,
+ * which are cut from the change the rule produces on the current content.
+ */
+export async function applyApprovedChanges(
+  changes: ApprovedChange[],
+  rule?: TemplateRule,
+  shouldBackup = true
+): Promise<ModifyResult> {
+  const changed: EditedFile[] = [];
+  const stale: Array<{ path: string; error: string; code: string }> = [];
+  const formatter = await getFormatter();
+  let totalChanges = 0;
+
+  for (const change of changes) {
+    try {
+      const original = await fs.readFile(change.path, 'utf-8');
+      if (change.fingerprint && hashContent(original) !== change.fingerprint.hash) {
+        stale.push(staleError(change.path));
+        continue;
+      }
+
+      let content = change.after;
+      if (content === undefined && rule) {
+        // Hunk ids refer to the formatted preview, so format before picking hunks
+        const proposed = await formatEdit(
+          formatter,
+          (await applyRulesToContent(original, [rule], change.path)).content,
+          change.path
+        );
+        content = applyHunks(original, proposed, change.hunks ?? []) ?? undefined;
+      }
+      if (content === undefined) {
+        throw new Error('Accepted hunks no longer match the file');
+      }
+
+      if (content !== original) {
+        changed.push({ path: change.path, original, content });
+        totalChanges += generateDiff(original, content).changes;
+      }
+    } catch (error) {
+      if (error instanceof RegexTimeoutError) throw error;
+      logger.error(`Failed to modify ${change.path}`, error);
+      return {
+        success: false,
+        modified: [],
+        changes: 0,
+        errors: [{ path: change.path, error: getErrorMessage(error) }],
+      };
+    }
+  }
+
+  if (stale.length > 0) {
+    return { success: false, modified: [], changes: 0, errors: stale, stale: true };
+  }
+
+  const invalid = await findInvalidFiles(changed);
+  if (invalid.size > 0) return invalidResult(invalid);
+
+  return commitChanges(changed, totalChanges, shouldBackup);
+}
+
+export async function applyChanges(
+  componentPaths: string[],
+  rule: TemplateRule,
+  shouldBackup = true,
+  fingerprints?: Record<string, FileFingerprint>
+): Promise<ModifyResult> {
+  return applyRules(componentPaths, [rule], shouldBackup, fingerprints);
+}
+
+export interface BatchAction extends TemplateRule {
   name: string;
-  find: string;
-  replace: string;
-  isRegex: boolean;
 }
 
 const BATCH_ACTIONS: Record<string, (options?: Record<string, string>) => BatchAction> = {
   'remove-cursor-pointer': () => ({
     name: 'Remove cursor-pointer',
-    find: '\\s*cursor-pointer',
+    find: 'cursor-pointer',
     replace: '',
-    isRegex: true,
+    isRegex: false,
+    matchMode: 'token',
   }),
   'add-focus-rings': () => ({
     name: 'Add focus rings',
@@ -159,25 +489,59 @@ const BATCH_ACTIONS: Record<string, (options?: Record<string, string>) => BatchA
     replace:
       'focus:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2',
     isRegex: false,
+    matchMode: 'token',
   }),
   'update-border-radius': () => ({
     name: 'Update border radius',
     find: 'rounded-md',
     replace: 'rounded-lg',
     isRegex: false,
+    matchMode: 'token',
   }),
   'remove-class': (options) => ({
     name: `Remove class: ${options?.className || ''}`,
-    find: `\\s*${options?.className || ''}`,
+    find: options?.className || '',
     replace: '',
-    isRegex: true,
+    isRegex: false,
+    matchMode: 'token',
   }),
   'replace-class': (options) => ({
     name: `Replace ${options?.from || ''} with ${options?.to || ''}`,
     find: options?.from || '',
     replace: options?.to || '',
     isRegex: false,
+    matchMode: 'token',
   }),
+  // Tailwind 3 -> 4 renames in one pass; files already on v4 are left alone
+  'migrate-tailwind-v4': () => ({
+    name: 'Migrate to Tailwind v4',
+    find: '',
+    replace: '',
+    isRegex: false,
+    matchMode: 'token',
+    migration: 'tailwind-v4',
+  }),
+  // step-radius, step-shadow, step-spacing, ... move classes along their scale
+  ...Object.fromEntries(
+    SCALES.map((scale) => [
+      `step-${scale.id}`,
+      (options?: Record<string, string>): BatchAction => {
+        const direction = options?.direction === 'down' ? 'down' : 'up';
+        const percent = options?.percent ? Number.parseFloat(options.percent) : undefined;
+        const steps = options?.steps ? Number.parseInt(options.steps, 10) : 1;
+        return {
+          name: percent
+            ? `${direction === 'up' ? 'Grow' : 'Shrink'} ${scale.label} by ${percent}%`
+            : `Step ${scale.label} ${direction} by ${steps}`,
+          find: '',
+          replace: '',
+          isRegex: false,
+          matchMode: 'token',
+          scaleShift: { scale: scale.id, direction, steps, percent },
+        };
+      },
+    ])
+  ),
 };
 
 export function getBatchAction(
@@ -205,5 +569,15 @@ export async function applyBatchAction(
     };
   }
 
-  return applyChanges(componentPaths, action.find, action.replace, action.isRegex, true);
+  const shiftError = action.scaleShift && getScaleShiftError(action.scaleShift);
+  if (shiftError) {
+    return {
+      success: false,
+      modified: [],
+      changes: 0,
+      errors: [{ path: 'action', error: shiftError }],
+    };
+  }
+
+  return applyChanges(componentPaths, action, true);
 }
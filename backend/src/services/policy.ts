@@ -0,0 +1,183 @@
+import type {
+  ClassLocation,
+  Component,
+  PolicyFinding,
+  PolicyFix,
+  PolicyReport,
+  Severity,
+  StylePolicy,
+} from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { loadParsedFile } from './cache.js';
+import { loadConfig } from './config.js';
+import { getClassFamily } from './conflicts.js';
+import { getBatchAction } from './modifier.js';
+import { nearestScaleClass } from './scales.js';
+import { getBaseClass, parseClass } from './tokens.js';
+
+type Finding = Omit<PolicyFinding, 'componentId' | 'path' | 'line' | 'column'>;
+
+const DEFAULT_SEVERITY: Record<PolicyFinding['rule'], Severity> = {
+  allowed: 'warning',
+  required: 'warning',
+  banned: 'error',
+};
+
+const SEVERITY_ORDER: Severity[] = ['error', 'warning', 'info'];
+
+const patterns = new Map<string, RegExp>();
+
+// Class patterns match whole classes, with * standing for any run of characters
+function matchesPattern(className: string, pattern: string): boolean {
+  let regex = patterns.get(pattern);
+  if (!regex) {
+    const source = pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    regex = new RegExp(`^${source}$`);
+    patterns.set(pattern, regex);
+  }
+  return regex.test(className);
+}
+
+function isPattern(value: string): boolean {
+  return value.includes('*');
+}
+
+function toFix(fix: PolicyFix | undefined): Finding['fix'] {
+  if (!fix) return undefined;
+  const action = getBatchAction(fix.action, fix.options);
+  if (!action) {
+    logger.warn(`Style policy names an unknown batch action: ${fix.action}`);
+    return undefined;
+  }
+  return { ...fix, name: action.name };
+}
+
+function checkBanned(policy: StylePolicy, classes: string[]): Finding[] {
+  const findings: Finding[] = [];
+
+  for (const rule of policy.banned ?? []) {
+    for (const className of classes) {
+      if (!matchesPattern(className, rule.class)) continue;
+      findings.push({
+        rule: 'banned',
+        severity: rule.severity ?? DEFAULT_SEVERITY.banned,
+        message: rule.message ?? `${className} is banned`,
+        className,
+        fix: toFix(rule.fix ?? { action: 'remove-class', options: { className } }),
+      });
+    }
+  }
+  return findings;
+}
+
+function checkAllowed(policy: StylePolicy, classes: string[]): Finding[] {
+  const findings: Finding[] = [];
+
+  for (const className of classes) {
+    const family = getClassFamily(className);
+    const base = getBaseClass(parseClass(className));
+
+    for (const rule of policy.allowed ?? []) {
+      if (rule.family !== family) continue;
+      if (rule.classes.some((allowed) => matchesPattern(base, allowed))) continue;
+
+      const nearest = nearestScaleClass(
+        className,
+        rule.classes.filter((allowed) => !isPattern(allowed))
+      );
+      findings.push({
+        rule: 'allowed',
+        severity: rule.severity ?? DEFAULT_SEVERITY.allowed,
+        message: rule.message ?? `${className} is not an allowed ${family} class`,
+        className,
+        fix: nearest
+          ? toFix({ action: 'replace-class', options: { from: className, to: nearest } })
+          : undefined,
+      });
+    }
+  }
+  return findings;
+}
+
+function checkRequired(policy: StylePolicy, classes: string[]): Finding[] {
+  const findings: Finding[] = [];
+
+  for (const rule of policy.required ?? []) {
+    const trigger = classes.find((className) => matchesPattern(className, rule.when));
+    if (!trigger) continue;
+
+    const missing = rule.require.filter(
+      (required) => !classes.some((className) => matchesPattern(className, required))
+    );
+    if (missing.length === 0) continue;
+
+    // Missing literal classes can be added next to the trigger; patterns need a configured fix
+    const fix =
+      rule.fix ??
+      (missing.some(isPattern)
+        ? undefined
+        : {
+            action: 'replace-class',
+            options: { from: trigger, to: [trigger, ...missing].join(' ') },
+          });
+    findings.push({
+      rule: 'required',
+      severity: rule.severity ?? DEFAULT_SEVERITY.required,
+      message: rule.message ?? `${trigger} needs ${missing.join(', ')}`,
+      className: trigger,
+      fix: toFix(fix),
+    });
+  }
+  return findings;
+}
+
+function checkLocation(policy: StylePolicy, location: ClassLocation): Finding[] {
+  return [
+    ...checkBanned(policy, location.classes),
+    ...checkAllowed(policy, location.classes),
+    ...checkRequired(policy, location.classes),
+  ];
+}
+
+/**
+ * Checks every class string in the components against the stylePolicy in
+ * .shadcn-tweaker.json. Findings are sorted by severity, then by file and
+ * line; each carries a batch action that fixes it where one is known.
+ */
+export async function checkStylePolicy(components: Component[]): Promise<PolicyReport> {
+  const { stylePolicy } = await loadConfig();
+  const counts: Record<Severity, number> = { error: 0, warning: 0, info: 0 };
+
+  if (!stylePolicy) {
+    return { configured: false, components: components.length, counts, findings: [] };
+  }
+
+  const findings: PolicyFinding[] = [];
+  for (const component of components) {
+    const { parsed } = await loadParsedFile(component.path);
+    for (const location of parsed.classLocations) {
+      for (const finding of checkLocation(stylePolicy, location)) {
+        findings.push({
+          ...finding,
+          componentId: component.id,
+          path: component.path,
+          line: location.line,
+          column: location.column,
+        });
+        counts[finding.severity]++;
+      }
+    }
+  }
+
+  findings.sort(
+    (a, b) =>
+      SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) ||
+      a.componentId.localeCompare(b.componentId) ||
+      a.line - b.line
+  );
+
+  return { configured: true, components: components.length, counts, findings };
+}
@@ -0,0 +1,92 @@
+import type { ContrastCheck, Preview, ThemeChange, ThemePreset } from '../types/index.js';
+import { previewRules } from './modifier.js';
+import { previewThemeEdits } from './theme.js';
+
+const ROUNDED = 'rounded-sm rounded-md rounded-lg rounded-xl rounded-2xl rounded';
+
+// Rules run in order, so chains like h-9 -> h-8 then h-10 -> h-9 step each class once
+const PRESETS: ThemePreset[] = [
+  {
+    id: 'sharp',
+    name: 'Sharp',
+    description: 'Square corners and flat surfaces',
+    theme: [{ name: '--radius', scope: 'light', value: '0rem' }],
+    rules: [
+      { find: ROUNDED, replace: 'rounded-none', isRegex: false, matchMode: 'token' },
+      { find: 'shadow-xs shadow-sm', replace: 'shadow-none', isRegex: false, matchMode: 'token' },
+    ],
+  },
+  {
+    id: 'soft',
+    name: 'Soft',
+    description: 'Large radius and deeper, softer shadows',
+    theme: [{ name: '--radius', scope: 'light', value: '1rem' }],
+    rules: [
+      { find: 'shadow-sm', replace: 'shadow-md', isRegex: false, matchMode: 'token' },
+      { find: 'shadow-xs', replace: 'shadow-sm', isRegex: false, matchMode: 'token' },
+    ],
+  },
+  {
+    id: 'brutalist',
+    name: 'Brutalist',
+    description: 'No radius, thick borders, hard offset shadows and bold type',
+    theme: [{ name: '--radius', scope: 'light', value: '0rem' }],
+    rules: [
+      { find: ROUNDED, replace: 'rounded-none', isRegex: false, matchMode: 'token' },
+      { find: 'border', replace: 'border-2', isRegex: false, matchMode: 'token' },
+      {
+        find: 'shadow-xs shadow-sm shadow-md shadow-lg',
+        replace: 'shadow-[4px_4px_0_0_var(--foreground)]',
+        isRegex: false,
+        matchMode: 'token',
+      },
+      { find: 'font-medium', replace: 'font-bold', isRegex: false, matchMode: 'token' },
+    ],
+  },
+  {
+    id: 'compact',
+    name: 'Compact density',
+    description: 'Tighter spacing, shorter controls and smaller body text',
+    theme: [],
+    rules: [
+      {
+        find: '',
+        replace: '',
+        isRegex: false,
+        matchMode: 'token',
+        scaleShift: { scale: 'spacing', direction: 'down', percent: 25 },
+      },
+      { find: 'h-9', replace: 'h-8', isRegex: false, matchMode: 'token' },
+      { find: 'h-10', replace: 'h-9', isRegex: false, matchMode: 'token' },
+      { find: 'text-base', replace: 'text-sm', isRegex: false, matchMode: 'token' },
+    ],
+  },
+];
+
+export function listPresets(): ThemePreset[] {
+  return PRESETS;
+}
+
+export function getPreset(id: string): ThemePreset | null {
+  return PRESETS.find((preset) => preset.id === id) ?? null;
+}
+
+/**
+ * Previews a preset: its rules on the components and its variables in the
+ * theme file, as one list of file previews. Applying them together through
+ * apply-approved writes everything in one transaction with a single backup.
+ */
+export async function previewPreset(
+  preset: ThemePreset,
+  componentPaths: string[],
+  cssPath: string | null
+): Promise<{ previews: Preview[]; changes: ThemeChange[]; contrast: ContrastCheck[] }> {
+  const previews = await previewRules(componentPaths, preset.rules);
+  if (!cssPath || preset.theme.length === 0) {
+    return { previews, changes: [], contrast: [] };
+  }
+
+  const theme = await previewThemeEdits(cssPath, preset.theme);
+  if (theme.changes.length > 0) previews.push(theme.preview);
+  return { previews, changes: theme.changes, contrast: theme.contrast };
+}
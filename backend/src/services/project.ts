@@ -0,0 +1,162 @@
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import fs from 'fs-extra';
+import ts from 'typescript';
+import type { ProjectInfo, ShadcnConfig, TailwindSetup } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+const COMPONENTS_JSON = 'components.json';
+// Vite templates keep paths in tsconfig.app.json, JavaScript projects in jsconfig.json
+const TSCONFIG_NAMES = ['tsconfig.json', 'tsconfig.app.json', 'jsconfig.json'];
+
+export async function readComponentsJson(root: string): Promise<ShadcnConfig | null> {
+  const configPath = path.join(root, COMPONENTS_JSON);
+  if (!(await fs.pathExists(configPath))) return null;
+
+  try {
+    return await fs.readJson(configPath);
+  } catch (error) {
+    logger.warn(`Failed to read ${configPath}`, error);
+    return null;
+  }
+}
+
+// Path mappings of every tsconfig found at the root, with extends followed
+function readPathMappings(root: string): { baseUrl: string; paths: ts.MapLike<string[]> }[] {
+  const mappings: { baseUrl: string; paths: ts.MapLike<string[]> }[] = [];
+
+  for (const name of TSCONFIG_NAMES) {
+    const configPath = path.join(root, name);
+    if (!ts.sys.fileExists(configPath)) continue;
+
+    const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+    const { options } = ts.parseJsonConfigFileContent(config ?? {}, ts.sys, root);
+    if (options.paths) {
+      // Without a baseUrl, paths are relative to the tsconfig's directory
+      mappings.push({ baseUrl: options.baseUrl ?? path.dirname(configPath), paths: options.paths });
+    }
+  }
+
+  return mappings;
+}
+
+/**
+ * Resolves an import alias such as "@/components/ui" to a directory using the
+ * project's tsconfig paths. Aliases no mapping covers resolve relative to the
+ * root, which matches projects that import from the root without paths.
+ */
+export function resolveAlias(alias: string, root: string): string {
+  for (const { baseUrl, paths } of readPathMappings(root)) {
+    for (const [pattern, targets] of Object.entries(paths)) {
+      const target = targets[0];
+      if (!target) continue;
+
+      if (pattern.endsWith('*')) {
+        const prefix = pattern.slice(0, -1);
+        if (alias.startsWith(prefix)) {
+          return path.resolve(baseUrl, target.replace('*', alias.slice(prefix.length)));
+        }
+      } else if (alias === pattern) {
+        return path.resolve(baseUrl, target);
+      }
+    }
+  }
+
+  return path.resolve(root, alias);
+}
+
+async function readPackageJson(file: string): Promise<Record<string, unknown> | null> {
+  try {
+    return await fs.readJson(file);
+  } catch {
+    return null;
+  }
+}
+
+async function findTailwindVersion(root: string): Promise<string | null> {
+  // The installed package, wherever a monorepo hoisted it
+  try {
+    const require = createRequire(path.join(root, 'package.json'));
+    const pkg = await readPackageJson(require.resolve('tailwindcss/package.json'));
+    if (typeof pkg?.version === 'string') return pkg.version;
+  } catch {
+    // Not installed, fall back to the declared range
+  }
+
+  const pkg = await readPackageJson(path.join(root, 'package.json'));
+  for (const field of ['dependencies', 'devDependencies']) {
+    const range = (pkg?.[field] as Record<string, string> | undefined)?.tailwindcss;
+    if (range) return range.replace(/^[\^~>=<\s]+/, '');
+  }
+  return null;
+}
+
+// Without a version, v4 is recognised by its CSS-first setup
+async function guessTailwindMajor(css: string | null, config?: string): Promise<3 | 4 | null> {
+  if (css && (await fs.pathExists(css))) {
+    const content = await fs.readFile(css, 'utf-8');
+    if (/@import\s+["']tailwindcss/.test(content)) return 4;
+    if (/@tailwind\s+base/.test(content)) return 3;
+  }
+  // shadcn leaves tailwind.config empty for v4 projects
+  if (config === '') return 4;
+  if (config) return 3;
+  return null;
+}
+
+async function detectTailwind(root: string, shadcn: ShadcnConfig | null): Promise<TailwindSetup> {
+  const tailwind = shadcn?.tailwind ?? {};
+  const css = tailwind.css ? path.resolve(root, tailwind.css) : null;
+  const version = await findTailwindVersion(root);
+  const major = Number.parseInt(version ?? '', 10);
+
+  return {
+    version,
+    major: major === 3 || major === 4 ? major : await guessTailwindMajor(css, tailwind.config),
+    config: tailwind.config ? path.resolve(root, tailwind.config) : null,
+    css,
+    baseColor: tailwind.baseColor ?? null,
+    cssVariables: tailwind.cssVariables ?? true,
+    prefix: tailwind.prefix ?? '',
+  };
+}
+
+function resolveAliases(shadcn: ShadcnConfig | null, root: string): Record<string, string> {
+  const aliases: Record<string, string> = {};
+  for (const [name, alias] of Object.entries(shadcn?.aliases ?? {})) {
+    if (alias) aliases[name] = resolveAlias(alias, root);
+  }
+  return aliases;
+}
+
+// Older components.json files have no ui alias; shadcn then uses <components>/ui
+function getUiDirectory(aliases: Record<string, string>): string | null {
+  return aliases.ui ?? (aliases.components ? path.join(aliases.components, 'ui') : null);
+}
+
+// Where `shadcn add` puts ui components, or null without a components.json
+export async function findUiDirectory(root: string): Promise<string | null> {
+  const shadcn = await readComponentsJson(root);
+  return shadcn ? getUiDirectory(resolveAliases(shadcn, root)) : null;
+}
+
+/**
+ * Describes the project from its components.json: the resolved aliases, where
+ * shadcn puts ui components, and the Tailwind setup. Works without a
+ * components.json too, with only the Tailwind version detected.
+ */
+export async function getProjectInfo(root: string): Promise<ProjectInfo> {
+  const shadcn = await readComponentsJson(root);
+  const aliases = resolveAliases(shadcn, root);
+
+  return {
+    root,
+    componentsJson: shadcn,
+    style: shadcn?.style ?? null,
+    tsx: shadcn?.tsx ?? true,
+    iconLibrary: shadcn?.iconLibrary ?? null,
+    aliases,
+    uiDirectory: getUiDirectory(aliases),
+    tailwind: await detectTailwind(root, shadcn),
+  };
+}
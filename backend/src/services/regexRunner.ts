@@ -0,0 +1,150 @@
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Worker } from 'node:worker_threads';
+import type { TemplateRule } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { applyRule, type FoundMatch, findMatches, type RuleResult } from './matcher.js';
+import { getProjectInfo } from './project.js';
+import type { RegexJob } from './regexWorker.js';
+import { getWorkingDirectory } from './scanner.js';
+
+// Time a single file may spend in a user regex before the worker is terminated
+const REGEX_TIME_BUDGET_MS = 1000;
+
+// regexWorker.ts when running from source, regexWorker.js from dist
+const WORKER_URL = new URL(
+  `./regexWorker${path.extname(fileURLToPath(import.meta.url))}`,
+  import.meta.url
+);
+
+export class RegexTimeoutError extends Error {
+  readonly code = 'REGEX_TIMEOUT';
+
+  constructor(
+    readonly pattern: string,
+    readonly filePath?: string
+  ) {
+    super(
+      `Regex "${pattern}" took longer than ${REGEX_TIME_BUDGET_MS}ms${filePath ? ` on ${path.basename(filePath)}` : ''} and was stopped. Simplify the pattern.`
+    );
+    this.name = 'RegexTimeoutError';
+  }
+}
+
+let workerReady: Promise<Worker> | null = null;
+// Jobs run one at a time so a queued job's budget only starts once it is sent
+let queue: Promise<unknown> = Promise.resolve();
+
+function getWorker(): Promise<Worker> {
+  if (!workerReady) {
+    const ready = new Promise<Worker>((resolve, reject) => {
+      const worker = new Worker(WORKER_URL);
+      worker.unref();
+      worker.once('message', () => resolve(worker));
+      worker.on('error', reject);
+      // A crashed worker is replaced on the next job; a replaced one must not clear its successor
+      worker.once('exit', () => {
+        if (workerReady === ready) workerReady = null;
+      });
+    });
+    workerReady = ready;
+  }
+  return workerReady;
+}
+
+function stopWorker(worker: Worker): void {
+  workerReady = null;
+  worker.terminate();
+}
+
+async function runInWorker<T>(job: RegexJob, runInline: () => T): Promise<T> {
+  let worker: Worker;
+  try {
+    worker = await getWorker();
+  } catch (error) {
+    // Without worker support the rule still runs, just without the time budget
+    logger.warn('Regex worker unavailable, running regex on the main thread', error);
+    return runInline();
+  }
+
+  return new Promise((resolve, reject) => {
+    const finish = () => {
+      clearTimeout(timer);
+      worker.off('message', onMessage);
+      worker.off('error', onError);
+    };
+
+    const timer = setTimeout(() => {
+      finish();
+      stopWorker(worker);
+      reject(new RegexTimeoutError(job.rule.find, job.fileName));
+    }, REGEX_TIME_BUDGET_MS);
+
+    const onMessage = (message: { result?: T; error?: string }) => {
+      finish();
+      if (message.result) resolve(message.result);
+      else reject(new Error(message.error));
+    };
+
+    // A worker that crashes mid-job fails the job with its error, not a timeout
+    const onError = (error: Error) => {
+      finish();
+      stopWorker(worker);
+      reject(error);
+    };
+
+    worker.once('message', onMessage);
+    worker.once('error', onError);
+    worker.postMessage(job);
+  });
+}
+
+function enqueue<T>(job: RegexJob, runInline: () => T): Promise<T> {
+  const result = queue.then(() => runInWorker(job, runInline));
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+// Scale steps go through the value list of the project's Tailwind version
+async function withTailwindMajor(rule: TemplateRule): Promise<TemplateRule> {
+  if (!rule.scaleShift || rule.scaleShift.tailwind) return rule;
+  const { tailwind } = await getProjectInfo(getWorkingDirectory());
+  return { ...rule, scaleShift: { ...rule.scaleShift, tailwind: tailwind.major ?? 4 } };
+}
+
+/**
+ * Applies a rule like applyRule, but evaluates regex rules in a worker thread
+ * with a per-file time budget. A pattern that backtracks for too long rejects
+ * with RegexTimeoutError instead of blocking the server.
+ */
+export async function applyRuleSafely(
+  content: string,
+  rule: TemplateRule,
+  fileName?: string
+): Promise<RuleResult> {
+  if (rule.scaleShift) {
+    const resolved = await withTailwindMajor(rule);
+    return applyRule(content, resolved, fileName);
+  }
+  const runInline = () => applyRule(content, rule, fileName);
+  if (!rule.isRegex || rule.migration) return runInline();
+  return enqueue({ kind: 'apply', content, rule, fileName }, runInline);
+}
+
+/**
+ * Lists a rule's matches like findMatches, with regex rules evaluated in the
+ * worker under the same time budget as applyRuleSafely.
+ */
+export async function findMatchesSafely(
+  content: string,
+  rule: TemplateRule,
+  fileName?: string
+): Promise<FoundMatch[]> {
+  if (rule.scaleShift) {
+    const resolved = await withTailwindMajor(rule);
+    return findMatches(content, resolved, fileName);
+  }
+  const runInline = () => findMatches(content, rule, fileName);
+  if (!rule.isRegex || rule.migration) return runInline();
+  return enqueue({ kind: 'matches', content, rule, fileName }, runInline);
+}
@@ -0,0 +1,25 @@
+import { parentPort } from 'node:worker_threads';
+import type { TemplateRule } from '../types/index.js';
+import { applyRule, findMatches } from './matcher.js';
+
+export interface RegexJob {
+  kind: 'apply' | 'matches';
+  content: string;
+  rule: TemplateRule;
+  fileName?: string;
+}
+
+// Runs regex rules off the main thread so a runaway pattern can be terminated
+parentPort?.on('message', (job: RegexJob) => {
+  try {
+    const result =
+      job.kind === 'matches'
+        ? findMatches(job.content, job.rule, job.fileName)
+        : applyRule(job.content, job.rule, job.fileName);
+    parentPort?.postMessage({ result });
+  } catch (error) {
+    parentPort?.postMessage({ error: error instanceof Error ? error.message : 'Regex failed' });
+  }
+});
+
+parentPort?.postMessage('ready');
@@ -0,0 +1,292 @@
+import type { ScaleShift } from '../types/index.js';
+import { formatClass, type ParsedClass, parseClass } from './tokens.js';
+
+export interface Scale {
+  id: string;
+  label: string;
+  // Utility prefixes that use this scale, e.g. rounded and rounded-t
+  prefixes: string[];
+  // Ordered from smallest to largest; '' is the bare utility (rounded, shadow)
+  values: string[];
+  // Size of each value in px (weights for font-weight), used to map arbitrary
+  // values such as rounded-[6px] to the nearest entry and for percentage resizes
+  sizes?: number[];
+  // Classes that sit at another value's position, e.g. Tailwind 4's bare rounded is rounded-sm
+  aliases?: Record<string, string>;
+  // Tailwind 4's values and sizes, for the scales it renamed
+  v4?: Pick<Scale, 'values' | 'sizes' | 'aliases'>;
+}
+
+const SIDES = ['x', 'y', 't', 'r', 'b', 'l', 's', 'e'];
+const CORNERS = ['t', 'r', 'b', 'l', 's', 'e', 'tl', 'tr', 'br', 'bl', 'ss', 'se', 'es', 'ee'];
+
+const SPACING_VALUES = [
+  '0',
+  'px',
+  '0.5',
+  '1',
+  '1.5',
+  '2',
+  '2.5',
+  '3',
+  '3.5',
+  '4',
+  '5',
+  '6',
+  '7',
+  '8',
+  '9',
+  '10',
+  '11',
+  '12',
+  '14',
+  '16',
+  '20',
+  '24',
+  '28',
+  '32',
+  '36',
+  '40',
+  '44',
+  '48',
+  '52',
+  '56',
+  '60',
+  '64',
+  '72',
+  '80',
+  '96',
+];
+
+export const SCALES: Scale[] = [
+  {
+    id: 'radius',
+    label: 'Border Radius',
+    prefixes: ['rounded', ...CORNERS.map((corner) => `rounded-${corner}`)],
+    values: ['none', 'sm', '', 'md', 'lg', 'xl', '2xl', '3xl'],
+    sizes: [0, 2, 4, 6, 8, 12, 16, 24],
+    // v4 added xs and 4xl; the bare rounded is rounded-sm's size there
+    v4: {
+      values: ['none', 'xs', 'sm', 'md', 'lg', 'xl', '2xl', '3xl', '4xl'],
+      sizes: [0, 2, 4, 6, 8, 12, 16, 24, 32],
+      aliases: { '': 'sm' },
+    },
+  },
+  {
+    id: 'shadow',
+    label: 'Shadow',
+    prefixes: ['shadow'],
+    values: ['none', 'sm', '', 'md', 'lg', 'xl', '2xl'],
+    // The bare shadow is shadow-sm in v4
+    v4: {
+      values: ['none', '2xs', 'xs', 'sm', 'md', 'lg', 'xl', '2xl'],
+      aliases: { '': 'sm' },
+    },
+  },
+  {
+    id: 'text-size',
+    label: 'Text Size',
+    prefixes: ['text'],
+    values: [
+      'xs',
+      'sm',
+      'base',
+      'lg',
+      'xl',
+      '2xl',
+      '3xl',
+      '4xl',
+      '5xl',
+      '6xl',
+      '7xl',
+      '8xl',
+      '9xl',
+    ],
+    sizes: [12, 14, 16, 18, 20, 24, 30, 36, 48, 60, 72, 96, 128],
+  },
+  {
+    id: 'font-weight',
+    label: 'Font Weight',
+    prefixes: ['font'],
+    values: [
+      'thin',
+      'extralight',
+      'light',
+      'normal',
+      'medium',
+      'semibold',
+      'bold',
+      'extrabold',
+      'black',
+    ],
+    sizes: [100, 200, 300, 400, 500, 600, 700, 800, 900],
+  },
+  {
+    id: 'ring',
+    label: 'Ring Width',
+    prefixes: ['ring'],
+    values: ['0', '1', '2', '', '4', '8'],
+    sizes: [0, 1, 2, 3, 4, 8],
+    // The bare ring is 1px in v4, and the old 3px ring is ring-3
+    v4: {
+      values: ['0', '1', '2', '3', '4', '8'],
+      sizes: [0, 1, 2, 3, 4, 8],
+      aliases: { '': '1' },
+    },
+  },
+  {
+    id: 'spacing',
+    label: 'Spacing',
+    prefixes: [
+      'p',
+      ...SIDES.map((side) => `p${side}`),
+      'm',
+      ...SIDES.map((side) => `m${side}`),
+      'gap',
+      'gap-x',
+      'gap-y',
+      'space-x',
+      'space-y',
+    ],
+    values: SPACING_VALUES,
+    // Spacing steps are 4px each, and spacing-px is a single pixel
+    sizes: SPACING_VALUES.map((value) => (value === 'px' ? 1 : Number.parseFloat(value) * 4)),
+  },
+];
+
+/**
+ * A scale with the values of a Tailwind major version. Defaults to Tailwind
+ * 3's, which the class parser and the conflict pass share across versions.
+ */
+export function getScale(id: string, major: 3 | 4 = 3): Scale | undefined {
+  const scale = SCALES.find((candidate) => candidate.id === id);
+  if (!scale || major === 3 || !scale.v4) return scale;
+  return { ...scale, ...scale.v4 };
+}
+
+// Why a shift cannot run on its scale, e.g. a percentage on a scale without sizes
+export function getScaleShiftError(shift: ScaleShift): string | null {
+  const scale = getScale(shift.scale, shift.tailwind);
+  if (!scale) return `Unknown scale: ${shift.scale}`;
+  if (shift.percent !== undefined && !scale.sizes) {
+    return `${scale.label} has no sizes to resize by a percentage, step it instead`;
+  }
+  return null;
+}
+
+// Arbitrary sizes in px, rem or em (16px), or unitless numbers such as font weights
+function parseSize(arbitrary: string): number | null {
+  const match = arbitrary.match(/^(\d*\.?\d+)(px|rem|em)?$/);
+  if (!match) return null;
+  const size = Number.parseFloat(match[1]);
+  return match[2] === 'rem' || match[2] === 'em' ? size * 16 : size;
+}
+
+function nearestIndex(sizes: number[], target: number): number {
+  let nearest = 0;
+  for (let i = 1; i < sizes.length; i++) {
+    if (Math.abs(sizes[i] - target) < Math.abs(sizes[nearest] - target)) nearest = i;
+  }
+  return nearest;
+}
+
+/**
+ * Finds the scale position of a class. Arbitrary values are mapped to the
+ * nearest entry, so rounded-[5px] sits at rounded-md.
+ */
+function findScaleIndex(parsed: ParsedClass, scale: Scale): number | null {
+  if (!scale.prefixes.includes(parsed.utility)) return null;
+
+  if (parsed.arbitrary !== undefined) {
+    const size = parseSize(parsed.arbitrary);
+    return size !== null && scale.sizes ? nearestIndex(scale.sizes, size) : null;
+  }
+
+  const index = scale.values.indexOf(scale.aliases?.[parsed.value] ?? parsed.value);
+  return index === -1 ? null : index;
+}
+
+function shiftIndex(scale: Scale, index: number, parsed: ParsedClass, shift: ScaleShift): number {
+  const sign = shift.direction === 'up' ? 1 : -1;
+
+  if (shift.percent !== undefined && scale.sizes) {
+    // Resize from the exact arbitrary size when there is one, then snap to the scale
+    const size =
+      (parsed.arbitrary !== undefined && parseSize(parsed.arbitrary)) || scale.sizes[index];
+    return nearestIndex(scale.sizes, size * (1 + (sign * shift.percent) / 100));
+  }
+
+  const steps = shift.steps ?? 1;
+  return Math.min(scale.values.length - 1, Math.max(0, index + sign * steps));
+}
+
+function withScaleValue(parsed: ParsedClass, scale: Scale, index: number): ParsedClass {
+  return { ...parsed, value: scale.values[index], arbitrary: undefined };
+}
+
+/**
+ * Maps a class with an arbitrary value to the nearest scale class, keeping
+ * its variants: sm:rounded-[5px] -> sm:rounded-md. Returns null for classes
+ * that are not arbitrary or not on any scale.
+ */
+export function snapToScale(token: string): string | null {
+  const parsed = parseClass(token);
+  if (parsed.arbitrary === undefined) return null;
+
+  for (const scale of SCALES) {
+    const index = findScaleIndex(parsed, scale);
+    if (index !== null) return formatClass(withScaleValue(parsed, scale, index));
+  }
+  return null;
+}
+
+/**
+ * Moves a single class along its scale, keeping variants and modifiers:
+ * hover:shadow-sm -> hover:shadow one step up on Tailwind 3, hover:shadow-md
+ * on Tailwind 4. Returns null for classes that are not on the scale or are
+ * already at its end, and for percentage resizes of a scale without sizes.
+ */
+export function shiftClass(token: string, shift: ScaleShift): string | null {
+  const scale = getScale(shift.scale, shift.tailwind);
+  if (!scale || getScaleShiftError(shift)) return null;
+
+  const parsed = parseClass(token);
+  const index = findScaleIndex(parsed, scale);
+  if (index === null) return null;
+
+  const shifted = shiftIndex(scale, index, parsed, shift);
+  if (shifted === index && parsed.arbitrary === undefined) return null;
+
+  return formatClass(withScaleValue(parsed, scale, shifted));
+}
+
+/**
+ * Picks the candidate closest to a class on its scale and gives it the
+ * class's variants: hover:rounded-sm with [rounded-md, rounded-full] ->
+ * hover:rounded-md. Candidates are base classes; null when none shares the
+ * class's scale.
+ */
+export function nearestScaleClass(token: string, candidates: string[]): string | null {
+  const parsed = parseClass(token);
+
+  for (const scale of SCALES) {
+    const index = findScaleIndex(parsed, scale);
+    if (index === null) continue;
+
+    let nearest: { parsed: ParsedClass; distance: number } | null = null;
+    for (const candidate of candidates) {
+      const candidateParsed = parseClass(candidate);
+      const candidateIndex = findScaleIndex(candidateParsed, scale);
+      if (candidateIndex === null) continue;
+      const distance = Math.abs(candidateIndex - index);
+      if (!nearest || distance < nearest.distance) {
+        nearest = { parsed: candidateParsed, distance };
+      }
+    }
+
+    if (!nearest) return null;
+    const { utility, value, arbitrary } = nearest.parsed;
+    return formatClass({ ...parsed, utility, value, arbitrary });
+  }
+  return null;
+}
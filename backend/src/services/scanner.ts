@@ -1,7 +1,11 @@
 import path from 'node:path';
 import fs from 'fs-extra';
-import type { Component, ScanResult } from '../types/index.js';
+import type { Component, ComponentEvent, ScanResult } from '../types/index.js';
+import { globToRegExp, matchesAnyGlob } from '../utils/glob.js';
 import { logger } from '../utils/logger.js';
+import { invalidateCachedFile, loadParsedFile } from './cache.js';
+import { loadConfig } from './config.js';
+import { findUiDirectory } from './project.js';
 
 const COMMON_COMPONENT_DIRS = [
   'src/components/ui',
@@ -22,6 +26,16 @@ const COMMON_COMPONENT_DIRS = [
 let cachedComponents: Component[] = [];
 let _componentDirectory = '';
 
+// What the last scan covered, so single files can be refreshed the same way
+interface ScanScope {
+  basePath: string;
+  roots: string[];
+  include: RegExp[];
+  exclude: RegExp[];
+}
+
+let scanScope: ScanScope | null = null;
+
 // Get the working directory - either from environment or process.cwd()
 export function getWorkingDirectory(): string {
   return process.env.SHADCN_TWEAKER_CWD || process.cwd();
@@ -62,7 +76,13 @@ export async function findComponentDirectory(
     logger.warn(`Configured components path not found: ${envPath}`);
   }
 
-  // Priority 3: Auto-detect from common paths
+  // Priority 3: The ui alias from shadcn's components.json
+  const uiDirectory = await findUiDirectory(basePath);
+  if (uiDirectory && (await fs.pathExists(uiDirectory))) {
+    return uiDirectory;
+  }
+
+  // Priority 4: Auto-detect from common paths
   for (const dir of COMMON_COMPONENT_DIRS) {
     const fullPath = path.join(basePath, dir);
     if (await fs.pathExists(fullPath)) {
@@ -73,57 +93,137 @@ export async function findComponentDirectory(
   return null;
 }
 
-export async function scanComponents(basePath: string, customPath?: string): Promise<ScanResult> {
+// Never worth descending into, whatever the include globs say
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'dist', 'build']);
+
+/**
+ * Resolves the directories to scan: an explicit path, else the componentRoots
+ * from .shadcn-tweaker.json, else the single directory findComponentDirectory
+ * picks.
+ */
+export async function findComponentRoots(basePath: string, customPath?: string): Promise<string[]> {
+  if (!customPath) {
+    const { componentRoots } = await loadConfig();
+    if (componentRoots.length > 0) {
+      const roots: string[] = [];
+      for (const root of componentRoots) {
+        const fullPath = path.resolve(basePath, root);
+        if (await fs.pathExists(fullPath)) {
+          roots.push(fullPath);
+        } else {
+          logger.warn(`Configured component root not found: ${root}`);
+        }
+      }
+      return roots;
+    }
+  }
+
   const dir = await findComponentDirectory(basePath, customPath);
+  return dir ? [dir] : [];
+}
+
+// Files under root matching the globs; a folder's files come before its subfolders
+async function collectFiles(root: string, include: RegExp[], exclude: RegExp[]): Promise<string[]> {
+  const files: string[] = [];
+
+  const walk = async (dir: string) => {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    const subdirectories: string[] = [];
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (isScannedDirectory(entry.name)) subdirectories.push(fullPath);
+        continue;
+      }
+
+      if (isIncluded(fullPath, root, include, exclude)) files.push(fullPath);
+    }
+
+    for (const subdirectory of subdirectories) await walk(subdirectory);
+  };
+
+  await walk(root);
+  return files;
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+export function isScannedDirectory(name: string): boolean {
+  return !name.startsWith('.') && !SKIPPED_DIRECTORIES.has(name);
+}
+
+function isIncluded(filePath: string, root: string, include: RegExp[], exclude: RegExp[]): boolean {
+  const relativePath = toPosix(path.relative(root, filePath));
+  return matchesAnyGlob(relativePath, include) && !matchesAnyGlob(relativePath, exclude);
+}
 
-  if (!dir) {
+async function readComponent(filePath: string, basePath: string): Promise<Component | null> {
+  const stats = await fs.stat(filePath);
+
+  if (!stats.isFile()) return null;
+
+  const { parsed, size, mtime } = await loadParsedFile(filePath);
+
+  return {
+    id: toPosix(path.relative(basePath, filePath)),
+    name: path.basename(filePath, path.extname(filePath)),
+    path: filePath,
+    metadata: {
+      lines: parsed.lines,
+      size,
+      lastModified: mtime.toISOString(),
+      classCount: parsed.classCount,
+    },
+  };
+}
+
+export async function scanComponents(basePath: string, customPath?: string): Promise<ScanResult> {
+  const roots = await findComponentRoots(basePath, customPath);
+
+  if (roots.length === 0) {
     return {
       success: false,
       count: 0,
       directory: '',
+      directories: [],
       components: [],
     };
   }
 
-  _componentDirectory = dir;
+  _componentDirectory = roots[0];
   const components: Component[] = [];
 
   try {
-    const files = await fs.readdir(dir);
+    const config = await loadConfig();
+    const include = config.include.map(globToRegExp);
+    const exclude = config.exclude.map(globToRegExp);
+    // Overlapping roots must not list a file twice
+    const seen = new Set<string>();
 
-    for (const file of files) {
-      if (!file.endsWith('.tsx') && !file.endsWith('.jsx')) continue;
+    for (const root of roots) {
+      for (const filePath of await collectFiles(root, include, exclude)) {
+        const component = await readComponent(filePath, basePath);
+        if (!component || seen.has(component.id)) continue;
 
-      const filePath = path.join(dir, file);
-      const stats = await fs.stat(filePath);
-
-      if (!stats.isFile()) continue;
-
-      const content = await fs.readFile(filePath, 'utf-8');
-      const lines = content.split('\n').length;
-
-      const classMatches = content.match(/className\s*[=:]\s*["'`{]/g) || [];
-
-      components.push({
-        name: path.basename(file, path.extname(file)),
-        path: filePath,
-        metadata: {
-          lines,
-          size: stats.size,
-          lastModified: stats.mtime.toISOString(),
-          classCount: classMatches.length,
-        },
-      });
+        seen.add(component.id);
+        components.push(component);
+      }
     }
 
     cachedComponents = components;
+    scanScope = { basePath, roots, include, exclude };
 
-    logger.info(`Scanned ${components.length} components in ${dir}`);
+    logger.info(`Scanned ${components.length} components in ${roots.join(', ')}`);
 
     return {
       success: true,
       count: components.length,
-      directory: dir,
+      directory: roots[0],
+      directories: roots,
       components,
     };
   } catch (error) {
@@ -132,46 +232,75 @@ export async function scanComponents(basePath: string, customPath?: string): Pro
   }
 }
 
+/**
+ * Re-reads one file after it changed on disk and updates the cache. Returns
+ * what happened to the component list, or null when the file is not one of
+ * the scanned components (or only its folder was touched).
+ */
+export async function refreshCachedComponent(
+  filePath: string
+): Promise<Omit<ComponentEvent, 'external'> | null> {
+  if (!scanScope) return null;
+  const { basePath, roots, include, exclude } = scanScope;
+
+  const index = cachedComponents.findIndex((c) => c.path === filePath);
+  const root = roots.find((r) => !path.relative(r, filePath).startsWith('..'));
+
+  // The mtime alone can miss an edit made within the same timestamp tick
+  invalidateCachedFile(filePath);
+
+  if (!(await fs.pathExists(filePath))) {
+    if (index === -1) return null;
+    const [removed] = cachedComponents.splice(index, 1);
+    return { type: 'delete', id: removed.id, path: filePath };
+  }
+
+  if (!root || !isIncluded(filePath, root, include, exclude)) return null;
+
+  const component = await readComponent(filePath, basePath);
+  if (!component) return null;
+
+  if (index === -1) {
+    cachedComponents.push(component);
+    return { type: 'add', id: component.id, path: filePath, component };
+  }
+  cachedComponents[index] = component;
+  return { type: 'change', id: component.id, path: filePath, component };
+}
+
+// The roots the last successful scan covered
+export function getScannedRoots(): string[] {
+  return scanScope?.roots ?? [];
+}
+
 export function getCachedComponents(): Component[] {
   return cachedComponents;
 }
 
-export async function getComponentByName(name: string): Promise<Component | null> {
-  const component = cachedComponents.find((c) => c.name === name);
+// Looks a component up by id, or by name for ids from before nested folders were scanned
+export async function getComponentById(id: string): Promise<Component | null> {
+  const component =
+    cachedComponents.find((c) => c.id === id) ?? cachedComponents.find((c) => c.name === id);
 
   if (!component) return null;
 
   try {
-    const content = await fs.readFile(component.path, 'utf-8');
-
-    const classRegex = /className\s*[=:]\s*["'`]([^"'`]+)["'`]/g;
-    const classes: string[] = [];
-    let match: RegExpExecArray | null = classRegex.exec(content);
-    while (match !== null) {
-      const classString = match[1];
-      classes.push(...classString.split(/\s+/).filter(Boolean));
-      match = classRegex.exec(content);
-    }
-
-    const exportMatches = content.match(/export\s+(?:const|function|class)\s+(\w+)/g) || [];
-    const exports = exportMatches
-      .map((m) => {
-        const match = m.match(/export\s+(?:const|function|class)\s+(\w+)/);
-        return match ? match[1] : '';
-      })
-      .filter(Boolean);
+    const { content, parsed } = await loadParsedFile(component.path, true);
 
     return {
       ...component,
       content,
-      classes: [...new Set(classes)],
+      classes: parsed.classes,
+      classLocations: parsed.classLocations,
+      variants: parsed.variants,
       metadata: {
         ...component.metadata,
-        exports,
+        exports: parsed.exports,
+        imports: parsed.imports,
       },
     };
   } catch (error) {
-    logger.error(`Failed to read component: ${name}`, error);
+    logger.error(`Failed to read component: ${id}`, error);
     return null;
   }
 }
@@ -180,7 +309,7 @@ export async function getComponentsWithContent(): Promise<Component[]> {
   const components: Component[] = [];
 
   for (const comp of cachedComponents) {
-    const content = await fs.readFile(comp.path, 'utf-8');
+    const { content } = await loadParsedFile(comp.path, true);
     components.push({
       ...comp,
       content,
@@ -0,0 +1,546 @@
+import path from 'node:path';
+import fs from 'fs-extra';
+import ts from 'typescript';
+import type { TailwindTheme, ThemeScale, ThemeScaleValue, UnknownClass } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { findClassStrings } from './classParser.js';
+import { getProjectInfo } from './project.js';
+import { getScale } from './scales.js';
+import { findThemeFile, parseTheme } from './theme.js';
+import { formatClass, parseClass } from './tokens.js';
+
+const CONFIG_NAMES = [
+  'tailwind.config.ts',
+  'tailwind.config.js',
+  'tailwind.config.cjs',
+  'tailwind.config.mjs',
+];
+
+interface ScaleDefinition {
+  id: string;
+  label: string;
+  utility: string;
+  // Utility prefixes checked against the scale, e.g. rounded-t as well as rounded
+  prefixes: string[];
+  // The tailwind.config theme key and the @theme namespace of the scale
+  configKey: string;
+  namespace: string | null;
+  // Unambiguous scales flag any value they lack; the others share their
+  // utility with colors (text-primary, shadow-primary), so only near misses of
+  // a scale value are flagged there
+  strict: boolean;
+}
+
+const DEFINITIONS: ScaleDefinition[] = [
+  {
+    id: 'radius',
+    label: 'Border Radius',
+    utility: 'rounded',
+    prefixes: getScale('radius')?.prefixes ?? ['rounded'],
+    configKey: 'borderRadius',
+    namespace: '--radius',
+    strict: true,
+  },
+  {
+    id: 'shadow',
+    label: 'Shadow',
+    utility: 'shadow',
+    prefixes: ['shadow'],
+    configKey: 'boxShadow',
+    namespace: '--shadow',
+    strict: false,
+  },
+  {
+    id: 'text-size',
+    label: 'Text Size',
+    utility: 'text',
+    prefixes: ['text'],
+    configKey: 'fontSize',
+    namespace: '--text',
+    strict: false,
+  },
+  {
+    id: 'font-weight',
+    label: 'Font Weight',
+    utility: 'font',
+    prefixes: ['font'],
+    configKey: 'fontWeight',
+    namespace: '--font-weight',
+    strict: false,
+  },
+  {
+    id: 'font-family',
+    label: 'Font Family',
+    utility: 'font',
+    prefixes: ['font'],
+    configKey: 'fontFamily',
+    namespace: '--font',
+    strict: false,
+  },
+  {
+    id: 'spacing',
+    label: 'Spacing',
+    utility: 'p',
+    prefixes: getScale('spacing')?.prefixes ?? ['p'],
+    configKey: 'spacing',
+    namespace: '--spacing',
+    strict: true,
+  },
+  {
+    id: 'ring',
+    label: 'Ring Width',
+    utility: 'ring',
+    prefixes: ['ring'],
+    configKey: 'ringWidth',
+    namespace: null,
+    strict: false,
+  },
+];
+
+// Values a utility accepts besides its scale
+const KEYWORDS: Record<string, string[]> = {
+  m: ['auto'],
+  mx: ['auto'],
+  my: ['auto'],
+  mt: ['auto'],
+  mr: ['auto'],
+  mb: ['auto'],
+  ml: ['auto'],
+  ms: ['auto'],
+  me: ['auto'],
+  'space-x': ['reverse'],
+  'space-y': ['reverse'],
+};
+
+type Defaults = Array<[value: string, css: string | null]>;
+
+function fromScale(id: string, css: (value: string, size: number) => string | null): Defaults {
+  const scale = getScale(id);
+  if (!scale) return [];
+  return scale.values.map((value, index) => [value, css(value, scale.sizes?.[index] ?? 0)]);
+}
+
+const rem = (px: number) => `${px / 16}rem`;
+
+// Tailwind's default scales, keyed by major version
+const DEFAULTS: Record<3 | 4, Record<string, Defaults>> = {
+  3: {
+    radius: [...fromScale('radius', (_, size) => (size ? rem(size) : '0px')), ['full', '9999px']],
+    shadow: [
+      ...fromScale('shadow', (value) => (value === 'none' ? 'none' : null)),
+      ['inner', null],
+    ],
+    'text-size': fromScale('text-size', (_, size) => rem(size)),
+    'font-weight': fromScale('font-weight', (_, size) => String(size)),
+    'font-family': [
+      ['sans', null],
+      ['serif', null],
+      ['mono', null],
+    ],
+    spacing: fromScale('spacing', (value, size) => (value === 'px' ? '1px' : rem(size))),
+    ring: fromScale('ring', (_, size) => `${size}px`),
+  },
+  4: {
+    radius: [
+      ['none', '0'],
+      ['xs', '0.125rem'],
+      ['sm', '0.25rem'],
+      ['md', '0.375rem'],
+      ['lg', '0.5rem'],
+      ['xl', '0.75rem'],
+      ['2xl', '1rem'],
+      ['3xl', '1.5rem'],
+      ['4xl', '2rem'],
+      ['full', 'calc(infinity * 1px)'],
+    ],
+    shadow: [
+      ['none', 'none'],
+      ...(['2xs', 'xs', 'sm', 'md', 'lg', 'xl', '2xl'].map((value) => [value, null]) as Defaults),
+    ],
+    'text-size': fromScale('text-size', (_, size) => rem(size)),
+    'font-weight': fromScale('font-weight', (_, size) => String(size)),
+    'font-family': [
+      ['sans', null],
+      ['serif', null],
+      ['mono', null],
+    ],
+    spacing: fromScale('spacing', (value) =>
+      value === 'px' ? '1px' : `calc(var(--spacing) * ${value})`
+    ),
+    ring: fromScale('ring', (value) => `${value || 1}px`),
+  },
+};
+
+// Names Tailwind 4 generates whatever the theme declares, e.g. rounded-full
+// and the bare rounded and shadow kept from v3
+const V4_STATIC: Record<string, string[]> = {
+  radius: ['', 'none', 'full'],
+  shadow: ['', 'none'],
+};
+
+type ValueMap = Map<string, string | null>;
+
+function getPropertyName(name: ts.PropertyName): string | null {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+    return name.text;
+  }
+  return null;
+}
+
+// Strips parentheses and type assertions: ({ ... } satisfies Config)
+function unwrap(expression: ts.Expression): ts.Expression {
+  if (
+    ts.isParenthesizedExpression(expression) ||
+    ts.isAsExpression(expression) ||
+    ts.isSatisfiesExpression(expression)
+  ) {
+    return unwrap(expression.expression);
+  }
+  return expression;
+}
+
+function findProperty(object: ts.ObjectLiteralExpression, key: string): ts.Expression | null {
+  for (const property of object.properties) {
+    if (ts.isPropertyAssignment(property) && getPropertyName(property.name) === key) {
+      return unwrap(property.initializer);
+    }
+  }
+  return null;
+}
+
+// Strings and numbers; for arrays such as fontSize's [size, lineHeight], the first entry
+function readValue(expression: ts.Expression): string | null {
+  const value = unwrap(expression);
+  if (ts.isStringLiteral(value) || ts.isNoSubstitutionTemplateLiteral(value)) return value.text;
+  if (ts.isNumericLiteral(value)) return value.text;
+  if (ts.isArrayLiteralExpression(value) && value.elements.length > 0) {
+    return readValue(value.elements[0]);
+  }
+  return null;
+}
+
+// Keys of an object literal with their static values; DEFAULT is the bare utility
+function readValues(expression: ts.Expression | null): ValueMap | null {
+  if (!expression || !ts.isObjectLiteralExpression(expression)) return null;
+  const values: ValueMap = new Map();
+  for (const property of expression.properties) {
+    if (!ts.isPropertyAssignment(property)) continue;
+    const key = getPropertyName(property.name);
+    if (key !== null) values.set(key === 'DEFAULT' ? '' : key, readValue(property.initializer));
+  }
+  return values;
+}
+
+// The object literal assigned to theme anywhere in the config, wherever it is exported from
+function findThemeObject(node: ts.Node): ts.ObjectLiteralExpression | null {
+  if (ts.isObjectLiteralExpression(node)) {
+    const theme = findProperty(node, 'theme');
+    if (theme && ts.isObjectLiteralExpression(theme)) return theme;
+  }
+  return ts.forEachChild(node, findThemeObject) ?? null;
+}
+
+interface Overrides {
+  // Scales the project replaces, and values it adds to or changes in a scale
+  replaced: Map<string, ValueMap>;
+  extended: Map<string, ValueMap>;
+  removed: Map<string, Set<string>>;
+  spacingBase?: string;
+}
+
+function createOverrides(): Overrides {
+  return { replaced: new Map(), extended: new Map(), removed: new Map() };
+}
+
+/**
+ * Reads the theme of a tailwind.config file without running it. Only values
+ * written as literals are picked up: theme.X replaces a default scale and
+ * theme.extend.X adds to it. Function values such as ({ theme }) => ... are
+ * skipped, so those scales keep their defaults.
+ */
+function readConfigOverrides(content: string, fileName: string): Overrides {
+  const overrides = createOverrides();
+  const source = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true);
+  const theme = findThemeObject(source);
+  if (!theme) return overrides;
+
+  const extend = findProperty(theme, 'extend');
+  for (const definition of DEFINITIONS) {
+    const replaced = readValues(findProperty(theme, definition.configKey));
+    if (replaced) overrides.replaced.set(definition.id, replaced);
+    const extended =
+      extend && ts.isObjectLiteralExpression(extend)
+        ? readValues(findProperty(extend, definition.configKey))
+        : null;
+    if (extended) overrides.extended.set(definition.id, extended);
+  }
+  return overrides;
+}
+
+function getNamespaceKey(name: string, definition: ScaleDefinition): string | null {
+  if (!definition.namespace || !name.startsWith(`${definition.namespace}-`)) return null;
+  const key = name.slice(definition.namespace.length + 1);
+  // --text-sm--line-height and the like are options of a value, not values
+  if (!key || key.includes('--')) return null;
+  // --font-weight-bold belongs to font-weight, not to a font family named weight-bold
+  if (definition.id === 'font-family' && key.startsWith('weight-')) return null;
+  return key;
+}
+
+/**
+ * Reads the @theme variables of a Tailwind 4 CSS file. A namespace reset
+ * such as --radius-*: initial drops the defaults of that scale, and --*:
+ * initial those of every scale.
+ */
+function readCssOverrides(css: string): Overrides {
+  const overrides = createOverrides();
+  const masked = css.replace(/\/\*[\s\S]*?\*\//g, '');
+
+  for (const match of masked.matchAll(/(--[\w-]*?)-?\*\s*:\s*initial/g)) {
+    for (const definition of DEFINITIONS) {
+      const namespace = definition.namespace;
+      if (!namespace) continue;
+      // --font-*: initial clears --font-weight-* as well
+      if (match[1] === '--' || namespace === match[1] || namespace.startsWith(`${match[1]}-`)) {
+        overrides.replaced.set(definition.id, new Map());
+      }
+    }
+  }
+
+  for (const token of parseTheme(css)) {
+    if (token.scope !== 'theme') continue;
+    if (token.name === '--spacing') {
+      overrides.spacingBase = token.value;
+      continue;
+    }
+    for (const definition of DEFINITIONS) {
+      const key = getNamespaceKey(token.name, definition);
+      if (key === null) continue;
+      if (token.value === 'initial') {
+        overrides.removed.set(
+          definition.id,
+          (overrides.removed.get(definition.id) ?? new Set()).add(key)
+        );
+        continue;
+      }
+      const target = overrides.replaced.get(definition.id) ?? overrides.extended.get(definition.id);
+      const values = target ?? new Map();
+      values.set(key, token.value);
+      if (!target) overrides.extended.set(definition.id, values);
+    }
+  }
+  return overrides;
+}
+
+function buildScale(definition: ScaleDefinition, major: 3 | 4, overrides: Overrides): ThemeScale {
+  const replaced = overrides.replaced.get(definition.id);
+  const values: ThemeScaleValue[] = replaced
+    ? [...replaced].map(([value, css]) => ({ value, css, custom: true }))
+    : DEFAULTS[major][definition.id].map(([value, css]) => ({ value, css, custom: false }));
+
+  for (const [value, css] of overrides.extended.get(definition.id) ?? []) {
+    const existing = values.find((entry) => entry.value === value);
+    if (existing) {
+      Object.assign(existing, { css, custom: true });
+      continue;
+    }
+    // Keep full at the end of the radius scale
+    const last = values[values.length - 1];
+    const at = last?.value === 'full' ? values.length - 1 : values.length;
+    values.splice(at, 0, { value, css, custom: true });
+  }
+
+  if (definition.id === 'spacing' && overrides.spacingBase) {
+    for (const entry of values) {
+      if (!entry.custom && entry.value !== 'px') {
+        entry.css = `calc(${overrides.spacingBase} * ${entry.value})`;
+      }
+    }
+  }
+
+  const removed = overrides.removed.get(definition.id);
+  return {
+    id: definition.id,
+    label: definition.label,
+    utility: definition.utility,
+    values: removed ? values.filter((entry) => !removed.has(entry.value)) : values,
+  };
+}
+
+async function findConfigFile(root: string, configured: string | null): Promise<string | null> {
+  if (configured && (await fs.pathExists(configured))) return configured;
+  for (const name of CONFIG_NAMES) {
+    const configPath = path.join(root, name);
+    if (await fs.pathExists(configPath)) return configPath;
+  }
+  return null;
+}
+
+/**
+ * Loads the scales the project's Tailwind setup generates: tailwind.config
+ * for Tailwind 3 (and Tailwind 4 projects that load one with @config), the
+ * @theme block of the CSS entry for Tailwind 4, else Tailwind's defaults.
+ * Files that fail to read or parse fall back to the defaults.
+ */
+export async function loadTailwindTheme(root: string): Promise<TailwindTheme> {
+  const { tailwind } = await getProjectInfo(root);
+  const major = tailwind.major ?? 4;
+  let source: TailwindTheme['source'] = 'defaults';
+  let sourcePath: string | null = null;
+  let overrides = createOverrides();
+
+  try {
+    let configPath: string | null = null;
+    if (major === 3) {
+      configPath = await findConfigFile(root, tailwind.config);
+    } else {
+      const cssPath = await findThemeFile(root);
+      if (cssPath) {
+        const css = await fs.readFile(cssPath, 'utf-8');
+        const config = css.match(/@config\s+["']([^"']+)["']/);
+        if (config) {
+          configPath = path.resolve(path.dirname(cssPath), config[1]);
+        } else {
+          overrides = readCssOverrides(css);
+          source = 'css';
+          sourcePath = cssPath;
+        }
+      }
+    }
+
+    if (configPath && (await fs.pathExists(configPath))) {
+      overrides = readConfigOverrides(await fs.readFile(configPath, 'utf-8'), configPath);
+      source = 'config';
+      sourcePath = configPath;
+    }
+  } catch (error) {
+    logger.warn('Failed to read the Tailwind theme, using the defaults', error);
+    overrides = createOverrides();
+    source = 'defaults';
+    sourcePath = null;
+  }
+
+  return {
+    source,
+    path: sourcePath,
+    major,
+    dynamicSpacing: major === 4,
+    scales: DEFINITIONS.map((definition) => buildScale(definition, major, overrides)),
+  };
+}
+
+function getEditDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Tailwind 4 spacing and ring widths take any multiple of 0.25 and any whole number
+function isDynamicValue(theme: TailwindTheme, scaleId: string, value: string): boolean {
+  if (theme.major !== 4 || !/^\d+(\.\d+)?$/.test(value)) return false;
+  if (scaleId === 'spacing') return theme.dynamicSpacing && Number.isInteger(Number(value) * 4);
+  return scaleId === 'ring' && Number.isInteger(Number(value));
+}
+
+// The known value closest to a typo: numerically for numbers, else by spelling
+function suggestValue(value: string, known: string[]): string | undefined {
+  const numeric = Number(value);
+  const numbers = known.filter((candidate) => candidate !== '' && !Number.isNaN(Number(candidate)));
+  if (value !== '' && !Number.isNaN(numeric) && numbers.length > 0) {
+    return numbers.reduce((nearest, candidate) =>
+      Math.abs(Number(candidate) - numeric) < Math.abs(Number(nearest) - numeric)
+        ? candidate
+        : nearest
+    );
+  }
+
+  let nearest: { value: string; distance: number } | null = null;
+  for (const candidate of known) {
+    const distance = getEditDistance(value, candidate);
+    if (!nearest || distance < nearest.distance) nearest = { value: candidate, distance };
+  }
+  return nearest && nearest.distance <= Math.max(1, Math.floor(value.length / 2))
+    ? nearest.value
+    : undefined;
+}
+
+/**
+ * Checks a class against the theme. Returns the scale label and a
+ * suggestion for classes the theme does not generate, null for classes it
+ * does or that are not on a scale (colors, arbitrary values, other utilities).
+ */
+export function checkClass(
+  theme: TailwindTheme,
+  token: string
+): { scale: string; suggestion?: string } | null {
+  const parsed = parseClass(token);
+  // rounded-[6px], p-(--gutter): any value goes
+  if (parsed.arbitrary !== undefined || parsed.value.startsWith('(')) return null;
+
+  const definitions = DEFINITIONS.filter((definition) =>
+    definition.prefixes.includes(parsed.utility)
+  );
+  if (definitions.length === 0) return null;
+
+  const known: string[] = [];
+  for (const definition of definitions) {
+    if (isDynamicValue(theme, definition.id, parsed.value)) return null;
+    const scale = theme.scales.find((candidate) => candidate.id === definition.id);
+    known.push(...(scale?.values.map((entry) => entry.value) ?? []));
+    if (theme.major === 4) known.push(...(V4_STATIC[definition.id] ?? []));
+  }
+  known.push(...(KEYWORDS[parsed.utility] ?? []));
+  if (known.includes(parsed.value)) return null;
+
+  // Colors and other values share text-, shadow-, font- and ring-: only flag near misses
+  const strict = definitions.some((definition) => definition.strict);
+  const nearMiss = known.some((value) => value !== '' && getEditDistance(parsed.value, value) <= 1);
+  if (!strict && !nearMiss) return null;
+
+  const suggested = suggestValue(parsed.value, known);
+  return {
+    scale: definitions[0].label,
+    ...(suggested !== undefined && { suggestion: formatClass({ ...parsed, value: suggested }) }),
+  };
+}
+
+/**
+ * Lists the classes an edit introduces that the project's theme does not
+ * generate, such as rounded-lgg or p-13 on Tailwind 3. Classes the file
+ * already had are left alone, so only the edit's own typos are reported.
+ */
+export function findUnknownClasses(
+  theme: TailwindTheme,
+  before: string,
+  after: string,
+  fileName: string
+): UnknownClass[] {
+  const existing = new Set(
+    findClassStrings(before, fileName).flatMap((classString) => classString.classes)
+  );
+  const unknown: UnknownClass[] = [];
+  const seen = new Set<string>();
+
+  for (const classString of findClassStrings(after, fileName)) {
+    for (const className of classString.classes) {
+      if (existing.has(className)) continue;
+      const key = `${classString.line}:${className}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const result = checkClass(theme, className);
+      if (result) unknown.push({ line: classString.line, className, ...result });
+    }
+  }
+  return unknown;
+}
@@ -120,7 +120,7 @@ export async function deleteTemplate(id: string): Promise<boolean> {
 const DEFAULT_TEMPLATES: Array<{ name: string; rules: TemplateRule[] }> = [
   {
     name: 'Remove cursor-pointer',
-    rules: [{ find: '\\s*cursor-pointer', replace: '', isRegex: true }],
+    rules: [{ find: 'cursor-pointer', replace: '', isRegex: false, matchMode: 'token' }],
   },
   {
     name: 'Add focus rings',
@@ -130,12 +130,13 @@ const DEFAULT_TEMPLATES: Array<{ name: string; rules: TemplateRule[] }> = [
         replace:
           'focus:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2',
         isRegex: false,
+        matchMode: 'token',
       },
     ],
   },
   {
     name: 'Update to rounded-lg',
-    rules: [{ find: 'rounded-md', replace: 'rounded-lg', isRegex: false }],
+    rules: [{ find: 'rounded-md', replace: 'rounded-lg', isRegex: false, matchMode: 'token' }],
   },
 ];
 
@@ -0,0 +1,569 @@
+import path from 'node:path';
+import fs from 'fs-extra';
+import type {
+  ColorFormat,
+  ContrastCheck,
+  FileFingerprint,
+  Preview,
+  Theme,
+  ThemeChange,
+  ThemeEdit,
+  ThemeScope,
+  ThemeToken,
+  ThemeTransformRequest,
+} from '../types/index.js';
+import {
+  adjustLightness,
+  ensureContrast,
+  formatColor,
+  getContrastRatio,
+  type Oklch,
+  parseColor,
+  shiftHue,
+} from './color.js';
+import { createPreview } from './differ.js';
+import { applyApprovedChanges, createFingerprint, type ModifyResult } from './modifier.js';
+import { getProjectInfo } from './project.js';
+
+// Where shadcn's templates put the CSS entry when components.json does not say
+const CSS_CANDIDATES = [
+  'app/globals.css',
+  'src/app/globals.css',
+  'styles/globals.css',
+  'src/styles/globals.css',
+  'src/index.css',
+  'src/globals.css',
+];
+
+const SCOPES: ThemeScope[] = ['light', 'dark', 'theme'];
+
+// The selector written for a scope that has no block yet
+const SCOPE_SELECTORS: Record<ThemeScope, string> = {
+  light: ':root',
+  dark: '.dark',
+  theme: '@theme inline',
+};
+
+interface CssBlock {
+  selector: string;
+  scope: ThemeScope;
+  // Offsets of the block's contents, between its braces
+  start: number;
+  end: number;
+}
+
+interface Declaration {
+  token: ThemeToken;
+  block: CssBlock;
+  // Offsets of the value, without surrounding whitespace
+  start: number;
+  end: number;
+}
+
+/**
+ * The Tailwind CSS entry file: tailwind.css from components.json, else the
+ * first of shadcn's usual locations that exists. Null when there is none.
+ */
+export async function findThemeFile(root: string): Promise<string | null> {
+  const { tailwind } = await getProjectInfo(root);
+  if (tailwind.css && (await fs.pathExists(tailwind.css))) return tailwind.css;
+
+  for (const candidate of CSS_CANDIDATES) {
+    const cssPath = path.join(root, candidate);
+    if (await fs.pathExists(cssPath)) return cssPath;
+  }
+  return null;
+}
+
+// Blanks out comments, keeping offsets and line numbers intact
+function maskComments(css: string): string {
+  return css.replace(/\/\*[\s\S]*?\*\//g, (comment) => comment.replace(/[^\n]/g, ' '));
+}
+
+function getScope(selector: string): ThemeScope | null {
+  if (selector.startsWith('@theme')) return 'theme';
+  if (/(^|[\s,])\.dark\b/.test(selector)) return 'dark';
+  if (selector.includes(':root')) return 'light';
+  return null;
+}
+
+// Blocks that declare theme variables, at any depth, e.g. :root inside @layer base
+function findBlocks(css: string): CssBlock[] {
+  const blocks: CssBlock[] = [];
+  const open: Array<{ selector: string; start: number }> = [];
+  let preludeStart = 0;
+
+  for (let i = 0; i < css.length; i++) {
+    const char = css[i];
+    if (char === '{') {
+      open.push({ selector: css.slice(preludeStart, i).trim(), start: i + 1 });
+      preludeStart = i + 1;
+    } else if (char === '}') {
+      const block = open.pop();
+      const scope = block && getScope(block.selector);
+      if (block && scope)
+        blocks.push({ selector: block.selector, scope, start: block.start, end: i });
+      preludeStart = i + 1;
+    } else if (char === ';') {
+      preludeStart = i + 1;
+    }
+  }
+
+  return blocks.sort((a, b) => a.start - b.start);
+}
+
+function getColorFormat(value: string): ColorFormat | undefined {
+  if (/^oklch\(/i.test(value)) return 'oklch';
+  if (/^hsla?\(/i.test(value)) return 'hsl';
+  if (/^rgba?\(/i.test(value)) return 'rgb';
+  if (/^#[\da-f]{3,8}$/i.test(value)) return 'hex';
+  if (/^-?[\d.]+(deg)?\s+[\d.]+%\s+[\d.]+%(\s*\/\s*[\d.]+%?)?$/.test(value)) return 'hsl-channels';
+  return undefined;
+}
+
+function classifyValue(value: string): Pick<ThemeToken, 'kind' | 'colorFormat'> {
+  const colorFormat = getColorFormat(value);
+  if (colorFormat) return { kind: 'color', colorFormat };
+  if (/^var\(/.test(value)) return { kind: 'reference' };
+  if (/^-?[\d.]+(px|rem|em|%)?$/.test(value) || /^calc\(/.test(value)) return { kind: 'length' };
+  return { kind: 'other' };
+}
+
+function getLine(css: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset; i++) if (css[i] === '\n') line++;
+  return line;
+}
+
+// The block's own declarations; those of nested blocks belong to those blocks
+function findDeclarations(css: string, masked: string, block: CssBlock): Declaration[] {
+  let body = masked.slice(block.start, block.end);
+  let depth = 0;
+  body = body.replace(/[{}]|[^{}]+/g, (part) => {
+    if (part === '{') depth++;
+    const nested = depth > 0;
+    if (part === '}') depth--;
+    return nested ? ' '.repeat(part.length) : part;
+  });
+
+  const declarations: Declaration[] = [];
+  const pattern = /(--[\w-]+)\s*:\s*([^;]*?)\s*(?:;|$)/dg;
+  for (let match = pattern.exec(body); match; match = pattern.exec(body)) {
+    const indices = match.indices?.[2];
+    if (!indices || match[2] === '') continue;
+    const start = block.start + indices[0];
+    const value = css.slice(start, block.start + indices[1]);
+    declarations.push({
+      token: {
+        name: match[1],
+        scope: block.scope,
+        selector: block.selector,
+        value,
+        line: getLine(css, start),
+        ...classifyValue(value),
+      },
+      block,
+      start,
+      end: start + value.length,
+    });
+  }
+  return declarations;
+}
+
+function parseDeclarations(css: string): { blocks: CssBlock[]; declarations: Declaration[] } {
+  const masked = maskComments(css);
+  const blocks = findBlocks(masked);
+  return {
+    blocks,
+    declarations: blocks.flatMap((block) => findDeclarations(css, masked, block)),
+  };
+}
+
+/**
+ * Lists the variables declared in :root, .dark and @theme blocks of a CSS
+ * file, in file order, with their values classified as colors (HSL, OKLCH,
+ * RGB, hex), lengths or references to other variables.
+ */
+export function parseTheme(css: string): ThemeToken[] {
+  return parseDeclarations(css).declarations.map((declaration) => declaration.token);
+}
+
+// Indentation of the block's last line with content, for appended declarations
+function getIndent(css: string, block: CssBlock): string {
+  const lines = css.slice(block.start, block.end).split('\n');
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (lines[i].trim()) return lines[i].match(/^\s*/)?.[0] ?? '  ';
+  }
+  return '  ';
+}
+
+/**
+ * Applies variable edits to CSS content. Existing declarations keep their
+ * position and formatting; variables a scope lacks are added at the end of
+ * its first block, or in a new block at the end of the file.
+ */
+export function applyThemeEdits(
+  css: string,
+  edits: ThemeEdit[]
+): { content: string; changes: ThemeChange[] } {
+  const { blocks, declarations } = parseDeclarations(css);
+  const splices: Array<{ start: number; end: number; text: string }> = [];
+  const appended = new Map<ThemeScope, string[]>();
+  const changes: ThemeChange[] = [];
+
+  for (const edit of edits) {
+    const value = edit.value.trim();
+    // The last declaration wins in CSS, so that is the one to change
+    const existing = declarations.filter(
+      (declaration) =>
+        declaration.token.scope === edit.scope && declaration.token.name === edit.name
+    );
+    const declaration = existing[existing.length - 1];
+
+    if (declaration) {
+      if (declaration.token.value === value) continue;
+      splices.push({ start: declaration.start, end: declaration.end, text: value });
+      changes.push({ ...edit, value, before: declaration.token.value });
+      continue;
+    }
+
+    appended.set(edit.scope, [...(appended.get(edit.scope) ?? []), `${edit.name}: ${value};`]);
+    changes.push({ ...edit, value, before: null });
+  }
+
+  let suffix = '';
+  for (const [scope, lines] of appended) {
+    const block = blocks.find((candidate) => candidate.scope === scope);
+    if (!block) {
+      suffix += `\n${SCOPE_SELECTORS[scope]} {\n${lines.map((line) => `  ${line}`).join('\n')}\n}\n`;
+      continue;
+    }
+
+    // After the block's last declaration, before the whitespace that closes it
+    const body = css.slice(block.start, block.end);
+    const insertAt = block.start + body.trimEnd().length;
+    const indent = getIndent(css, block);
+    const text = lines.map((line) => `\n${indent}${line}`).join('');
+    const needsSemicolon = body.trim() !== '' && !body.trimEnd().endsWith(';') ? ';' : '';
+    splices.push({ start: insertAt, end: insertAt, text: `${needsSemicolon}${text}` });
+  }
+
+  let content = css;
+  // Splice from the end so earlier offsets stay valid
+  for (const splice of splices.sort((a, b) => b.start - a.start)) {
+    content = content.slice(0, splice.start) + splice.text + content.slice(splice.end);
+  }
+  if (suffix) content = `${content.trimEnd()}\n${suffix}`;
+
+  return { content, changes };
+}
+
+const DEFAULT_CONTRAST = 4.5;
+
+// Variable patterns match whole names, with * standing for any run of characters
+function matchesToken(name: string, patterns: string[] | undefined): boolean {
+  if (!patterns) return true;
+  return patterns.some((pattern) => {
+    const source = pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${source}$`).test(name);
+  });
+}
+
+// The variables in effect in a scope: .dark and @theme fall back to :root
+function getScopeTokens(tokens: ThemeToken[], scope: ThemeScope): Map<string, ThemeToken> {
+  const resolved = new Map<string, ThemeToken>();
+  for (const token of tokens) {
+    if (token.scope === 'light' || token.scope === scope) resolved.set(token.name, token);
+  }
+  return resolved;
+}
+
+// Follows var() references to the color a variable ends up as
+function resolveColor(name: string, scopeTokens: Map<string, ThemeToken>, depth = 0): Oklch | null {
+  const token = scopeTokens.get(name);
+  if (!token || depth > 8) return null;
+  if (token.kind === 'reference') {
+    const reference = token.value.match(/^var\(\s*(--[\w-]+)/);
+    return reference ? resolveColor(reference[1], scopeTokens, depth + 1) : null;
+  }
+  return token.colorFormat ? parseColor(token.value, token.colorFormat) : null;
+}
+
+// --foreground goes with --background, any other --x-foreground with --x
+function getBackgroundName(foreground: string): string | null {
+  if (foreground === '--foreground') return '--background';
+  return foreground.endsWith('-foreground') ? foreground.slice(0, -'-foreground'.length) : null;
+}
+
+interface ContrastPair {
+  scope: ThemeScope;
+  foreground: string;
+  background: string;
+  foregroundColor: Oklch;
+  backgroundColor: Oklch;
+}
+
+function findContrastPairs(tokens: ThemeToken[], scope: ThemeScope): ContrastPair[] {
+  const scopeTokens = getScopeTokens(tokens, scope);
+  const pairs: ContrastPair[] = [];
+
+  for (const foreground of scopeTokens.keys()) {
+    const background = getBackgroundName(foreground);
+    if (!background || !scopeTokens.has(background)) continue;
+    const foregroundColor = resolveColor(foreground, scopeTokens);
+    const backgroundColor = resolveColor(background, scopeTokens);
+    if (foregroundColor && backgroundColor) {
+      pairs.push({ scope, foreground, background, foregroundColor, backgroundColor });
+    }
+  }
+  return pairs;
+}
+
+// Light and, when the file has a .dark block, dark mode
+function getContrastScopes(tokens: ThemeToken[]): ThemeScope[] {
+  return tokens.some((token) => token.scope === 'dark') ? ['light', 'dark'] : ['light'];
+}
+
+/**
+ * Rates every --x-foreground against its --x background in light and dark
+ * mode. With the tokens from before an edit, each check carries its old
+ * ratio so the preview can show what the edit does to contrast.
+ */
+export function checkContrast(tokens: ThemeToken[], previous?: ThemeToken[]): ContrastCheck[] {
+  const before = new Map<string, number>();
+  if (previous) {
+    for (const scope of getContrastScopes(previous)) {
+      for (const pair of findContrastPairs(previous, scope)) {
+        before.set(
+          `${scope}:${pair.foreground}`,
+          getContrastRatio(pair.foregroundColor, pair.backgroundColor)
+        );
+      }
+    }
+  }
+
+  return getContrastScopes(tokens).flatMap((scope) =>
+    findContrastPairs(tokens, scope).map((pair) => {
+      const ratio = getContrastRatio(pair.foregroundColor, pair.backgroundColor);
+      return {
+        scope,
+        foreground: pair.foreground,
+        background: pair.background,
+        ratio: Math.round(ratio * 100) / 100,
+        before: before.has(`${scope}:${pair.foreground}`)
+          ? Math.round((before.get(`${scope}:${pair.foreground}`) as number) * 100) / 100
+          : null,
+        passes: ratio >= DEFAULT_CONTRAST,
+      };
+    })
+  );
+}
+
+function isSameColor(a: Oklch, b: Oklch): boolean {
+  return a.l === b.l && a.c === b.c && a.h === b.h && a.alpha === b.alpha;
+}
+
+// Foregrounds adjusted to their background; inherited ones are added to the scope
+function transformContrast(
+  tokens: ThemeToken[],
+  request: ThemeTransformRequest,
+  ratio: number
+): ThemeEdit[] {
+  const edits: ThemeEdit[] = [];
+  const scopes = (request.scopes ?? SCOPES).filter((scope) => scope !== 'theme');
+
+  for (const scope of scopes) {
+    if (scope === 'dark' && !getContrastScopes(tokens).includes('dark')) continue;
+    const scopeTokens = getScopeTokens(tokens, scope);
+
+    for (const pair of findContrastPairs(tokens, scope)) {
+      if (!matchesToken(pair.foreground, request.tokens)) continue;
+      // References are kept: they say which color to use, not how it looks
+      const token = scopeTokens.get(pair.foreground);
+      if (!token?.colorFormat) continue;
+
+      const adjusted = ensureContrast(pair.foregroundColor, pair.backgroundColor, ratio);
+      if (isSameColor(adjusted, pair.foregroundColor)) continue;
+      edits.push({
+        name: pair.foreground,
+        scope,
+        value: formatColor(adjusted, token.colorFormat),
+      });
+    }
+  }
+  return edits;
+}
+
+/**
+ * Turns a color transform into variable edits: shifts hues, changes
+ * lightness, converts formats or fixes foreground contrast for the color
+ * variables it targets. Variables the transform leaves as they are get no edit.
+ */
+export function transformTheme(tokens: ThemeToken[], request: ThemeTransformRequest): ThemeEdit[] {
+  const { transform } = request;
+  if (transform.type === 'contrast') {
+    return transformContrast(tokens, request, transform.ratio ?? DEFAULT_CONTRAST);
+  }
+
+  const scopes = request.scopes ?? SCOPES;
+  // The last declaration of a variable in a scope is the one in effect, and the one edited
+  const targets = new Map<string, ThemeToken>();
+  for (const token of tokens) {
+    if (!token.colorFormat || !scopes.includes(token.scope)) continue;
+    if (matchesToken(token.name, request.tokens))
+      targets.set(`${token.scope}:${token.name}`, token);
+  }
+
+  const edits: ThemeEdit[] = [];
+  for (const token of targets.values()) {
+    const format = token.colorFormat as ColorFormat;
+    const color = parseColor(token.value, format);
+    if (!color) continue;
+
+    let next = color;
+    let nextFormat = format;
+    if (transform.type === 'hue-shift') next = shiftHue(color, transform.degrees);
+    else if (transform.type === 'lighten') next = adjustLightness(color, transform.amount);
+    else nextFormat = transform.format;
+
+    if (nextFormat === format && isSameColor(next, color)) continue;
+    edits.push({ name: token.name, scope: token.scope, value: formatColor(next, nextFormat) });
+  }
+  return edits;
+}
+
+// The color format most of the file's colors are written in
+function getPrevailingFormat(tokens: ThemeToken[]): ColorFormat | undefined {
+  const counts = new Map<ColorFormat, number>();
+  for (const token of tokens) {
+    if (token.colorFormat) counts.set(token.colorFormat, (counts.get(token.colorFormat) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+/**
+ * Turns a theme snippet, such as the CSS the shadcn themes page exports,
+ * into edits for the project's theme file. Colors are written in the format
+ * the project already uses for the variable, or for most of its colors, so an
+ * OKLCH snippet still works in a Tailwind 3 file of bare HSL channels. Tailwind 3 has no @theme, so
+ * those variables are left out there.
+ */
+export function importThemeSnippet(
+  snippet: string,
+  projectTokens: ThemeToken[],
+  tailwindMajor: 3 | 4 | null
+): ThemeEdit[] {
+  const imported = new Map<string, ThemeToken>();
+  for (const token of parseTheme(snippet)) {
+    if (token.scope === 'theme' && tailwindMajor === 3) continue;
+    imported.set(`${token.scope}:${token.name}`, token);
+  }
+
+  const prevailing = getPrevailingFormat(projectTokens);
+  const edits: ThemeEdit[] = [];
+  for (const token of imported.values()) {
+    const value = token.value.replace(/\s+/g, ' ');
+    const current = getScopeTokens(projectTokens, token.scope).get(token.name);
+    const color = token.colorFormat ? parseColor(value, token.colorFormat) : null;
+    // New variables follow the rest of the file
+    const format = current ? current.colorFormat : prevailing;
+
+    const converted =
+      color && format && format !== token.colorFormat ? formatColor(color, format) : value;
+    edits.push({ name: token.name, scope: token.scope, value: converted });
+  }
+  return edits;
+}
+
+export async function loadTheme(root: string): Promise<Theme | null> {
+  const cssPath = await findThemeFile(root);
+  if (!cssPath) return null;
+  return { path: cssPath, tokens: parseTheme(await fs.readFile(cssPath, 'utf-8')) };
+}
+
+/**
+ * Computes the theme file after the edits without writing it. The preview
+ * carries the fingerprint an apply checks the file against, and the
+ * contrast of every foreground and background pair after the edits.
+ */
+export async function previewThemeEdits(
+  cssPath: string,
+  edits: ThemeEdit[]
+): Promise<{ preview: Preview; changes: ThemeChange[]; contrast: ContrastCheck[] }> {
+  const before = await fs.readFile(cssPath, 'utf-8');
+  const stats = await fs.stat(cssPath);
+  const { content, changes } = applyThemeEdits(before, edits);
+
+  return {
+    preview: {
+      ...createPreview(cssPath, before, content),
+      fingerprint: createFingerprint(before, stats.mtime),
+    },
+    changes,
+    contrast: checkContrast(parseTheme(content), parseTheme(before)),
+  };
+}
+
+/**
+ * Previews a color transform. The edits it computed are returned along with
+ * the preview, to be sent to apply as they are.
+ */
+export async function previewThemeTransform(
+  cssPath: string,
+  request: ThemeTransformRequest
+): Promise<{
+  edits: ThemeEdit[];
+  preview: Preview;
+  changes: ThemeChange[];
+  contrast: ContrastCheck[];
+}> {
+  const tokens = parseTheme(await fs.readFile(cssPath, 'utf-8'));
+  const edits = transformTheme(tokens, request);
+  return { edits, ...(await previewThemeEdits(cssPath, edits)) };
+}
+
+// Previews a theme snippet's edits; they are returned to be sent to apply as they are
+export async function previewThemeImport(
+  root: string,
+  cssPath: string,
+  snippet: string
+): Promise<{
+  edits: ThemeEdit[];
+  preview: Preview;
+  changes: ThemeChange[];
+  contrast: ContrastCheck[];
+}> {
+  const [content, { tailwind }] = await Promise.all([
+    fs.readFile(cssPath, 'utf-8'),
+    getProjectInfo(root),
+  ]);
+  const edits = importThemeSnippet(snippet, parseTheme(content), tailwind.major);
+  return { edits, ...(await previewThemeEdits(cssPath, edits)) };
+}
+
+/**
+ * Writes the edits through the same pipeline as component edits: refused
+ * when the file no longer matches the preview's fingerprint, backed up first.
+ */
+export async function applyThemeFileEdits(
+  cssPath: string,
+  edits: ThemeEdit[],
+  fingerprint?: FileFingerprint,
+  shouldBackup = true
+): Promise<{ result: ModifyResult; changes: ThemeChange[] }> {
+  const before = await fs.readFile(cssPath, 'utf-8');
+  const { content, changes } = applyThemeEdits(before, edits);
+  if (changes.length === 0) {
+    return { result: { success: true, modified: [], changes: 0 }, changes };
+  }
+
+  const result = await applyApprovedChanges(
+    [{ path: cssPath, after: content, fingerprint }],
+    undefined,
+    shouldBackup
+  );
+  return { result, changes };
+}
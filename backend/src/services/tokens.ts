@@ -0,0 +1,169 @@
+export interface ParsedClass {
+  // Variant prefixes in source order, e.g. ['dark', 'hover'] for dark:hover:bg-muted
+  variants: string[];
+  important: boolean;
+  negative: boolean;
+  // Utility and value, e.g. rounded-t + md, bg + red-500, rounded + [6px]
+  utility: string;
+  value: string;
+  // Contents of an arbitrary value, e.g. 6px for rounded-[6px]
+  arbitrary?: string;
+  // Opacity modifier, e.g. 50 for bg-primary/50
+  opacity?: string;
+}
+
+// Utilities whose name contains a dash, checked before splitting at the first dash
+const COMPOUND_UTILITIES = [
+  ...['t', 'r', 'b', 'l', 's', 'e', 'tl', 'tr', 'br', 'bl', 'ss', 'se', 'es', 'ee'].map(
+    (corner) => `rounded-${corner}`
+  ),
+  ...['x', 'y', 't', 'r', 'b', 'l', 's', 'e'].map((side) => `border-${side}`),
+  'gap-x',
+  'gap-y',
+  'space-x',
+  'space-y',
+  'min-w',
+  'max-w',
+  'min-h',
+  'max-h',
+  'inset-x',
+  'inset-y',
+  'ring-offset',
+  'outline-offset',
+  'underline-offset',
+  'translate-x',
+  'translate-y',
+  'scale-x',
+  'scale-y',
+  'skew-x',
+  'skew-y',
+  'overflow-x',
+  'overflow-y',
+  'line-clamp',
+  'grid-cols',
+  'grid-rows',
+  'col-span',
+  'row-span',
+  'auto-cols',
+  'auto-rows',
+  'pointer-events',
+  'drop-shadow',
+  'backdrop-blur',
+].sort((a, b) => b.length - a.length);
+
+// Utilities where a slash is a fraction (w-1/2), not an opacity modifier
+const FRACTION_UTILITIES = new Set([
+  'w',
+  'h',
+  'size',
+  'basis',
+  'inset',
+  'inset-x',
+  'inset-y',
+  'top',
+  'right',
+  'bottom',
+  'left',
+  'start',
+  'end',
+  'translate-x',
+  'translate-y',
+  'aspect',
+]);
+
+/**
+ * Splits a class at the colons that separate variants, ignoring colons
+ * inside brackets and parentheses such as data-[state=open] or [&:hover].
+ */
+function splitVariants(token: string): { variants: string[]; rest: string } {
+  const variants: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < token.length; i++) {
+    const char = token[i];
+    if (char === '[' || char === '(') depth++;
+    else if (char === ']' || char === ')') depth--;
+    else if (char === ':' && depth === 0) {
+      variants.push(token.slice(start, i));
+      start = i + 1;
+    }
+  }
+
+  return { variants, rest: token.slice(start) };
+}
+
+function splitUtility(base: string): { utility: string; value: string } {
+  const arbitraryStart = base.indexOf('-[');
+  if (arbitraryStart !== -1) {
+    return { utility: base.slice(0, arbitraryStart), value: base.slice(arbitraryStart + 1) };
+  }
+
+  for (const utility of COMPOUND_UTILITIES) {
+    if (base === utility) return { utility, value: '' };
+    if (base.startsWith(`${utility}-`)) return { utility, value: base.slice(utility.length + 1) };
+  }
+
+  const dash = base.indexOf('-');
+  if (dash === -1) return { utility: base, value: '' };
+  return { utility: base.slice(0, dash), value: base.slice(dash + 1) };
+}
+
+/**
+ * Parses a Tailwind class into its parts:
+ * sm:!-mt-[6px] -> variants [sm], important, negative, utility mt, value [6px]
+ */
+export function parseClass(token: string): ParsedClass {
+  const { variants, rest } = splitVariants(token);
+  let base = rest;
+
+  // Both !p-2 (v3) and p-2! (v4) mark a class as important
+  let important = false;
+  if (base.startsWith('!') || base.endsWith('!')) {
+    important = true;
+    base = base.startsWith('!') ? base.slice(1) : base.slice(0, -1);
+  }
+
+  const negative = base.startsWith('-');
+  if (negative) base = base.slice(1);
+
+  // A trailing /50 or /[.35] outside brackets is an opacity modifier unless it is a fraction
+  let opacity: string | undefined;
+  const slash = base.match(/\/(\[[^\]]+\]|[\w.]+)$/);
+  if (slash?.index !== undefined) {
+    const { utility } = splitUtility(base.slice(0, slash.index));
+    if (!FRACTION_UTILITIES.has(utility)) {
+      opacity = slash[1];
+      base = base.slice(0, slash.index);
+    }
+  }
+
+  const { utility, value } = splitUtility(base);
+  const arbitrary = value.match(/^\[(.+)\]$/)?.[1];
+
+  return { variants, important, negative, utility, value, arbitrary, opacity };
+}
+
+/**
+ * The class without variants, important flag, sign or opacity, e.g.
+ * rounded-md for sm:!rounded-md.
+ */
+export function getBaseClass(parsed: Pick<ParsedClass, 'utility' | 'value'>): string {
+  return parsed.value ? `${parsed.utility}-${parsed.value}` : parsed.utility;
+}
+
+export function formatClass(parsed: ParsedClass): string {
+  const variants = parsed.variants.map((variant) => `${variant}:`).join('');
+  const important = parsed.important ? '!' : '';
+  const negative = parsed.negative ? '-' : '';
+  const opacity = parsed.opacity ? `/${parsed.opacity}` : '';
+  return `${variants}${important}${negative}${getBaseClass(parsed)}${opacity}`;
+}
+
+/**
+ * Checks that a class carries every required variant prefix, e.g. ['dark']
+ * matches dark:bg-muted and dark:hover:bg-muted but not hover:bg-muted.
+ */
+export function hasVariants(parsed: ParsedClass, required: string[]): boolean {
+  return required.every((variant) => parsed.variants.includes(variant));
+}
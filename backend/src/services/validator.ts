@@ -0,0 +1,161 @@
+import path from 'node:path';
+import ts from 'typescript';
+import type { ValidationIssue } from '../types/index.js';
+
+const SCRIPT_EXTENSIONS = new Set(['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx']);
+
+export interface EditedFile {
+  path: string;
+  original: string;
+  content: string;
+}
+
+function toIssue(diagnostic: ts.Diagnostic, kind: ValidationIssue['kind']): ValidationIssue {
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+  if (!diagnostic.file || diagnostic.start === undefined) {
+    return { kind, line: 1, column: 1, message };
+  }
+
+  const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+  return { kind, line: line + 1, column: character + 1, message };
+}
+
+/**
+ * Parses a file as TypeScript (JSX for .tsx and .jsx) and returns its syntax
+ * errors. Files that are not scripts are never reported.
+ */
+export function checkSyntax(content: string, fileName: string): ValidationIssue[] {
+  if (!SCRIPT_EXTENSIONS.has(path.extname(fileName))) return [];
+
+  const { diagnostics = [] } = ts.transpileModule(content, {
+    fileName,
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.Preserve },
+  });
+  return diagnostics.map((diagnostic) => toIssue(diagnostic, 'syntax'));
+}
+
+/**
+ * Returns the syntax errors an edit introduces. Files that did not parse
+ * before the edit are not blocked, since the edit did not break them.
+ */
+export function findSyntaxIssues(file: EditedFile): ValidationIssue[] {
+  if (checkSyntax(file.original, file.path).length > 0) return [];
+  return checkSyntax(file.content, file.path);
+}
+
+function diagnosticKey(diagnostic: ts.Diagnostic): string {
+  return `${diagnostic.code}:${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`;
+}
+
+/**
+ * Type-checks edited files with the tsconfig.json found from the project
+ * root, reading the edited files from memory. Only errors the edit adds are
+ * returned, so a project with existing type errors can still be edited.
+ * Returns null when there is no tsconfig.json.
+ */
+export function typeCheckFiles(
+  files: EditedFile[],
+  projectRoot: string
+): Map<string, ValidationIssue[]> | null {
+  const configPath = ts.findConfigFile(projectRoot, ts.sys.fileExists);
+  if (!configPath) return null;
+
+  const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+  const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath));
+  const options: ts.CompilerOptions = { ...parsed.options, noEmit: true };
+  const rootNames = files.map((file) => path.resolve(file.path));
+
+  // Unchanged dependencies are parsed once and shared by both programs
+  const sourceFiles = new Map<string, ts.SourceFile | undefined>();
+  let overrides = new Map<string, string>();
+  const host = ts.createCompilerHost(options, true);
+  const getSourceFile = host.getSourceFile;
+  const readFile = host.readFile;
+
+  host.readFile = (fileName) => overrides.get(path.resolve(fileName)) ?? readFile(fileName);
+  host.getSourceFile = (fileName, languageVersion, onError) => {
+    const text = overrides.get(path.resolve(fileName));
+    if (text !== undefined) return ts.createSourceFile(fileName, text, languageVersion, true);
+    if (!sourceFiles.has(fileName)) {
+      sourceFiles.set(fileName, getSourceFile(fileName, languageVersion, onError));
+    }
+    return sourceFiles.get(fileName);
+  };
+
+  const collect = (program: ts.Program): Map<string, ts.Diagnostic[]> => {
+    const diagnostics = new Map<string, ts.Diagnostic[]>();
+    for (const fileName of rootNames) {
+      const sourceFile = program.getSourceFile(fileName);
+      diagnostics.set(
+        fileName,
+        sourceFile
+          ? [
+              ...program.getSyntacticDiagnostics(sourceFile),
+              ...program.getSemanticDiagnostics(sourceFile),
+            ]
+          : []
+      );
+    }
+    return diagnostics;
+  };
+
+  overrides = new Map(files.map((file) => [path.resolve(file.path), file.original]));
+  const before = collect(ts.createProgram(rootNames, options, host));
+  overrides = new Map(files.map((file) => [path.resolve(file.path), file.content]));
+  const after = collect(ts.createProgram(rootNames, options, host));
+
+  const issues = new Map<string, ValidationIssue[]>();
+  for (const file of files) {
+    const fileName = path.resolve(file.path);
+    const existing = new Map<string, number>();
+    for (const diagnostic of before.get(fileName) ?? []) {
+      const key = diagnosticKey(diagnostic);
+      existing.set(key, (existing.get(key) ?? 0) + 1);
+    }
+
+    const added = (after.get(fileName) ?? []).filter((diagnostic) => {
+      const key = diagnosticKey(diagnostic);
+      const count = existing.get(key) ?? 0;
+      if (count === 0) return true;
+      existing.set(key, count - 1);
+      return false;
+    });
+    if (added.length > 0) {
+      issues.set(
+        file.path,
+        added.map((diagnostic) => toIssue(diagnostic, 'type'))
+      );
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Finds the syntax errors, and with a project root also the type errors,
+ * that edits introduce. Files that no longer parse are not type-checked.
+ */
+export function validateEdits(
+  files: EditedFile[],
+  typeCheckRoot?: string
+): Map<string, ValidationIssue[]> {
+  const issues = new Map<string, ValidationIssue[]>();
+  for (const file of files) {
+    const syntaxIssues = findSyntaxIssues(file);
+    if (syntaxIssues.length > 0) issues.set(file.path, syntaxIssues);
+  }
+
+  const parseable = files.filter((file) => !issues.has(file.path));
+  if (typeCheckRoot && parseable.length > 0) {
+    for (const [filePath, typeIssues] of typeCheckFiles(parseable, typeCheckRoot) ?? []) {
+      issues.set(filePath, typeIssues);
+    }
+  }
+
+  return issues;
+}
+
+export function formatIssue(issue: ValidationIssue): string {
+  return `Line ${issue.line}, column ${issue.column}: ${issue.message}`;
+}
@@ -0,0 +1,119 @@
+import { EventEmitter } from 'node:events';
+import path from 'node:path';
+import fs from 'fs-extra';
+import type { ComponentEvent } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { isScannedDirectory, refreshCachedComponent } from './scanner.js';
+
+// Editors often write a file in several steps; only the settled state is reported
+const DEBOUNCE_MS = 100;
+// Events this soon after the tweaker wrote a file are its own write
+const OWN_WRITE_WINDOW_MS = 2000;
+
+/**
+ * Emits a 'component' event with a ComponentEvent whenever a scanned
+ * component file is added, changed or deleted.
+ */
+export const componentEvents = new EventEmitter();
+// One listener per connected client
+componentEvents.setMaxListeners(0);
+
+const watchers = new Map<string, fs.FSWatcher>();
+const pending = new Map<string, NodeJS.Timeout>();
+const ownWrites = new Map<string, number>();
+
+/**
+ * Records files the tweaker is about to write, so the watcher reports them as
+ * internal changes rather than edits made in another editor.
+ */
+export function markOwnWrites(paths: string[]): void {
+  const now = Date.now();
+  for (const filePath of paths) ownWrites.set(path.resolve(filePath), now);
+}
+
+function isOwnWrite(filePath: string): boolean {
+  const writtenAt = ownWrites.get(filePath);
+  if (writtenAt === undefined) return false;
+  if (Date.now() - writtenAt < OWN_WRITE_WINDOW_MS) return true;
+  ownWrites.delete(filePath);
+  return false;
+}
+
+async function handleChange(filePath: string): Promise<void> {
+  const stats = await fs.stat(filePath).catch(() => null);
+
+  if (!stats && watchers.has(filePath)) {
+    watchers.get(filePath)?.close();
+    watchers.delete(filePath);
+  }
+
+  if (stats?.isDirectory()) {
+    // A new folder: watch it and report the files it arrived with
+    if (isScannedDirectory(path.basename(filePath)) && !watchers.has(filePath)) {
+      await watchTree(filePath);
+      for (const entry of await fs.readdir(filePath)) schedule(path.join(filePath, entry));
+    }
+    return;
+  }
+
+  const event = await refreshCachedComponent(filePath);
+  if (!event) return;
+
+  const componentEvent: ComponentEvent = { ...event, external: !isOwnWrite(filePath) };
+  componentEvents.emit('component', componentEvent);
+}
+
+function schedule(filePath: string): void {
+  clearTimeout(pending.get(filePath));
+  pending.set(
+    filePath,
+    setTimeout(() => {
+      pending.delete(filePath);
+      handleChange(filePath).catch((error) => {
+        logger.warn(`Failed to refresh ${filePath}`, error);
+      });
+    }, DEBOUNCE_MS)
+  );
+}
+
+// fs.watch is not recursive on Linux before Node 20, so every folder gets its own watcher
+async function watchTree(dir: string): Promise<void> {
+  if (watchers.has(dir)) return;
+
+  try {
+    const watcher = fs.watch(dir, (_eventType, fileName) => {
+      if (fileName) schedule(path.join(dir, fileName.toString()));
+    });
+    watcher.on('error', (error) => {
+      logger.warn(`Stopped watching ${dir}`, error);
+      watcher.close();
+      watchers.delete(dir);
+    });
+    watchers.set(dir, watcher);
+  } catch (error) {
+    logger.warn(`Failed to watch ${dir}`, error);
+    return;
+  }
+
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  for (const entry of entries) {
+    if (entry.isDirectory() && isScannedDirectory(entry.name)) {
+      await watchTree(path.join(dir, entry.name));
+    }
+  }
+}
+
+/**
+ * Watches the scanned roots for changes, replacing the watchers of a
+ * previous scan. Safe to call after every scan.
+ */
+export async function watchComponentRoots(roots: string[]): Promise<void> {
+  for (const [dir, watcher] of watchers) {
+    if (!roots.some((root) => !path.relative(root, dir).startsWith('..'))) {
+      watcher.close();
+      watchers.delete(dir);
+    }
+  }
+
+  for (const root of roots) await watchTree(root);
+}
@@ -4,23 +4,119 @@ export interface ComponentMetadata {
   lastModified: string;
   classCount?: number;
   exports?: string[];
+  imports?: string[];
+}
+
+// Where a class string sits: a plain className, a cn()/clsx() argument or part of a cva()
+export type ClassContext =
+  | 'attribute'
+  | 'property'
+  | 'call'
+  | 'cva-base'
+  | 'cva-variant'
+  | 'cva-compound';
+
+export interface ClassLocation {
+  value: string;
+  classes: string[];
+  // Offsets of the string contents (excluding quotes); line and column are 1-based
+  start: number;
+  end: number;
+  line: number;
+  column: number;
+  context: ClassContext;
+  // Innermost helper call, e.g. cn or cva
+  call?: string;
+  // cva variant group and option, e.g. size.sm
+  variant?: string;
+  // JSX element the className belongs to
+  element?: string;
+  // Top-level declaration that owns the string, e.g. Button or buttonVariants
+  owner?: string;
+}
+
+// A cva() call: its variant groups with their option names, e.g. size: ['default', 'sm']
+export interface CvaDefinition {
+  name: string;
+  line: number;
+  groups: Record<string, string[]>;
+  defaultVariants: Record<string, string>;
 }
 
 export interface Component {
+  // Path relative to the project, stable across scans and unique across roots
+  id: string;
   name: string;
   path: string;
   content?: string;
   classes?: string[];
+  classLocations?: ClassLocation[];
+  variants?: CvaDefinition[];
   metadata: ComponentMetadata;
 }
 
+// What the scan cache keeps per file, so unchanged files are never parsed twice
+export interface ParsedFile {
+  lines: number;
+  classCount: number;
+  classes: string[];
+  classLocations: ClassLocation[];
+  variants: CvaDefinition[];
+  exports: string[];
+  imports: string[];
+}
+
 export interface ScanResult {
   success: boolean;
   count: number;
   directory: string;
+  // Every scanned root, directory being the first
+  directories: string[];
   components: Component[];
 }
 
+// A component file added, changed or deleted on disk while the app runs
+export interface ComponentEvent {
+  type: 'add' | 'change' | 'delete';
+  id: string;
+  path: string;
+  // The fresh component for add and change events
+  component?: Component;
+  // False when the tweaker wrote the file itself, e.g. an apply or a restore
+  external: boolean;
+}
+
+// A class dropped because a later class in the same list overrides it
+export interface ConflictResolution {
+  line: number;
+  removed: string;
+  kept: string;
+}
+
+// Identifies the file contents a preview was computed from
+export interface FileFingerprint {
+  hash: string;
+  mtime: string;
+}
+
+// A parse or type error an edit would introduce, 1-based like editors show it
+export interface ValidationIssue {
+  kind: 'syntax' | 'type';
+  line: number;
+  column: number;
+  message: string;
+}
+
+// A block of changed lines with context; lines keep their ' ', '-' or '+' marker
+export interface DiffHunk {
+  id: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];
+}
+
 export interface Preview {
   path: string;
   before: string;
@@ -28,6 +124,43 @@ export interface Preview {
   diff: string;
   changes: number;
   lineNumbers: number[];
+  hunks: DiffHunk[];
+  conflicts?: ConflictResolution[];
+  fingerprint?: FileFingerprint;
+  // Present when the edited file would no longer parse or type-check
+  issues?: ValidationIssue[];
+  // Classes the edit introduces that the project's Tailwind theme does not generate
+  unknownClasses?: UnknownClass[];
+}
+
+// 'text' replaces anywhere in the file, 'token' only whole classes in class strings
+export type MatchMode = 'text' | 'token';
+
+// variantPath scopes a rule to cva variants: <component>.<group>.<option>, e.g.
+// button.variant.outline or *.size.sm (any segment may be *)
+
+export type ScaleDirection = 'up' | 'down';
+
+// Moves classes along a Tailwind scale (rounded-md -> rounded-lg) instead of find/replace.
+// percent resizes numeric scales such as spacing and snaps to the nearest entry.
+export interface ScaleShift {
+  scale: string;
+  direction: ScaleDirection;
+  steps?: number;
+  percent?: number;
+  // Tailwind major whose values to step through; the project's when omitted
+  tailwind?: 3 | 4;
+}
+
+// Renames classes for a new Tailwind major version instead of find/replace
+export type Migration = 'tailwind-v4';
+
+// Renames and adds classes in the one class string starting at line:column (1-based)
+export interface ClassEdit {
+  line: number;
+  column: number;
+  rename?: Record<string, string>;
+  add?: string[];
 }
 
 export interface EditRequest {
@@ -35,10 +168,70 @@ export interface EditRequest {
   find: string;
   replace: string;
   isRegex: boolean;
+  matchMode?: MatchMode;
+  variantPath?: string;
+  scaleShift?: ScaleShift;
+  migration?: Migration;
+  classEdit?: ClassEdit;
+  // Only touch classes carrying all of these variants, e.g. ['dark']
+  prefixes?: string[];
+}
+
+// A capture group of a regex match; start and end are offsets into the match text
+export interface MatchGroup {
+  index: number;
+  name?: string;
+  text: string;
+  start: number;
+  end: number;
+}
+
+// One place a rule matches, with what it would be replaced by
+export interface RuleMatch {
+  path: string;
+  line: number;
+  column: number;
+  text: string;
+  replacement: string;
+  groups: MatchGroup[];
+  // The source line the match starts on
+  lineText: string;
+}
+
+// The first matches of a rule; total only covers the files searched before the limit was hit
+export interface MatchesResult {
+  matches: RuleMatch[];
+  total: number;
+  // False when the search stopped at the limit before reaching every file
+  complete: boolean;
+  // Files that could not be read or searched
+  skipped: Array<{ path: string; error: string }>;
+}
+
+// One reviewed file: either the exact content to write or the hunk ids to keep
+export interface ApprovedChange {
+  path: string;
+  after?: string;
+  hunks?: string[];
+  fingerprint?: FileFingerprint;
+}
+
+export interface ApplyApprovedRequest {
+  changes: ApprovedChange[];
+  // Needed to recompute the change when hunks are given
+  rule?: TemplateRule;
+  createBackup?: boolean;
 }
 
 export interface ApplyRequest extends EditRequest {
   createBackup?: boolean;
+  // Fingerprints from the preview, keyed by path; only these files are written
+  fingerprints?: Record<string, FileFingerprint>;
+}
+
+export interface MatchesRequest extends EditRequest {
+  // Number of matches to return across all files
+  limit?: number;
 }
 
 export interface BatchActionRequest {
@@ -51,6 +244,13 @@ export interface TemplateRule {
   find: string;
   replace: string;
   isRegex: boolean;
+  matchMode?: MatchMode;
+  variantPath?: string;
+  scaleShift?: ScaleShift;
+  migration?: Migration;
+  classEdit?: ClassEdit;
+  // Only touch classes carrying all of these variants, e.g. ['dark']
+  prefixes?: string[];
 }
 
 export interface Template {
@@ -85,12 +285,349 @@ export interface ApiResponse<T = unknown> {
   };
 }
 
+// Where one class is used, per component
+export interface ClassUsageComponent {
+  id: string;
+  name: string;
+  path: string;
+  count: number;
+  locations: { line: number; column: number }[];
+}
+
+export interface ClassUsage {
+  // The class as written, e.g. hover:bg-muted
+  className: string;
+  // Variant prefixes joined with ":", empty for none
+  variants: string;
+  count: number;
+  components: ClassUsageComponent[];
+}
+
+// A utility family such as rounded, text-size or bg-color
+export interface ClassFamily {
+  family: string;
+  count: number;
+  classes: ClassUsage[];
+}
+
+export interface ClassInventory {
+  components: number;
+  totalClasses: number;
+  uniqueClasses: number;
+  families: ClassFamily[];
+}
+
+// How serious an analyzer finding is
+export type Severity = 'error' | 'warning' | 'info';
+
+// A team's style policy, from stylePolicy in .shadcn-tweaker.json. Class
+// patterns may use * as a wildcard, e.g. focus-visible:ring-*. A fix names
+// the batch action that resolves a finding, e.g. remove-class
+export interface PolicyFix {
+  action: string;
+  options?: Record<string, string>;
+}
+
+// Only these classes may be used from a utility family, ignoring variants
+export interface AllowedClassesRule {
+  family: string;
+  classes: string[];
+  severity?: Severity;
+  message?: string;
+}
+
+// A class string with a class matching `when` must also have each of `require`
+export interface RequiredClassesRule {
+  when: string;
+  require: string[];
+  severity?: Severity;
+  message?: string;
+  fix?: PolicyFix;
+}
+
+export interface BannedClassRule {
+  class: string;
+  severity?: Severity;
+  message?: string;
+  fix?: PolicyFix;
+}
+
+export interface StylePolicy {
+  allowed?: AllowedClassesRule[];
+  required?: RequiredClassesRule[];
+  banned?: BannedClassRule[];
+}
+
+export interface PolicyFinding {
+  rule: 'allowed' | 'required' | 'banned';
+  severity: Severity;
+  message: string;
+  className: string;
+  componentId: string;
+  path: string;
+  line: number;
+  column: number;
+  // Runs through POST /api/edit/batch-action with the finding's path
+  fix?: PolicyFix & { name: string };
+}
+
+export interface PolicyReport {
+  // false when the project has no stylePolicy, so there was nothing to check
+  configured: boolean;
+  components: number;
+  counts: Record<Severity, number>;
+  findings: PolicyFinding[];
+}
+
+export type A11yCheck =
+  | 'outline-without-indicator'
+  | 'focus-not-visible'
+  | 'missing-disabled'
+  | 'missing-aria-invalid'
+  | 'ring-offset'
+  | 'motion-reduce';
+
+// An accessibility problem in one class string
+export interface A11yFinding {
+  check: A11yCheck;
+  severity: Severity;
+  message: string;
+  // The classes at fault, e.g. focus:ring-2
+  classes: string[];
+  componentId: string;
+  path: string;
+  line: number;
+  column: number;
+  // Rewrites only this class string; previewed and applied like any rule
+  fix?: { name: string; rule: TemplateRule };
+}
+
+export interface A11yReport {
+  components: number;
+  counts: Record<Severity, number>;
+  findings: A11yFinding[];
+}
+
+// A class the migration renames, e.g. shadow-sm -> shadow-xs. to is empty for
+// opacity utilities merged into their color (bg-opacity-50 -> bg-primary/50)
+export interface MigrationChange {
+  from: string;
+  to: string;
+  count: number;
+}
+
+export interface ComponentMigration {
+  componentId: string;
+  path: string;
+  changes: MigrationChange[];
+  // Classes that need a hand edit, such as bg-opacity-50 with no bg color beside it
+  unresolved: string[];
+}
+
+export interface MigrationReport {
+  tailwindMajor: number | null;
+  components: number;
+  // Only components the migration changes or cannot fully migrate
+  pending: ComponentMigration[];
+  // Components skipped because they already use Tailwind 4 names
+  migrated: number;
+  totalChanges: number;
+}
+
+// shadcn's components.json, as written by `shadcn init`
+export interface ShadcnConfig {
+  style?: string;
+  rsc?: boolean;
+  tsx?: boolean;
+  tailwind?: {
+    config?: string;
+    css?: string;
+    baseColor?: string;
+    cssVariables?: boolean;
+    prefix?: string;
+  };
+  aliases?: {
+    components?: string;
+    utils?: string;
+    ui?: string;
+    lib?: string;
+    hooks?: string;
+  };
+  iconLibrary?: string;
+}
+
+export interface TailwindSetup {
+  // Installed version, else the version range declared in package.json
+  version: string | null;
+  major: 3 | 4 | null;
+  config: string | null;
+  css: string | null;
+  baseColor: string | null;
+  cssVariables: boolean;
+  prefix: string;
+}
+
+export interface ProjectInfo {
+  root: string;
+  // null when the project has no components.json
+  componentsJson: ShadcnConfig | null;
+  style: string | null;
+  tsx: boolean;
+  iconLibrary: string | null;
+  // Each alias resolved through the tsconfig paths to an absolute directory
+  aliases: Record<string, string>;
+  uiDirectory: string | null;
+  tailwind: TailwindSetup;
+}
+
+// One value of a theme scale, e.g. lg of rounded-lg. value is '' for the bare
+// utility (rounded, shadow) and css null when it cannot be read statically
+export interface ThemeScaleValue {
+  value: string;
+  css: string | null;
+  // Declared or overridden by the project rather than a Tailwind default
+  custom: boolean;
+}
+
+export interface ThemeScale {
+  id: string;
+  label: string;
+  // The utility the values apply to, e.g. rounded for rounded-lg
+  utility: string;
+  values: ThemeScaleValue[];
+}
+
+// The scales the project's Tailwind setup generates utilities for, read from
+// tailwind.config (Tailwind 3, or @config) or the CSS @theme block (Tailwind 4)
+export interface TailwindTheme {
+  source: 'config' | 'css' | 'defaults';
+  path: string | null;
+  major: 3 | 4;
+  // Tailwind 4 generates spacing utilities for any multiple of --spacing
+  dynamicSpacing: boolean;
+  scales: ThemeScale[];
+}
+
+// A class an edit introduces that the project's theme does not generate
+export interface UnknownClass {
+  line: number;
+  className: string;
+  // Label of the scale the class belongs to, e.g. Border Radius
+  scale: string;
+  suggestion?: string;
+}
+
+// CSS variables of the Tailwind CSS entry file. light is :root, dark is .dark
+// and theme is Tailwind 4's @theme (inline) block
+export type ThemeScope = 'light' | 'dark' | 'theme';
+
+// hsl-channels is shadcn's Tailwind 3 format without hsl(), e.g. 222.2 84% 4.9%
+export type ColorFormat = 'hsl' | 'hsl-channels' | 'oklch' | 'rgb' | 'hex';
+
+export interface ThemeToken {
+  name: string;
+  scope: ThemeScope;
+  // The block's selector, e.g. :root or @theme inline
+  selector: string;
+  value: string;
+  line: number;
+  kind: 'color' | 'length' | 'reference' | 'other';
+  colorFormat?: ColorFormat;
+}
+
+export interface Theme {
+  path: string;
+  tokens: ThemeToken[];
+}
+
+// Sets a variable in a scope, adding it when the scope does not declare it yet
+export interface ThemeEdit {
+  name: string;
+  scope: ThemeScope;
+  value: string;
+}
+
+export interface ThemeChange extends ThemeEdit {
+  // null for a variable the edit adds
+  before: string | null;
+}
+
+// A bulk change to theme colors, computed in OKLCH
+export type ColorTransform =
+  | { type: 'hue-shift'; degrees: number }
+  // Lightness in percentage points, negative to darken
+  | { type: 'lighten'; amount: number }
+  | { type: 'convert'; format: ColorFormat }
+  // Moves each --x-foreground to reach the ratio against --x; 4.5 when omitted
+  | { type: 'contrast'; ratio?: number };
+
+export interface ThemeTransformRequest {
+  transform: ColorTransform;
+  // Variable names to change, * matching any run of characters; every color when omitted
+  tokens?: string[];
+  // Scopes to change; all of them when omitted
+  scopes?: ThemeScope[];
+}
+
+// A complete look: theme variable values plus class rules for the components
+export interface ThemePreset {
+  id: string;
+  name: string;
+  description: string;
+  theme: ThemeEdit[];
+  rules: TemplateRule[];
+}
+
+export interface PresetPreviewRequest {
+  // Components the rules run on; every scanned component when omitted
+  componentPaths?: string[];
+}
+
+// A theme CSS snippet, e.g. from the shadcn themes page: pasted text or a .css file to read
+export interface ThemeImportRequest {
+  css?: string;
+  file?: string;
+}
+
+// WCAG contrast between a --x-foreground variable and its --x background
+export interface ContrastCheck {
+  scope: ThemeScope;
+  foreground: string;
+  background: string;
+  ratio: number;
+  // The ratio before the edits; null when the pair was not two colors yet
+  before: number | null;
+  // Meets 4.5:1, WCAG AA for body text
+  passes: boolean;
+}
+
+export interface ThemeEditRequest {
+  edits: ThemeEdit[];
+}
+
+export interface ThemeApplyRequest extends ThemeEditRequest {
+  createBackup?: boolean;
+  // From the preview; the apply is refused if the file changed since
+  fingerprint?: FileFingerprint;
+}
+
 // Configuration for the application (stored in .shadcn-tweaker/config.json)
 export interface Config {
   componentDirectory: string;
+  // Directories scanned for components; overrides componentDirectory when set
+  componentRoots: string[];
+  // Globs relative to each root selecting component files
+  include: string[];
+  exclude: string[];
   backupRetentionDays: number;
   maxBackups: number;
   autoBackup: boolean;
+  // Parse every modified file as TSX and refuse to write files that no longer parse
   validateAfterEdit: boolean;
+  // Also type-check touched files against the project's tsconfig.json
+  typeCheckAfterEdit: boolean;
+  // Run the project's Prettier or Biome over edited files before they are previewed or written
+  formatAfterEdit: boolean;
   port: number;
+  stylePolicy?: StylePolicy;
 }
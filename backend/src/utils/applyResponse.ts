@@ -0,0 +1,70 @@
+import type { Response } from 'express';
+import type { ModifyResult } from '../services/modifier.js';
+
+/**
+ * Sends the error response of a failed apply: 409 when files changed since
+ * the preview, 422 when the edit would not compile, 500 when writing failed,
+ * telling apart writes that were rolled back, nothing written and files left
+ * modified. Returns false, sending nothing, when the apply succeeded.
+ */
+export function sendApplyFailure(
+  res: Response,
+  result: ModifyResult,
+  action = 'apply changes'
+): boolean {
+  const count = result.errors?.length ?? 0;
+  const files = `${count} file${count === 1 ? '' : 's'}`;
+
+  if (result.stale) {
+    res.status(409).json({
+      success: false,
+      error: {
+        message: `${files} changed on disk since the preview. Preview again before applying.`,
+        code: 'STALE_PREVIEW',
+      },
+      errors: result.errors,
+    });
+    return true;
+  }
+
+  if (result.invalid) {
+    res.status(422).json({
+      success: false,
+      error: {
+        message: `${files} would not compile after this edit, nothing was written: ${result.errors?.[0]?.error}`,
+        code: 'VALIDATION_FAILED',
+      },
+      errors: result.errors,
+    });
+    return true;
+  }
+
+  if (result.success) return false;
+
+  const reason = result.errors?.[0]?.error ?? 'Unknown error';
+  let error = {
+    message: `Failed to ${action}, nothing was written: ${reason}`,
+    code: 'APPLY_ERROR',
+  };
+  if (result.rolledBack) {
+    error = {
+      message: `Failed to ${action}, all changes were rolled back: ${reason}`,
+      code: 'APPLY_ROLLED_BACK',
+    };
+  } else if (result.modified.length > 0) {
+    error = {
+      message: `Failed to ${action} and could not roll back ${result.modified.length} modified files: ${reason}`,
+      code: 'APPLY_PARTIAL_ERROR',
+    };
+  }
+
+  res.status(500).json({
+    success: false,
+    error,
+    rolledBack: result.rolledBack ?? false,
+    modified: result.modified,
+    errors: result.errors,
+    backupId: result.backupId,
+  });
+  return true;
+}
@@ -0,0 +1,70 @@
+// ============================================
+// Glob Matching
+// ============================================
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
+
+// The RegExp source of a glob; each {a,b} option is translated the same way
+function translateGlob(pattern: string): string {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" also matches no folder at all
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i);
+      if (end === -1) {
+        source += '\\{';
+        continue;
+      }
+      const options = pattern.slice(i + 1, end).split(',');
+      source += `(?:${options.map(translateGlob).join('|')})`;
+      i = end;
+    } else {
+      source += escapeRegex(char);
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Converts a glob to a RegExp matched against a relative, slash-separated
+ * path. Supports `**` (any number of folders), `*` and `?` (within one
+ * folder) and `{a,b}` alternatives. A glob without a slash matches the file
+ * name in any folder, like in .gitignore.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob.includes('/') ? glob.replace(/^\.?\//, '') : `**/${glob}`;
+  return new RegExp(`^${translateGlob(pattern)}$`);
+}
+
+// Whether a config value is a glob that converts to a RegExp
+export function isValidGlob(glob: unknown): glob is string {
+  if (typeof glob !== 'string' || !glob) return false;
+  try {
+    globToRegExp(glob);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function matchesAnyGlob(relativePath: string, globs: RegExp[]): boolean {
+  return globs.some((glob) => glob.test(relativePath));
+}
@@ -1,9 +1,24 @@
 import path from 'node:path';
+import { getScale, getScaleShiftError, SCALES } from '../services/scales.js';
 import type {
+  ApplyApprovedRequest,
   ApplyRequest,
   BatchActionRequest,
+  ClassEdit,
+  ColorTransform,
   EditRequest,
+  FileFingerprint,
+  MatchesRequest,
+  MatchMode,
+  Migration,
+  PresetPreviewRequest,
+  ScaleShift,
   TemplateRule,
+  ThemeApplyRequest,
+  ThemeEdit,
+  ThemeEditRequest,
+  ThemeImportRequest,
+  ThemeTransformRequest,
 } from '../types/index.js';
 
 // ============================================
@@ -136,6 +151,89 @@ export function validateTemplateId(templateId: string): { valid: boolean; error?
 // Request Body Validation
 // ============================================
 
+function isOptionalMatchMode(value: unknown): value is MatchMode | undefined {
+  return value === undefined || value === 'text' || value === 'token';
+}
+
+// <component>.<group>.<option>, where any segment may be a * wildcard
+function isOptionalVariantPath(value: unknown): value is string | undefined {
+  return (
+    value === undefined || (typeof value === 'string' && /^[\w*-]+\.[\w*-]+\.[\w*-]+$/.test(value))
+  );
+}
+
+function isOptionalPrefixes(value: unknown): value is string[] | undefined {
+  return (
+    value === undefined ||
+    (Array.isArray(value) && value.every((p) => typeof p === 'string' && /^\S+$/.test(p)))
+  );
+}
+
+function isOptionalScaleShift(value: unknown): value is ScaleShift | undefined {
+  if (value === undefined) return true;
+  if (typeof value !== 'object' || value === null) return false;
+
+  const shift = value as Record<string, unknown>;
+  if (typeof shift.scale !== 'string' || !getScale(shift.scale)) return false;
+  if (shift.direction !== 'up' && shift.direction !== 'down') return false;
+  if (shift.steps !== undefined && !(Number.isInteger(shift.steps) && Number(shift.steps) > 0)) {
+    return false;
+  }
+  if (
+    shift.percent !== undefined &&
+    !(typeof shift.percent === 'number' && shift.percent > 0 && shift.percent <= 100)
+  ) {
+    return false;
+  }
+  if (shift.tailwind !== undefined && shift.tailwind !== 3 && shift.tailwind !== 4) return false;
+
+  return getScaleShiftError(shift as unknown as ScaleShift) === null;
+}
+
+function isOptionalMigration(value: unknown): value is Migration | undefined {
+  return value === undefined || value === 'tailwind-v4';
+}
+
+function isClassToken(value: unknown): value is string {
+  return typeof value === 'string' && /^\S+$/.test(value);
+}
+
+function isOptionalClassEdit(value: unknown): value is ClassEdit | undefined {
+  if (value === undefined) return true;
+  if (typeof value !== 'object' || value === null) return false;
+
+  const edit = value as Record<string, unknown>;
+  if (!Number.isInteger(edit.line) || (edit.line as number) < 1) return false;
+  if (!Number.isInteger(edit.column) || (edit.column as number) < 1) return false;
+  if (edit.rename !== undefined) {
+    if (typeof edit.rename !== 'object' || edit.rename === null) return false;
+    const entries = Object.entries(edit.rename);
+    if (!entries.every(([from, to]) => isClassToken(from) && isClassToken(to))) return false;
+  }
+  if (edit.add !== undefined && !(Array.isArray(edit.add) && edit.add.every(isClassToken))) {
+    return false;
+  }
+  return true;
+}
+
+function isFingerprint(value: unknown): value is FileFingerprint {
+  if (typeof value !== 'object' || value === null) return false;
+  const fingerprint = value as Record<string, unknown>;
+  return typeof fingerprint.hash === 'string' && typeof fingerprint.mtime === 'string';
+}
+
+/**
+ * Validates preview fingerprints sent with an apply: an object keyed by
+ * component path whose values carry the content hash and mtime.
+ */
+export function isOptionalFingerprints(
+  value: unknown
+): value is Record<string, FileFingerprint> | undefined {
+  if (value === undefined) return true;
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  return Object.values(value).every(isFingerprint);
+}
+
 export function validateEditRequest(body: unknown): body is EditRequest {
   if (typeof body !== 'object' || body === null) return false;
 
@@ -146,6 +244,12 @@ export function validateEditRequest(body: unknown): body is EditRequest {
   if (typeof req.find !== 'string') return false;
   if (typeof req.replace !== 'string') return false;
   if (typeof req.isRegex !== 'boolean') return false;
+  if (!isOptionalMatchMode(req.matchMode)) return false;
+  if (!isOptionalVariantPath(req.variantPath)) return false;
+  if (!isOptionalScaleShift(req.scaleShift)) return false;
+  if (!isOptionalMigration(req.migration)) return false;
+  if (!isOptionalClassEdit(req.classEdit)) return false;
+  if (!isOptionalPrefixes(req.prefixes)) return false;
 
   return true;
 }
@@ -157,6 +261,52 @@ export function validateApplyRequest(body: unknown): body is ApplyRequest {
   if (req.createBackup !== undefined && typeof req.createBackup !== 'boolean') {
     return false;
   }
+  if (!isOptionalFingerprints(req.fingerprints)) return false;
+
+  return true;
+}
+
+export function validateMatchesRequest(body: unknown): body is MatchesRequest {
+  if (!validateEditRequest(body)) return false;
+
+  const { limit } = body as unknown as Record<string, unknown>;
+  return (
+    limit === undefined || (Number.isInteger(limit) && Number(limit) > 0 && Number(limit) <= 100)
+  );
+}
+
+function isApprovedChange(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null) return false;
+
+  const change = value as Record<string, unknown>;
+  if (typeof change.path !== 'string') return false;
+  // Exactly one of the approved content or the accepted hunk ids
+  if ((change.after === undefined) === (change.hunks === undefined)) return false;
+  if (change.after !== undefined && typeof change.after !== 'string') return false;
+  if (
+    change.hunks !== undefined &&
+    !(Array.isArray(change.hunks) && change.hunks.every((id) => typeof id === 'string'))
+  ) {
+    return false;
+  }
+  if (change.fingerprint !== undefined && !isFingerprint(change.fingerprint)) return false;
+
+  return true;
+}
+
+export function validateApplyApprovedRequest(body: unknown): body is ApplyApprovedRequest {
+  if (typeof body !== 'object' || body === null) return false;
+
+  const req = body as Record<string, unknown>;
+
+  if (!Array.isArray(req.changes) || req.changes.length === 0) return false;
+  if (!req.changes.every(isApprovedChange)) return false;
+  if (req.rule !== undefined && !validateTemplateRules([req.rule])) return false;
+  // Hunk ids only mean something together with the rule that produced them
+  if (req.rule === undefined && req.changes.some((change) => change.hunks !== undefined)) {
+    return false;
+  }
+  if (req.createBackup !== undefined && typeof req.createBackup !== 'boolean') return false;
 
   return true;
 }
@@ -176,13 +326,151 @@ export function validateBatchActionRequest(body: unknown): body is BatchActionRe
     'update-border-radius',
     'remove-class',
     'replace-class',
+    'migrate-tailwind-v4',
+    ...SCALES.map((scale) => `step-${scale.id}`),
   ];
 
   if (!validActions.includes(req.action)) return false;
 
+  if (req.action.startsWith('step-')) {
+    const options = (req.options ?? {}) as Record<string, unknown>;
+    if (options.direction !== 'up' && options.direction !== 'down') return false;
+    if (options.steps !== undefined && !/^[1-9]\d*$/.test(String(options.steps))) return false;
+    if (options.percent !== undefined && !/^\d+(\.\d+)?$/.test(String(options.percent))) {
+      return false;
+    }
+  }
+
   return true;
 }
 
+const THEME_SCOPES = new Set(['light', 'dark', 'theme']);
+
+/**
+ * A variable edit: a custom property name such as --primary, and a value
+ * that cannot end the declaration or block it is written into.
+ */
+function isThemeEdit(value: unknown): value is ThemeEdit {
+  if (typeof value !== 'object' || value === null) return false;
+  const edit = value as Record<string, unknown>;
+  return (
+    typeof edit.name === 'string' &&
+    /^--[\w-]+$/.test(edit.name) &&
+    typeof edit.scope === 'string' &&
+    THEME_SCOPES.has(edit.scope) &&
+    typeof edit.value === 'string' &&
+    edit.value.trim() !== '' &&
+    !/[;{}\n]/.test(edit.value)
+  );
+}
+
+export function validateThemeEditRequest(body: unknown): body is ThemeEditRequest {
+  if (typeof body !== 'object' || body === null) return false;
+
+  const req = body as Record<string, unknown>;
+
+  if (!Array.isArray(req.edits) || req.edits.length === 0) return false;
+  if (!req.edits.every(isThemeEdit)) return false;
+
+  return true;
+}
+
+export function validateThemeApplyRequest(body: unknown): body is ThemeApplyRequest {
+  if (!validateThemeEditRequest(body)) return false;
+
+  const req = body as unknown as Record<string, unknown>;
+
+  if (req.fingerprint !== undefined && !isFingerprint(req.fingerprint)) return false;
+  if (req.createBackup !== undefined && typeof req.createBackup !== 'boolean') return false;
+
+  return true;
+}
+
+const COLOR_FORMATS = new Set(['hsl', 'hsl-channels', 'oklch', 'rgb', 'hex']);
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isColorTransform(value: unknown): value is ColorTransform {
+  if (typeof value !== 'object' || value === null) return false;
+  const transform = value as Record<string, unknown>;
+
+  switch (transform.type) {
+    case 'hue-shift':
+      return isFiniteNumber(transform.degrees);
+    case 'lighten':
+      return isFiniteNumber(transform.amount) && Math.abs(transform.amount) <= 100;
+    case 'convert':
+      return typeof transform.format === 'string' && COLOR_FORMATS.has(transform.format);
+    case 'contrast':
+      return (
+        transform.ratio === undefined ||
+        (isFiniteNumber(transform.ratio) && transform.ratio >= 1 && transform.ratio <= 21)
+      );
+    default:
+      return false;
+  }
+}
+
+export function validateThemeTransformRequest(body: unknown): body is ThemeTransformRequest {
+  if (typeof body !== 'object' || body === null) return false;
+
+  const req = body as Record<string, unknown>;
+
+  if (!isColorTransform(req.transform)) return false;
+  if (
+    req.tokens !== undefined &&
+    (!Array.isArray(req.tokens) ||
+      !req.tokens.every((token) => typeof token === 'string' && /^--[\w*-]+$/.test(token)))
+  ) {
+    return false;
+  }
+  if (
+    req.scopes !== undefined &&
+    (!Array.isArray(req.scopes) ||
+      !req.scopes.every((scope) => typeof scope === 'string' && THEME_SCOPES.has(scope)))
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+export function validatePresetPreviewRequest(body: unknown): body is PresetPreviewRequest {
+  if (typeof body !== 'object' || body === null) return false;
+
+  const req = body as Record<string, unknown>;
+
+  if (
+    req.componentPaths !== undefined &&
+    (!Array.isArray(req.componentPaths) ||
+      !req.componentPaths.every((componentPath) => typeof componentPath === 'string'))
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+// Large enough for any theme, small enough to keep a stray paste out
+const MAX_THEME_SNIPPET = 100_000;
+
+export function validateThemeImportRequest(body: unknown): body is ThemeImportRequest {
+  if (typeof body !== 'object' || body === null) return false;
+
+  const req = body as Record<string, unknown>;
+
+  // Exactly one source
+  if ((req.css === undefined) === (req.file === undefined)) return false;
+  if (req.css !== undefined) {
+    return (
+      typeof req.css === 'string' && req.css.trim() !== '' && req.css.length <= MAX_THEME_SNIPPET
+    );
+  }
+  return typeof req.file === 'string' && req.file.endsWith('.css');
+}
+
 export function validateTemplateRules(rules: unknown): rules is TemplateRule[] {
   if (!Array.isArray(rules)) return false;
 
@@ -190,7 +478,15 @@ export function validateTemplateRules(rules: unknown): rules is TemplateRule[] {
     if (typeof rule !== 'object' || rule === null) return false;
     const r = rule as Record<string, unknown>;
     return (
-      typeof r.find === 'string' && typeof r.replace === 'string' && typeof r.isRegex === 'boolean'
+      typeof r.find === 'string' &&
+      typeof r.replace === 'string' &&
+      typeof r.isRegex === 'boolean' &&
+      isOptionalMatchMode(r.matchMode) &&
+      isOptionalVariantPath(r.variantPath) &&
+      isOptionalScaleShift(r.scaleShift) &&
+      isOptionalMigration(r.migration) &&
+      isOptionalClassEdit(r.classEdit) &&
+      isOptionalPrefixes(r.prefixes)
     );
   });
 }
@@ -219,6 +515,7 @@ function isRegexDangerous(pattern: string): boolean {
     /(\.\*){2,}/, // Multiple .* in sequence
     /(\.\+){2,}/, // Multiple .+ in sequence
     /\([^)]+\|[^)]+\)[+*]/, // Alternation with quantifier
+    /(\\[wWdDsS]|\[[^\]]*\])[+*]\??\1[+*]/, // Adjacent overlapping quantifiers like \w+\w+
   ];
 
   for (const dangerous of dangerousPatterns) {
@@ -242,7 +539,6 @@ function isRegexDangerous(pattern: string): boolean {
  * Disallows:
  * - backreferences (e.g. \1, \2, ...)
  * - lookarounds (e.g. (?=...), (?!...), (?<=...), (?<!...))
- * - named capture groups (e.g. (?<name>...))
  * - alternation (|) outside of character classes
  * - inline flags (e.g. (?i))
  * - nested quantifiers and overly large repetition ranges
@@ -258,8 +554,8 @@ function isRegexSafe(pattern: string): boolean {
     return false;
   }
 
-  // Disallow lookarounds and other (?...) constructs, including named groups
-  if (/\(\?/.test(pattern)) {
+  // Disallow lookarounds and other (?...) constructs, except named groups for $<name>
+  if (/\(\?(?!<[A-Za-z_]\w*>)/.test(pattern)) {
     return false;
   }
 
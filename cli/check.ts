@@ -0,0 +1,61 @@
+import chalk from 'chalk';
+
+// The parts of the backend's PolicyReport the command prints
+interface PolicyFinding {
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  componentId: string;
+  line: number;
+  column: number;
+  fix?: { name: string };
+}
+
+interface PolicyReport {
+  configured: boolean;
+  components: number;
+  counts: Record<PolicyFinding['severity'], number>;
+  findings: PolicyFinding[];
+}
+
+const SEVERITY_COLORS = {
+  error: chalk.red,
+  warning: chalk.yellow,
+  info: chalk.cyan,
+};
+
+async function getJson<T>(url: string): Promise<T> {
+  const response = await fetch(url);
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error?.message || `Request failed: ${url}`);
+  return data as T;
+}
+
+/**
+ * Scans the components through a running backend and prints the style
+ * policy report, as JSON with json set. Returns the exit code: 1 when there
+ * are error findings.
+ */
+export async function runCheck(backendUrl: string, json: boolean): Promise<number> {
+  await getJson(`${backendUrl}/api/components/scan`);
+  const { report } = await getJson<{ report: PolicyReport }>(`${backendUrl}/api/analysis/policy`);
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else if (!report.configured) {
+    console.log(chalk.gray('No stylePolicy in .shadcn-tweaker.json, nothing to check.'));
+  } else {
+    for (const finding of report.findings) {
+      const color = SEVERITY_COLORS[finding.severity];
+      const fix = finding.fix ? chalk.gray(` (fix: ${finding.fix.name})`) : '';
+      console.log(
+        `${color(finding.severity.padEnd(7))} ${finding.componentId}:${finding.line}:${finding.column}  ${finding.message}${fix}`
+      );
+    }
+    const { error, warning, info } = report.counts;
+    console.log(
+      `\n${report.components} components: ${chalk.red(`${error} errors`)}, ${chalk.yellow(`${warning} warnings`)}, ${chalk.cyan(`${info} info`)}`
+    );
+  }
+
+  return report.counts.error > 0 ? 1 : 0;
+}
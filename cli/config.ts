@@ -1,11 +1,19 @@
 import path from 'node:path';
 import fs from 'fs-extra';
+import { findShadcnUiPath } from './shadcn.js';
 
 export interface ShadcnTweakerConfig {
   componentsPath: string;
+  // Several directories to scan instead of componentsPath, e.g. in a monorepo
+  componentRoots?: string[];
+  include?: string[];
+  exclude?: string[];
   backupsDir: string;
   templatesDir: string;
   maxBackups: number;
+  validateAfterEdit: boolean;
+  typeCheckAfterEdit: boolean;
+  formatAfterEdit: boolean;
 }
 
 const CONFIG_FILENAME = '.shadcn-tweaker.json';
@@ -15,6 +23,9 @@ const DEFAULT_CONFIG: ShadcnTweakerConfig = {
   backupsDir: './.shadcn-tweaker/backups',
   templatesDir: './.shadcn-tweaker/templates',
   maxBackups: 20,
+  validateAfterEdit: true,
+  typeCheckAfterEdit: false,
+  formatAfterEdit: false,
 };
 
 export function getConfigPath(cwd: string = process.cwd()): string {
@@ -81,7 +92,13 @@ export async function resolveComponentsPath(
     }
   }
 
-  // Priority 3: Auto-detect common paths
+  // Priority 3: The ui alias from shadcn's components.json
+  const shadcnPath = await findShadcnUiPath(cwd);
+  if (shadcnPath && (await fs.pathExists(path.join(cwd, shadcnPath)))) {
+    return path.join(cwd, shadcnPath);
+  }
+
+  // Priority 4: Auto-detect common paths
   const commonPaths = [
     'src/components/ui',
     'components/ui',
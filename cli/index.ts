@@ -4,6 +4,7 @@ import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import chalk from 'chalk';
 import { Command } from 'commander';
+import { runCheck } from './check.js';
 import { configExists, resolveComponentsPath } from './config.js';
 import { runInit } from './init.js';
 
@@ -49,6 +50,10 @@ interface CLIOptions {
   port?: string;
 }
 
+interface CheckOptions extends CLIOptions {
+  json?: boolean;
+}
+
 async function startBackend(
   port: number,
   componentsPath: string | null,
@@ -118,6 +123,32 @@ async function main() {
       await runInit(process.cwd());
     });
 
+  program
+    .command('check')
+    .description('Check components against the stylePolicy in .shadcn-tweaker.json')
+    .option('-p, --path <path>', 'Path to shadcn components directory')
+    .option('--port <port>', 'Backend server port (default: auto-detect)')
+    .option('--json', 'Print the report as JSON')
+    .action(async (options: CheckOptions) => {
+      const cwd = process.cwd();
+      const componentsPath = await resolveComponentsPath(options.path, cwd);
+      const port = options.port ? Number.parseInt(options.port, 10) : await findAvailablePort();
+      const backendUrl = `http://localhost:${port}`;
+
+      const backend = await startBackend(port, componentsPath, cwd);
+      if (!(await waitForServer(backendUrl))) {
+        console.error(chalk.red('Failed to start backend server'));
+        backend.kill();
+        process.exit(1);
+      }
+
+      try {
+        process.exitCode = await runCheck(backendUrl, options.json ?? false);
+      } finally {
+        backend.kill();
+      }
+    });
+
   program
     .option('-p, --path <path>', 'Path to shadcn components directory')
     .option('--port <port>', 'Backend server port (default: auto-detect)')
@@ -2,6 +2,7 @@ import path from 'node:path';
 import fs from 'fs-extra';
 import inquirer from 'inquirer';
 import { configExists, getDefaultConfig, type ShadcnTweakerConfig, saveConfig } from './config.js';
+import { findShadcnUiPath } from './shadcn.js';
 
 const COMMON_PATHS = [
   'src/components/ui',
@@ -12,10 +13,16 @@ const COMMON_PATHS = [
   'frontend/components/ui',
 ];
 
-async function detectExistingPaths(cwd: string): Promise<string[]> {
+// The ui directory from components.json comes first, then any common path that exists
+async function detectExistingPaths(cwd: string, shadcnPath: string | null): Promise<string[]> {
   const existing: string[] = [];
 
+  if (shadcnPath && (await fs.pathExists(path.join(cwd, shadcnPath)))) {
+    existing.push(shadcnPath);
+  }
+
   for (const p of COMMON_PATHS) {
+    if (p === shadcnPath) continue;
     const fullPath = path.join(cwd, p);
     if (await fs.pathExists(fullPath)) {
       existing.push(p);
@@ -52,7 +59,8 @@ export async function runInit(cwd: string): Promise<void> {
   }
 
   // Detect existing component directories
-  const existingPaths = await detectExistingPaths(cwd);
+  const shadcnPath = await findShadcnUiPath(cwd);
+  const existingPaths = await detectExistingPaths(cwd, shadcnPath);
   const defaults = getDefaultConfig();
 
   // Build choices for components path
@@ -61,8 +69,9 @@ export async function runInit(cwd: string): Promise<void> {
   for (const p of existingPaths) {
     const fullPath = path.join(cwd, p);
     const count = await countComponentFiles(fullPath);
+    const source = p === shadcnPath ? ', from components.json' : '';
     pathChoices.push({
-      name: `${p} (${count} component${count !== 1 ? 's' : ''} found)`,
+      name: `${p} (${count} component${count !== 1 ? 's' : ''} found${source})`,
       value: p,
     });
   }
@@ -122,13 +131,15 @@ export async function runInit(cwd: string): Promise<void> {
     {
       type: 'confirm',
       name: 'configureAdvanced',
-      message: 'Configure advanced settings (backup location, max backups)?',
+      message: 'Configure advanced settings (backup location, max backups, checks, formatting)?',
       default: false,
     },
   ]);
 
   let backupsDir = defaults.backupsDir;
   let maxBackups = defaults.maxBackups;
+  let typeCheckAfterEdit = defaults.typeCheckAfterEdit;
+  let formatAfterEdit = defaults.formatAfterEdit;
 
   if (configureAdvanced) {
     const advanced = await inquirer.prompt([
@@ -149,10 +160,24 @@ export async function runInit(cwd: string): Promise<void> {
           return true;
         },
       },
+      {
+        type: 'confirm',
+        name: 'typeCheckAfterEdit',
+        message: 'Type-check edited components with tsconfig.json before writing them?',
+        default: defaults.typeCheckAfterEdit,
+      },
+      {
+        type: 'confirm',
+        name: 'formatAfterEdit',
+        message: "Format edited components with the project's Prettier or Biome config?",
+        default: defaults.formatAfterEdit,
+      },
     ]);
 
     backupsDir = advanced.backupsDir;
     maxBackups = advanced.maxBackups;
+    typeCheckAfterEdit = advanced.typeCheckAfterEdit;
+    formatAfterEdit = advanced.formatAfterEdit;
   }
 
   // Create config
@@ -161,6 +186,9 @@ export async function runInit(cwd: string): Promise<void> {
     backupsDir,
     templatesDir: defaults.templatesDir,
     maxBackups,
+    validateAfterEdit: defaults.validateAfterEdit,
+    typeCheckAfterEdit,
+    formatAfterEdit,
   };
 
   await saveConfig(config, cwd);
@@ -0,0 +1,73 @@
+import path from 'node:path';
+import fs from 'fs-extra';
+import ts from 'typescript';
+
+export interface ComponentsJson {
+  style?: string;
+  aliases?: {
+    components?: string;
+    ui?: string;
+  };
+}
+
+export async function readComponentsJson(cwd: string): Promise<ComponentsJson | null> {
+  try {
+    return await fs.readJson(path.join(cwd, 'components.json'));
+  } catch {
+    return null;
+  }
+}
+
+const TSCONFIG_NAMES = ['tsconfig.json', 'tsconfig.app.json', 'jsconfig.json'];
+
+// Path mappings of every tsconfig found in cwd, with extends followed
+function readPathMappings(cwd: string): { baseUrl: string; paths: ts.MapLike<string[]> }[] {
+  const mappings: { baseUrl: string; paths: ts.MapLike<string[]> }[] = [];
+
+  for (const name of TSCONFIG_NAMES) {
+    const configPath = path.join(cwd, name);
+    if (!ts.sys.fileExists(configPath)) continue;
+
+    const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+    const { options } = ts.parseJsonConfigFileContent(config ?? {}, ts.sys, cwd);
+    if (options.paths) {
+      // Without a baseUrl, paths are relative to the tsconfig's directory
+      mappings.push({ baseUrl: options.baseUrl ?? path.dirname(configPath), paths: options.paths });
+    }
+  }
+
+  return mappings;
+}
+
+// "@/components/ui" -> "<cwd>/src/components/ui", resolved like the backend's project.ts
+function resolveAlias(alias: string, cwd: string): string {
+  for (const { baseUrl, paths } of readPathMappings(cwd)) {
+    for (const [pattern, targets] of Object.entries(paths)) {
+      const target = targets[0];
+      if (!target) continue;
+
+      if (pattern.endsWith('*')) {
+        const prefix = pattern.slice(0, -1);
+        if (alias.startsWith(prefix)) {
+          return path.resolve(baseUrl, target.replace('*', alias.slice(prefix.length)));
+        }
+      } else if (alias === pattern) {
+        return path.resolve(baseUrl, target);
+      }
+    }
+  }
+
+  return path.resolve(cwd, alias);
+}
+
+/**
+ * Where shadcn adds ui components according to components.json, as a path
+ * relative to cwd. Null without a components.json or ui alias.
+ */
+export async function findShadcnUiPath(cwd: string): Promise<string | null> {
+  const { aliases } = (await readComponentsJson(cwd)) ?? {};
+  const uiAlias = aliases?.ui ?? (aliases?.components ? `${aliases.components}/ui` : null);
+  if (!uiAlias) return null;
+
+  return path.relative(cwd, resolveAlias(uiAlias, cwd)) || '.';
+}
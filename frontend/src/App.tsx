@@ -1,6 +1,8 @@
 import { Box, Text, useApp, useInput } from 'ink';
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { A11yAudit } from './components/A11yAudit.js';
 import { BackupBrowser } from './components/BackupBrowser.js';
+import { ClassInventory } from './components/ClassInventory.js';
 import { ComponentList } from './components/ComponentList.js';
 import { ComponentView } from './components/ComponentView.js';
 import { Dashboard } from './components/Dashboard.js';
@@ -8,9 +10,12 @@ import { Editor } from './components/Editor.js';
 import { HelpScreen } from './components/HelpScreen.js';
 import { PreviewView } from './components/Preview.js';
 import { StatusBar } from './components/StatusBar.js';
+import { StyleReport } from './components/StyleReport.js';
+import { TailwindMigration } from './components/TailwindMigration.js';
 import { TemplateManager } from './components/TemplateManager.js';
+import { ThemeEditor } from './components/ThemeEditor.js';
 import { useComponents, useNavigation } from './hooks/useComponents.js';
-import type { Component, Screen } from './types/index.js';
+import type { Component, Screen, TemplateRule, ThemeTransformRequest } from './types/index.js';
 
 // Visual constants for consistent theming
 export const THEME = {
@@ -46,6 +51,7 @@ export function App() {
   const {
     components,
     selectedPaths,
+    changedPaths,
     loading,
     error,
     hasScanned,
@@ -53,11 +59,28 @@ export function App() {
     toggleSelection,
     selectAll,
     deselectAll,
+    selectPaths,
+    clearChanged,
     setError,
   } = useComponents();
 
+  const selectedComponents = useMemo(
+    () => components.filter((c) => selectedPaths.has(c.path)),
+    [components, selectedPaths]
+  );
+
   const [currentComponent, setCurrentComponent] = useState<Component | null>(null);
-  const [editState, setEditState] = useState({ find: '', replace: '', isRegex: false });
+  const [editState, setEditState] = useState<TemplateRule>({
+    find: '',
+    replace: '',
+    isRegex: false,
+  });
+  // Set when the editor is opened with a rule already filled in
+  const [editorPreset, setEditorPreset] = useState<TemplateRule | null>(null);
+  // Set when the theme screen opens on the preview of a color transform
+  const [themeTransform, setThemeTransform] = useState<ThemeTransformRequest | null>(null);
+  // Where to go once the preview is applied
+  const [afterApply, setAfterApply] = useState<Screen>('components');
   const [notification, setNotification] = useState<{
     message: string;
     type: 'success' | 'error';
@@ -84,7 +107,17 @@ export function App() {
     if (loading) return;
 
     // Screens that handle their own 'q' for internal navigation
-    const screensWithInternalNav = ['editor', 'preview', 'templates', 'backups'];
+    const screensWithInternalNav = [
+      'editor',
+      'preview',
+      'templates',
+      'backups',
+      'inventory',
+      'style-report',
+      'theme',
+      'migration',
+      'a11y',
+    ];
     if (input === 'q' && !screensWithInternalNav.includes(screen)) {
       if (!goBack()) {
         exit();
@@ -98,10 +131,13 @@ export function App() {
 
   const handleNavigate = (newScreen: Screen) => {
     setError(null);
+    setThemeTransform(null);
     navigate(newScreen);
   };
 
   const handleViewComponent = (component: Component) => {
+    // The view loads the file fresh
+    clearChanged(component.path);
     setCurrentComponent(component);
     navigate('component-view');
   };
@@ -111,18 +147,45 @@ export function App() {
       setNotification({ message: 'Select at least one component first', type: 'error' });
       return;
     }
+    setEditorPreset(null);
+    navigate('editor');
+  };
+
+  const handleReplaceClass = (className: string, componentPaths: string[]) => {
+    selectPaths(componentPaths);
+    setEditorPreset({ find: className, replace: '', isRegex: false, matchMode: 'token' });
     navigate('editor');
   };
 
-  const handlePreview = (find: string, replace: string, isRegex: boolean) => {
-    setEditState({ find, replace, isRegex });
+  const handlePreview = (rule: TemplateRule) => {
+    setEditState(rule);
+    setAfterApply('components');
+    navigate('preview');
+  };
+
+  const handlePreviewFix = (componentPath: string, rule: TemplateRule) => {
+    selectPaths([componentPath]);
+    setEditState(rule);
+    setAfterApply('a11y');
+    navigate('preview');
+  };
+
+  const handlePreviewMigration = (componentPaths: string[], rule: TemplateRule) => {
+    selectPaths(componentPaths);
+    setEditState(rule);
+    setAfterApply('migration');
     navigate('preview');
   };
 
+  const handlePreviewTransform = (transform: ThemeTransformRequest) => {
+    setThemeTransform(transform);
+    navigate('theme');
+  };
+
   const handleApplySuccess = (message: string) => {
     setNotification({ message, type: 'success' });
     scanComponents(); // Refresh component list
-    navigate('components');
+    navigate(afterApply);
   };
 
   const renderScreen = () => {
@@ -143,6 +206,7 @@ export function App() {
           <ComponentList
             components={components}
             selectedPaths={selectedPaths}
+            changedPaths={changedPaths}
             onToggle={toggleSelection}
             onSelectAll={selectAll}
             onDeselectAll={deselectAll}
@@ -154,15 +218,21 @@ export function App() {
 
       case 'component-view':
         return currentComponent ? (
-          <ComponentView component={currentComponent} onBack={() => goBack()} />
+          <ComponentView
+            component={currentComponent}
+            changedOnDisk={changedPaths.has(currentComponent.path)}
+            onReload={() => clearChanged(currentComponent.path)}
+            onBack={() => goBack()}
+          />
         ) : null;
 
       case 'editor':
         return (
           <Editor
-            selectedCount={selectedPaths.size}
+            selectedComponents={selectedComponents}
             onPreview={handlePreview}
             onCancel={() => goBack()}
+            initialRule={editorPreset ?? undefined}
           />
         );
 
@@ -170,9 +240,7 @@ export function App() {
         return (
           <PreviewView
             componentPaths={Array.from(selectedPaths)}
-            find={editState.find}
-            replace={editState.replace}
-            isRegex={editState.isRegex}
+            rule={editState}
             onApply={handleApplySuccess}
             onCancel={() => goBack()}
           />
@@ -187,12 +255,18 @@ export function App() {
                   find: rules[0].find,
                   replace: rules[0].replace,
                   isRegex: rules[0].isRegex || false,
+                  matchMode: rules[0].matchMode,
+                  variantPath: rules[0].variantPath,
+                  scaleShift: rules[0].scaleShift,
+                  migration: rules[0].migration,
+                  prefixes: rules[0].prefixes,
                 });
               }
               navigate('components');
             }}
             onBack={() => goBack()}
             selectedPaths={Array.from(selectedPaths)}
+            onPreviewTheme={handlePreviewTransform}
             onDirectApply={(message) => {
               setNotification({ message, type: 'success' });
               scanComponents();
@@ -212,6 +286,35 @@ export function App() {
           />
         );
 
+      case 'inventory':
+        return <ClassInventory onReplace={handleReplaceClass} onBack={() => goBack()} />;
+
+      case 'style-report':
+        return (
+          <StyleReport
+            onFixed={(message) => setNotification({ message, type: 'success' })}
+            onBack={() => goBack()}
+          />
+        );
+
+      case 'a11y':
+        return <A11yAudit onPreviewFix={handlePreviewFix} onBack={() => goBack()} />;
+
+      case 'theme':
+        return (
+          <ThemeEditor
+            transform={themeTransform ?? undefined}
+            onApplied={(message) => {
+              setThemeTransform(null);
+              setNotification({ message, type: 'success' });
+            }}
+            onBack={() => goBack()}
+          />
+        );
+
+      case 'migration':
+        return <TailwindMigration onPreview={handlePreviewMigration} onBack={() => goBack()} />;
+
       case 'help':
         return <HelpScreen onBack={() => goBack()} />;
 
@@ -1,10 +1,27 @@
 import type {
+  A11yReport,
   ApiResponse,
+  ApprovedChange,
   Backup,
+  ClassInventory,
   Component,
   ComponentDetail,
+  ComponentEvent,
+  ContrastCheck,
+  FileFingerprint,
+  MatchesResult,
+  MigrationReport,
+  PolicyReport,
   Preview,
+  ProjectInfo,
+  TailwindTheme,
   Template,
+  TemplateRule,
+  Theme,
+  ThemeChange,
+  ThemeEdit,
+  ThemePreset,
+  ThemeTransformRequest,
 } from '../types/index.js';
 
 // Get backend URL from environment variable (set by CLI wrapper)
@@ -52,6 +69,61 @@ async function request<T>(endpoint: string, options: RequestInit = {}): Promise<
   }
 }
 
+// Wait before reconnecting to the event stream after the backend went away
+const EVENTS_RETRY_MS = 2000;
+
+/**
+ * Subscribes to component changes on disk over the backend's server-sent
+ * event stream, reconnecting when the connection drops. Returns a function
+ * that ends the subscription.
+ */
+export function subscribeToEvents(onEvent: (event: ComponentEvent) => void): () => void {
+  const controller = new AbortController();
+
+  const listen = async () => {
+    const response = await fetch(`${BASE_URL}/api/events`, { signal: controller.signal });
+    if (!response.ok || !response.body) throw new Error('Event stream unavailable');
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true });
+      const messages = buffer.split('\n\n');
+      buffer = messages.pop() ?? '';
+
+      for (const message of messages) {
+        // Lines starting with ":" are comments the backend sends to keep the connection open
+        const data = message
+          .split('\n')
+          .filter((line) => line.startsWith('data: '))
+          .map((line) => line.slice('data: '.length))
+          .join('\n');
+        if (data) onEvent(JSON.parse(data) as ComponentEvent);
+      }
+    }
+  };
+
+  (async () => {
+    while (!controller.signal.aborted) {
+      try {
+        await listen();
+      } catch {
+        // Reconnect below unless the subscription was ended
+      }
+      if (!controller.signal.aborted) {
+        await new Promise((resolve) => setTimeout(resolve, EVENTS_RETRY_MS));
+      }
+    }
+  })();
+
+  return () => controller.abort();
+}
+
 // Component Management
 export async function scanComponents(): Promise<
   ApiResponse<{ count: number; components: Component[] }>
@@ -63,42 +135,106 @@ export async function getComponents(): Promise<ApiResponse<{ components: Compone
   return request('/api/components');
 }
 
-export async function getComponent(name: string): Promise<ApiResponse<ComponentDetail>> {
-  return request(`/api/components/${encodeURIComponent(name)}`);
+export async function getComponent(id: string): Promise<ApiResponse<ComponentDetail>> {
+  return request(`/api/components/${encodeURIComponent(id)}`);
+}
+
+// Project settings from components.json and the detected Tailwind version
+export async function getProject(): Promise<ApiResponse<{ project: ProjectInfo }>> {
+  return request('/api/project');
+}
+
+// Radius, shadow, text, spacing and ring scales from tailwind.config or the CSS @theme
+export async function getTailwindTheme(): Promise<ApiResponse<{ theme: TailwindTheme }>> {
+  return request('/api/project/tailwind-theme');
+}
+
+// Every class in the scanned components, grouped by utility family
+export async function getClassInventory(): Promise<ApiResponse<{ inventory: ClassInventory }>> {
+  return request('/api/analysis/classes');
+}
+
+// Style policy findings across the scanned components
+export async function getPolicyReport(): Promise<ApiResponse<{ report: PolicyReport }>> {
+  return request('/api/analysis/policy');
+}
+
+// Accessibility findings across the scanned components
+export async function getA11yReport(): Promise<ApiResponse<{ report: A11yReport }>> {
+  return request('/api/analysis/a11y');
+}
+
+export async function getMigrationReport(): Promise<ApiResponse<{ report: MigrationReport }>> {
+  return request('/api/analysis/migration');
 }
 
 // Edit Operations
 export async function previewEdit(
   componentPaths: string[],
-  find: string,
-  replace: string,
-  isRegex = false
+  rule: TemplateRule
 ): Promise<ApiResponse<{ previews: Preview[] }>> {
   return request('/api/edit/preview', {
     method: 'POST',
-    body: JSON.stringify({ componentPaths, find, replace, isRegex }),
+    body: JSON.stringify({ componentPaths, ...rule }),
   });
 }
 
+// First matches of a rule with their capture groups, without building diffs
+export async function findMatches(
+  componentPaths: string[],
+  rule: TemplateRule,
+  limit?: number
+): Promise<ApiResponse<MatchesResult>> {
+  return request('/api/edit/matches', {
+    method: 'POST',
+    body: JSON.stringify({ componentPaths, ...rule, limit }),
+  });
+}
+
+// Fingerprints of the previewed files, sent with an apply so the backend can
+// refuse it when a file changed on disk in the meantime
+export function getFingerprints(previews: Preview[]): Record<string, FileFingerprint> {
+  const fingerprints: Record<string, FileFingerprint> = {};
+  for (const preview of previews) {
+    if (preview.fingerprint) fingerprints[preview.path] = preview.fingerprint;
+  }
+  return fingerprints;
+}
+
 export async function applyEdit(
   componentPaths: string[],
-  find: string,
-  replace: string,
-  isRegex = false
-): Promise<ApiResponse<{ success: boolean; modified: string[]; backup: string }>> {
+  rule: TemplateRule,
+  fingerprints?: Record<string, FileFingerprint>
+): Promise<
+  ApiResponse<{ success: boolean; modified: string[]; changes: number; backupId?: string }>
+> {
   return request('/api/edit/apply', {
     method: 'POST',
-    body: JSON.stringify({ componentPaths, find, replace, isRegex }),
+    body: JSON.stringify({ componentPaths, ...rule, fingerprints }),
+  });
+}
+
+// Applies only what was accepted in the preview, per file as content or hunk ids
+export async function applyApproved(
+  changes: ApprovedChange[],
+  rule?: TemplateRule
+): Promise<
+  ApiResponse<{ success: boolean; modified: string[]; changes: number; backupId?: string }>
+> {
+  return request('/api/edit/apply-approved', {
+    method: 'POST',
+    body: JSON.stringify({ changes, rule }),
   });
 }
 
 export async function batchAction(
   action: string,
-  componentPaths: string[]
+  componentPaths: string[],
+  options?: Record<string, string>
 ): Promise<ApiResponse<{ success: boolean; modified: string[] }>> {
   return request('/api/edit/batch-action', {
     method: 'POST',
-    body: JSON.stringify({ action, componentPaths }),
+    body: JSON.stringify({ action, componentPaths, options }),
   });
 }
 
@@ -109,7 +245,7 @@ export async function getTemplates(): Promise<ApiResponse<{ templates: Template[
 
 export async function createTemplate(
   name: string,
-  rules: Array<{ find: string; replace: string; isRegex?: boolean }>
+  rules: Array<Omit<TemplateRule, 'isRegex'> & { isRegex?: boolean }>
 ): Promise<ApiResponse<{ success: boolean; template: Template }>> {
   return request('/api/templates', {
     method: 'POST',
@@ -125,11 +261,98 @@ export async function deleteTemplate(id: string): Promise<ApiResponse<{ success:
 
 export async function applyTemplate(
   id: string,
-  componentPaths: string[]
+  componentPaths: string[],
+  fingerprints?: Record<string, FileFingerprint>
 ): Promise<
   ApiResponse<{ success: boolean; modified: string[]; changes: number; backupId?: string }>
 > {
   return request(`/api/templates/${encodeURIComponent(id)}/apply`, {
+    method: 'POST',
+    body: JSON.stringify({ componentPaths, fingerprints }),
+  });
+}
+
+// Theme Variables
+export async function getTheme(): Promise<ApiResponse<{ theme: Theme }>> {
+  return request('/api/theme');
+}
+
+export async function previewTheme(edits: ThemeEdit[]): Promise<
+  ApiResponse<{
+    success: boolean;
+    preview: Preview;
+    changes: ThemeChange[];
+    contrast: ContrastCheck[];
+  }>
+> {
+  return request('/api/theme/preview', {
+    method: 'POST',
+    body: JSON.stringify({ edits }),
+  });
+}
+
+// Computes the edits of a color transform and previews them; apply them with applyTheme
+export async function transformTheme(transform: ThemeTransformRequest): Promise<
+  ApiResponse<{
+    success: boolean;
+    edits: ThemeEdit[];
+    preview: Preview;
+    changes: ThemeChange[];
+    contrast: ContrastCheck[];
+  }>
+> {
+  return request('/api/theme/transform', {
+    method: 'POST',
+    body: JSON.stringify(transform),
+  });
+}
+
+export async function applyTheme(
+  edits: ThemeEdit[],
+  fingerprint?: FileFingerprint
+): Promise<
+  ApiResponse<{ success: boolean; modified: string[]; changes: ThemeChange[]; backupId?: string }>
+> {
+  return request('/api/theme/apply', {
+    method: 'POST',
+    body: JSON.stringify({ edits, fingerprint }),
+  });
+}
+
+// Computes the edits of a theme snippet, pasted or from a .css file, and previews them
+export async function importTheme(source: { css: string } | { file: string }): Promise<
+  ApiResponse<{
+    success: boolean;
+    edits: ThemeEdit[];
+    preview: Preview;
+    changes: ThemeChange[];
+    contrast: ContrastCheck[];
+  }>
+> {
+  return request('/api/theme/import', {
+    method: 'POST',
+    body: JSON.stringify(source),
+  });
+}
+
+// Theme Presets
+export async function getPresets(): Promise<ApiResponse<{ presets: ThemePreset[] }>> {
+  return request('/api/presets');
+}
+
+// Previews a preset on the components and the theme file; apply the previews with applyApproved
+export async function previewPreset(
+  id: string,
+  componentPaths?: string[]
+): Promise<
+  ApiResponse<{
+    success: boolean;
+    previews: Preview[];
+    changes: ThemeChange[];
+    contrast: ContrastCheck[];
+  }>
+> {
+  return request(`/api/presets/${encodeURIComponent(id)}/preview`, {
     method: 'POST',
     body: JSON.stringify({ componentPaths }),
   });
@@ -0,0 +1,190 @@
+import { Box, Text, useInput } from 'ink';
+import Spinner from 'ink-spinner';
+import { useEffect, useState } from 'react';
+import { SYMBOLS, THEME } from '../App.js';
+import * as api from '../api/client.js';
+import type { A11yCheck, A11yFinding, A11yReport, Severity, TemplateRule } from '../types/index.js';
+
+interface A11yAuditProps {
+  // Opens the preview for a finding's fix in its component
+  onPreviewFix: (componentPath: string, rule: TemplateRule) => void;
+  onBack: () => void;
+}
+
+type Filter = 'all' | Severity;
+
+const FILTERS: Filter[] = ['all', 'error', 'warning', 'info'];
+const PAGE_SIZE = 10;
+
+const SEVERITY_COLORS: Record<Severity, string> = {
+  error: THEME.error,
+  warning: THEME.accent,
+  info: THEME.secondary,
+};
+
+const CHECK_LABELS: Record<A11yCheck, string> = {
+  'outline-without-indicator': 'no focus style',
+  'focus-not-visible': 'focus: ring',
+  'missing-disabled': 'no disabled:',
+  'missing-aria-invalid': 'no aria-invalid:',
+  'ring-offset': 'thin ring',
+  'motion-reduce': 'motion',
+};
+
+export function A11yAudit({ onPreviewFix, onBack }: A11yAuditProps) {
+  const [report, setReport] = useState<A11yReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<Filter>('all');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  useEffect(() => {
+    api.getA11yReport().then((result) => {
+      if (result.success && result.data) {
+        setReport(result.data.report);
+      } else {
+        setError(result.error?.message || 'Failed to audit accessibility');
+      }
+      setLoading(false);
+    });
+  }, []);
+
+  const findings = (report?.findings ?? []).filter(
+    (finding) => filter === 'all' || finding.severity === filter
+  );
+  const selected: A11yFinding | undefined = findings[selectedIndex];
+
+  useInput((input, key) => {
+    if (loading) return;
+
+    if (key.escape || input === 'q') {
+      onBack();
+    } else if (key.upArrow) {
+      setSelectedIndex((i) => Math.max(0, i - 1));
+    } else if (key.downArrow) {
+      setSelectedIndex((i) => Math.min(findings.length - 1, i + 1));
+    } else if (key.tab) {
+      setFilter((current) => FILTERS[(FILTERS.indexOf(current) + 1) % FILTERS.length]);
+      setSelectedIndex(0);
+    } else if ((key.return || input === 'f') && selected?.fix) {
+      onPreviewFix(selected.path, selected.fix.rule);
+    }
+  });
+
+  if (loading) {
+    return (
+      <Box borderStyle="round" borderColor={THEME.secondary} paddingX={2} paddingY={1}>
+        <Text color={THEME.success}>
+          <Spinner type="dots" />
+        </Text>
+        <Text> Auditing components...</Text>
+      </Box>
+    );
+  }
+
+  if (error || !report) {
+    return (
+      <Box flexDirection="column">
+        <Box borderStyle="round" borderColor={THEME.error} paddingX={2} paddingY={1}>
+          <Text color={THEME.error}>
+            {SYMBOLS.cross} {error}
+          </Text>
+        </Box>
+        <Box marginTop={1}>
+          <Text color={THEME.muted}>Press Esc to go back</Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  const offset = Math.max(
+    0,
+    Math.min(selectedIndex - Math.floor(PAGE_SIZE / 2), findings.length - PAGE_SIZE)
+  );
+
+  return (
+    <Box flexDirection="column">
+      <Box marginBottom={1}>
+        <Text bold color={THEME.highlight}>
+          {SYMBOLS.diamond} Accessibility Audit
+        </Text>
+        <Text color={THEME.muted}> ─ {report.components} components │ </Text>
+        <Text color={THEME.error}>{report.counts.error} errors</Text>
+        <Text color={THEME.muted}> │ </Text>
+        <Text color={THEME.accent}>{report.counts.warning} warnings</Text>
+        <Text color={THEME.muted}> │ </Text>
+        <Text color={THEME.secondary}>{report.counts.info} info</Text>
+      </Box>
+
+      <Box marginBottom={1}>
+        {FILTERS.map((item) => (
+          <Text
+            key={item}
+            color={item === filter ? THEME.primary : THEME.muted}
+            bold={item === filter}
+          >
+            {item === filter ? `[${item}]` : ` ${item} `}{' '}
+          </Text>
+        ))}
+      </Box>
+
+      <Box
+        flexDirection="column"
+        borderStyle="single"
+        borderColor={THEME.muted}
+        paddingX={1}
+        marginBottom={1}
+      >
+        {findings.length === 0 ? (
+          <Text color={THEME.success}>{SYMBOLS.check} No findings</Text>
+        ) : (
+          findings.slice(offset, offset + PAGE_SIZE).map((finding, idx) => {
+            const isSelected = offset + idx === selectedIndex;
+            return (
+              <Box key={`${finding.path}:${finding.line}:${finding.column}:${finding.check}`}>
+                <Box width={3}>
+                  <Text color={isSelected ? THEME.primary : THEME.muted}>
+                    {isSelected ? SYMBOLS.arrow : ' '}
+                  </Text>
+                </Box>
+                <Box width={3}>
+                  <Text color={SEVERITY_COLORS[finding.severity]}>{SYMBOLS.dot}</Text>
+                </Box>
+                <Box width={18}>
+                  <Text color={THEME.muted}>{CHECK_LABELS[finding.check]}</Text>
+                </Box>
+                <Box width={36}>
+                  <Text color={isSelected ? THEME.secondary : THEME.highlight} bold={isSelected}>
+                    {finding.componentId}:{finding.line}
+                  </Text>
+                </Box>
+              </Box>
+            );
+          })
+        )}
+      </Box>
+
+      {selected && (
+        <Box flexDirection="column" marginBottom={1} paddingX={1}>
+          <Text>{selected.message}</Text>
+          <Box>
+            <Text color={THEME.muted}>Fix: </Text>
+            {selected.fix ? (
+              <Text color={THEME.success}>{selected.fix.name}</Text>
+            ) : (
+              <Text color={THEME.muted}>none, edit by hand</Text>
+            )}
+          </Box>
+        </Box>
+      )}
+
+      <Box justifyContent="center">
+        <Text color={THEME.muted}>
+          <Text color={THEME.secondary}>↑/↓</Text> Navigate │{' '}
+          <Text color={THEME.secondary}>Tab</Text> Filter │ <Text color={THEME.secondary}>↵</Text>{' '}
+          Preview fix │ <Text color={THEME.secondary}>Esc</Text> Back
+        </Text>
+      </Box>
+    </Box>
+  );
+}
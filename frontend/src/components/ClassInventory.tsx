@@ -0,0 +1,266 @@
+import { Box, Text, useInput } from 'ink';
+import Spinner from 'ink-spinner';
+import { useEffect, useState } from 'react';
+import { SYMBOLS, THEME } from '../App.js';
+import * as api from '../api/client.js';
+import type { ClassFamily, ClassUsage, ClassInventory as Inventory } from '../types/index.js';
+
+interface ClassInventoryProps {
+  // Opens the editor to replace the class in the components that use it
+  onReplace: (className: string, componentPaths: string[]) => void;
+  onBack: () => void;
+}
+
+type Level = 'families' | 'classes' | 'usages';
+
+const PAGE_SIZE = 14;
+
+// Keeps the cursor roughly centred in a window of PAGE_SIZE rows
+function getWindow<T>(items: T[], cursor: number): { offset: number; visible: T[] } {
+  const offset = Math.max(
+    0,
+    Math.min(cursor - Math.floor(PAGE_SIZE / 2), items.length - PAGE_SIZE)
+  );
+  return { offset, visible: items.slice(offset, offset + PAGE_SIZE) };
+}
+
+export function ClassInventory({ onReplace, onBack }: ClassInventoryProps) {
+  const [inventory, setInventory] = useState<Inventory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [level, setLevel] = useState<Level>('families');
+  const [familyIdx, setFamilyIdx] = useState(0);
+  const [classIdx, setClassIdx] = useState(0);
+  const [usageIdx, setUsageIdx] = useState(0);
+
+  useEffect(() => {
+    api.getClassInventory().then((result) => {
+      if (result.success && result.data) {
+        setInventory(result.data.inventory);
+      } else {
+        setError(result.error?.message || 'Failed to load class inventory');
+      }
+      setLoading(false);
+    });
+  }, []);
+
+  const families = inventory?.families ?? [];
+  const family: ClassFamily | undefined = families[familyIdx];
+  const usage: ClassUsage | undefined = family?.classes[classIdx];
+
+  const replace = () => {
+    if (usage) {
+      onReplace(
+        usage.className,
+        usage.components.map((component) => component.path)
+      );
+    }
+  };
+
+  useInput((input, key) => {
+    if (key.escape || input === 'q') {
+      if (level === 'usages') setLevel('classes');
+      else if (level === 'classes') setLevel('families');
+      else onBack();
+      return;
+    }
+
+    const move = (delta: number, count: number, set: (update: (i: number) => number) => void) =>
+      set((i) => Math.max(0, Math.min(count - 1, i + delta)));
+    const delta = key.upArrow
+      ? -1
+      : key.downArrow
+        ? 1
+        : key.pageUp
+          ? -PAGE_SIZE
+          : key.pageDown
+            ? PAGE_SIZE
+            : 0;
+
+    if (level === 'families') {
+      if (delta) move(delta, families.length, setFamilyIdx);
+      else if (key.return && family) {
+        setClassIdx(0);
+        setLevel('classes');
+      }
+    } else if (level === 'classes' && family) {
+      if (delta) move(delta, family.classes.length, setClassIdx);
+      else if (key.return && usage) {
+        setUsageIdx(0);
+        setLevel('usages');
+      } else if (input === 'r') replace();
+    } else if (level === 'usages' && usage) {
+      if (delta) move(delta, usage.components.length, setUsageIdx);
+      else if (input === 'r') replace();
+    }
+  });
+
+  if (loading) {
+    return (
+      <Box borderStyle="round" borderColor={THEME.secondary} paddingX={2} paddingY={1}>
+        <Text color={THEME.success}>
+          <Spinner type="dots" />
+        </Text>
+        <Text> Collecting classes...</Text>
+      </Box>
+    );
+  }
+
+  if (error || !inventory) {
+    return (
+      <Box flexDirection="column">
+        <Box borderStyle="round" borderColor={THEME.error} paddingX={2} paddingY={1}>
+          <Text color={THEME.error}>
+            {SYMBOLS.cross} {error}
+          </Text>
+        </Box>
+        <Box marginTop={1}>
+          <Text color={THEME.muted}>Press Esc to go back</Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  const renderFamilies = () => {
+    const { offset, visible } = getWindow(families, familyIdx);
+    return visible.map((item, idx) => {
+      const isCursor = offset + idx === familyIdx;
+      return (
+        <Box key={item.family}>
+          <Box width={3}>
+            <Text color={isCursor ? THEME.primary : THEME.muted}>
+              {isCursor ? SYMBOLS.arrow : ' '}
+            </Text>
+          </Box>
+          <Box width={24}>
+            <Text color={isCursor ? THEME.secondary : THEME.highlight} bold={isCursor}>
+              {item.family}
+            </Text>
+          </Box>
+          <Box width={10}>
+            <Text color={THEME.accent}>{item.count}</Text>
+          </Box>
+          <Text color={THEME.muted}>
+            {item.classes.length} distinct:{' '}
+            {item.classes
+              .slice(0, 4)
+              .map((c) => c.className)
+              .join(' ')}
+            {item.classes.length > 4 ? ' …' : ''}
+          </Text>
+        </Box>
+      );
+    });
+  };
+
+  const renderClasses = () => {
+    if (!family) return null;
+    const { offset, visible } = getWindow(family.classes, classIdx);
+    return visible.map((item, idx) => {
+      const isCursor = offset + idx === classIdx;
+      return (
+        <Box key={item.className}>
+          <Box width={3}>
+            <Text color={isCursor ? THEME.primary : THEME.muted}>
+              {isCursor ? SYMBOLS.arrow : ' '}
+            </Text>
+          </Box>
+          <Box width={32}>
+            <Text color={isCursor ? THEME.secondary : THEME.highlight} bold={isCursor}>
+              {item.className}
+            </Text>
+          </Box>
+          <Box width={8}>
+            <Text color={THEME.accent}>{item.count}</Text>
+          </Box>
+          <Text color={THEME.muted}>
+            in {item.components.length} component{item.components.length === 1 ? '' : 's'}
+            {item.variants ? ` │ ${item.variants}:` : ''}
+          </Text>
+        </Box>
+      );
+    });
+  };
+
+  const renderUsages = () => {
+    if (!usage) return null;
+    const { offset, visible } = getWindow(usage.components, usageIdx);
+    return visible.map((item, idx) => {
+      const isCursor = offset + idx === usageIdx;
+      return (
+        <Box key={item.id}>
+          <Box width={3}>
+            <Text color={isCursor ? THEME.primary : THEME.muted}>
+              {isCursor ? SYMBOLS.arrow : ' '}
+            </Text>
+          </Box>
+          <Box width={36}>
+            <Text color={isCursor ? THEME.secondary : THEME.highlight} bold={isCursor}>
+              {item.id}
+            </Text>
+          </Box>
+          <Box width={8}>
+            <Text color={THEME.accent}>{item.count}</Text>
+          </Box>
+          <Text color={THEME.muted}>
+            line{item.locations.length === 1 ? '' : 's'}{' '}
+            {[...new Set(item.locations.map((location) => location.line))].join(', ')}
+          </Text>
+        </Box>
+      );
+    });
+  };
+
+  const title =
+    level === 'families'
+      ? 'Utility families'
+      : level === 'classes'
+        ? family?.family
+        : usage?.className;
+
+  return (
+    <Box flexDirection="column">
+      <Box marginBottom={1}>
+        <Text bold color={THEME.highlight}>
+          {SYMBOLS.diamond} Class Inventory
+        </Text>
+        <Text color={THEME.muted}>
+          {' '}
+          ─ {inventory.uniqueClasses} classes, {inventory.totalClasses} uses in{' '}
+          {inventory.components} components
+        </Text>
+      </Box>
+
+      <Box
+        flexDirection="column"
+        borderStyle="single"
+        borderColor={THEME.muted}
+        paddingX={1}
+        marginBottom={1}
+      >
+        <Text color={THEME.accent}>{title}</Text>
+        {families.length === 0 && <Text color={THEME.muted}>No classes found</Text>}
+        {level === 'families' && renderFamilies()}
+        {level === 'classes' && renderClasses()}
+        {level === 'usages' && renderUsages()}
+      </Box>
+
+      <Box justifyContent="center">
+        <Text color={THEME.muted}>
+          <Text color={THEME.secondary}>↑/↓</Text> Navigate │{' '}
+          {level !== 'usages' && (
+            <>
+              <Text color={THEME.secondary}>↵</Text> Open │{' '}
+            </>
+          )}
+          {level !== 'families' && (
+            <>
+              <Text color={THEME.secondary}>r</Text> Replace everywhere │{' '}
+            </>
+          )}
+          <Text color={THEME.secondary}>Esc</Text> Back
+        </Text>
+      </Box>
+    </Box>
+  );
+}
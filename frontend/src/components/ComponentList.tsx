@@ -7,6 +7,8 @@ import type { Component, Screen } from '../types/index.js';
 interface ComponentListProps {
   components: Component[];
   selectedPaths: Set<string>;
+  // Components edited outside the tweaker since they were last viewed
+  changedPaths: Set<string>;
   onToggle: (path: string) => void;
   onSelectAll: () => void;
   onDeselectAll: () => void;
@@ -15,9 +17,16 @@ interface ComponentListProps {
   onNavigate: (screen: Screen) => void;
 }
 
+// "components/ui/forms/input.tsx" -> "components/ui/forms"
+function getFolder(component: Component): string {
+  const slash = component.id.lastIndexOf('/');
+  return slash === -1 ? '.' : component.id.slice(0, slash);
+}
+
 export function ComponentList({
   components,
   selectedPaths,
+  changedPaths,
   onToggle,
   onSelectAll,
   onDeselectAll,
@@ -33,7 +42,7 @@ export function ComponentList({
     if (!searchQuery) return components;
     const query = searchQuery.toLowerCase();
     return components.filter(
-      (c) => c.name.toLowerCase().includes(query) || c.path.toLowerCase().includes(query)
+      (c) => c.name.toLowerCase().includes(query) || c.id.toLowerCase().includes(query)
     );
   }, [components, searchQuery]);
 
@@ -145,38 +154,55 @@ export function ComponentList({
           const actualIdx = startIdx + idx;
           const isSelected = selectedPaths.has(component.path);
           const isCursor = actualIdx === cursor;
+          // Folder heading whenever the folder changes, and at the top of the window
+          const folder = getFolder(component);
+          const showFolder = idx === 0 || getFolder(visibleComponents[idx - 1]) !== folder;
 
           return (
-            <Box key={component.path}>
-              {/* Cursor Indicator */}
-              <Box width={2}>
-                <Text color={isCursor ? THEME.primary : THEME.muted}>
-                  {isCursor ? SYMBOLS.arrow : ' '}
-                </Text>
-              </Box>
-
-              {/* Selection Checkbox */}
-              <Box width={4}>
-                <Text color={isSelected ? THEME.success : THEME.muted}>
-                  {isSelected ? `${SYMBOLS.check} ` : `${SYMBOLS.circle} `}
+            <Box key={component.path} flexDirection="column">
+              {showFolder && (
+                <Text color={THEME.accent}>
+                  {SYMBOLS.arrowDown} {folder}/
                 </Text>
+              )}
+              <Box>
+                {/* Cursor Indicator */}
+                <Box width={2}>
+                  <Text color={isCursor ? THEME.primary : THEME.muted}>
+                    {isCursor ? SYMBOLS.arrow : ' '}
+                  </Text>
+                </Box>
+
+                {/* Selection Checkbox */}
+                <Box width={4}>
+                  <Text color={isSelected ? THEME.success : THEME.muted}>
+                    {isSelected ? `${SYMBOLS.check} ` : `${SYMBOLS.circle} `}
+                  </Text>
+                </Box>
+
+                {/* Component Name */}
+                <Box width={20}>
+                  <Text
+                    color={
+                      isCursor ? THEME.secondary : isSelected ? THEME.success : THEME.highlight
+                    }
+                    bold={isCursor}
+                  >
+                    {component.name}
+                  </Text>
+                </Box>
+
+                {/* Metadata */}
+                <Text color={THEME.muted}>{component.metadata.lines} ln</Text>
+
+                {/* Edited outside the tweaker */}
+                {changedPaths.has(component.path) && (
+                  <Text color={THEME.accent}> {SYMBOLS.dot} changed on disk</Text>
+                )}
+
+                {/* File indicator for selected */}
+                {isSelected && <Text color={THEME.success}> {SYMBOLS.dot}</Text>}
               </Box>
-
-              {/* Component Name */}
-              <Box width={20}>
-                <Text
-                  color={isCursor ? THEME.secondary : isSelected ? THEME.success : THEME.highlight}
-                  bold={isCursor}
-                >
-                  {component.name}
-                </Text>
-              </Box>
-
-              {/* Metadata */}
-              <Text color={THEME.muted}>{component.metadata.lines} ln</Text>
-
-              {/* File indicator for selected */}
-              {isSelected && <Text color={THEME.success}> {SYMBOLS.dot}</Text>}
             </Box>
           );
         })}
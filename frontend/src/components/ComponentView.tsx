@@ -1,34 +1,63 @@
 import { highlight } from 'cli-highlight';
 import { Box, Text, useInput } from 'ink';
 import Spinner from 'ink-spinner';
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { SYMBOLS, THEME } from '../App.js';
 import * as api from '../api/client.js';
-import type { Component } from '../types/index.js';
+import type { ClassLocation, Component } from '../types/index.js';
 
 interface ComponentViewProps {
   component: Component;
+  // The file was edited outside the tweaker since it was loaded
+  changedOnDisk: boolean;
+  onReload: () => void;
   onBack: () => void;
 }
 
-export function ComponentView({ component, onBack }: ComponentViewProps) {
+type Panel = 'code' | 'classes';
+
+function describeLocation(location: ClassLocation): string {
+  switch (location.context) {
+    case 'cva-base':
+      return 'cva base';
+    case 'cva-variant':
+      return `cva ${location.variant}`;
+    case 'cva-compound':
+      return 'cva compound';
+    case 'call':
+      return `${location.call}()`;
+    case 'property':
+      return 'className prop';
+    default:
+      return 'className';
+  }
+}
+
+export function ComponentView({ component, changedOnDisk, onReload, onBack }: ComponentViewProps) {
   const [scrollOffset, setScrollOffset] = useState(0);
   const [content, setContent] = useState(component.content || '');
-  const [loading, setLoading] = useState(!component.content);
+  const [classes, setClasses] = useState<string[]>([]);
+  const [classLocations, setClassLocations] = useState<ClassLocation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [panel, setPanel] = useState<Panel>('code');
   const visibleLines = 18;
 
-  // Fetch content if not already loaded
+  // Class locations come from the backend parser, so always load the details
+  const loadDetails = useCallback(() => {
+    setLoading(true);
+    api.getComponent(component.id).then((result) => {
+      if (result.success && result.data) {
+        setContent(result.data.content || '');
+        setClasses(result.data.classes || []);
+        setClassLocations(result.data.classLocations || []);
+      }
+      setLoading(false);
+    });
+  }, [component.id]);
+
   useEffect(() => {
-    if (!component.content && component.name) {
-      setLoading(true);
-      api.getComponent(component.name).then((result) => {
-        if (result.success && result.data) {
-          setContent(result.data.content || '');
-        }
-        setLoading(false);
-      });
-    }
-  }, [component.name, component.content]);
+    loadDetails();
+  }, [loadDetails]);
 
   const highlightedCode = useMemo(() => {
     if (!content) return '';
@@ -45,31 +74,33 @@ export function ComponentView({ component, onBack }: ComponentViewProps) {
   }, [content]);
 
   const lines = (highlightedCode || '').split('\n');
-  const totalLines = lines.length;
+  const totalLines = panel === 'code' ? lines.length : classLocations.length;
   const visibleContent = lines.slice(scrollOffset, scrollOffset + visibleLines);
+  const visibleLocations = classLocations.slice(scrollOffset, scrollOffset + visibleLines);
 
-  useInput((_input, key) => {
-    if (key.upArrow) {
+  useInput((input, key) => {
+    if (input === 'r' && changedOnDisk) {
+      loadDetails();
+      onReload();
+    } else if (key.tab) {
+      setPanel((p) => (p === 'code' ? 'classes' : 'code'));
+      setScrollOffset(0);
+    } else if (key.upArrow) {
       setScrollOffset((o) => Math.max(0, o - 1));
     } else if (key.downArrow) {
-      setScrollOffset((o) => Math.min(totalLines - visibleLines, o + 1));
+      setScrollOffset((o) => Math.max(0, Math.min(totalLines - visibleLines, o + 1)));
     } else if (key.pageUp) {
       setScrollOffset((o) => Math.max(0, o - visibleLines));
     } else if (key.pageDown) {
-      setScrollOffset((o) => Math.min(totalLines - visibleLines, o + visibleLines));
+      setScrollOffset((o) => Math.max(0, Math.min(totalLines - visibleLines, o + visibleLines)));
     } else if (key.escape) {
       onBack();
     }
     // Note: 'q' is handled by the global App handler
   });
 
-  // Extract classes from content
-  const classMatches = content.match(/className=["']([^"']+)["']/g) || [];
-  const classes = classMatches
-    .map((m) => m.replace(/className=["']/, '').replace(/["']$/, ''))
-    .flatMap((c) => c.split(/\s+/))
-    .filter((c, i, arr) => arr.indexOf(c) === i)
-    .slice(0, 12); // Show first 12 unique classes
+  // Show first 12 unique classes
+  const shownClasses = classes.slice(0, 12);
 
   // Calculate file size display
   const sizeKB = Math.round((component.metadata?.size || 0) / 1024);
@@ -93,6 +124,13 @@ export function ComponentView({ component, onBack }: ComponentViewProps) {
         <Box>
           <Text color={THEME.muted}>{component.path}</Text>
         </Box>
+        {changedOnDisk && (
+          <Box>
+            <Text color={THEME.accent}>
+              {SYMBOLS.dot} Changed on disk ─ press <Text color={THEME.secondary}>r</Text> to reload
+            </Text>
+          </Box>
+        )}
         <Box marginTop={0}>
           <Text color={THEME.muted}>{SYMBOLS.line} </Text>
           <Text color={THEME.accent}>{component.metadata?.lines || 0}</Text>
@@ -100,7 +138,9 @@ export function ComponentView({ component, onBack }: ComponentViewProps) {
           <Text color={THEME.accent}>{sizeDisplay}</Text>
           <Text color={THEME.muted}> │ </Text>
           <Text color={THEME.accent}>{classes.length}</Text>
-          <Text color={THEME.muted}> classes</Text>
+          <Text color={THEME.muted}> classes in </Text>
+          <Text color={THEME.accent}>{classLocations.length}</Text>
+          <Text color={THEME.muted}> strings</Text>
         </Box>
       </Box>
 
@@ -120,26 +160,71 @@ export function ComponentView({ component, onBack }: ComponentViewProps) {
       )}
 
       {/* Tailwind Classes */}
-      {classes.length > 0 && (
+      {shownClasses.length > 0 && (
         <Box marginBottom={1} flexDirection="column">
           <Box marginBottom={0}>
             <Text color={THEME.muted}>{SYMBOLS.arrow} Tailwind Classes:</Text>
           </Box>
           <Box flexWrap="wrap">
-            {classes.map((cls, idx) => (
+            {shownClasses.map((cls, idx) => (
               <Box key={idx} marginRight={1}>
                 <Text color={THEME.accent}>{cls}</Text>
               </Box>
             ))}
-            {classMatches.length > 12 && (
-              <Text color={THEME.muted}>+{classMatches.length - 12} more</Text>
-            )}
+            {classes.length > 12 && <Text color={THEME.muted}>+{classes.length - 12} more</Text>}
           </Box>
         </Box>
       )}
 
+      {/* Class Locations */}
+      {!loading && panel === 'classes' && (
+        <Box
+          flexDirection="column"
+          borderStyle="single"
+          borderColor={THEME.muted}
+          paddingX={1}
+          height={visibleLines + 2}
+        >
+          {classLocations.length === 0 && (
+            <Text color={THEME.muted}>No class strings found in this component</Text>
+          )}
+
+          {scrollOffset > 0 && (
+            <Box justifyContent="center">
+              <Text color={THEME.muted}>↑ {scrollOffset} more above</Text>
+            </Box>
+          )}
+
+          {visibleLocations.map((location) => (
+            <Box key={location.start}>
+              <Box width={6}>
+                <Text color={THEME.muted}>L{location.line}</Text>
+              </Box>
+              <Box width={20}>
+                <Text color={THEME.secondary}>{describeLocation(location)}</Text>
+              </Box>
+              <Box width={16}>
+                <Text color={THEME.muted}>
+                  {location.element ? `<${location.element}>` : location.owner || ''}
+                </Text>
+              </Box>
+              <Text color={THEME.accent}>{location.classes.join(' ').slice(0, 40)}</Text>
+              {location.classes.join(' ').length > 40 && <Text color={THEME.muted}>...</Text>}
+            </Box>
+          ))}
+
+          {scrollOffset + visibleLines < classLocations.length && (
+            <Box justifyContent="center">
+              <Text color={THEME.muted}>
+                ↓ {classLocations.length - scrollOffset - visibleLines} more below
+              </Text>
+            </Box>
+          )}
+        </Box>
+      )}
+
       {/* Code View */}
-      {!loading && content && (
+      {!loading && content && panel === 'code' && (
         <Box
           flexDirection="column"
           borderStyle="single"
@@ -178,6 +263,7 @@ export function ComponentView({ component, onBack }: ComponentViewProps) {
         <Text color={THEME.muted}>
           <Text color={THEME.secondary}>↑/↓</Text> Scroll │{' '}
           <Text color={THEME.secondary}>PgUp/PgDn</Text> Page │{' '}
+          <Text color={THEME.secondary}>Tab</Text> {panel === 'code' ? 'Classes' : 'Code'} │{' '}
           <Text color={THEME.secondary}>q/Esc</Text> Back
         </Text>
       </Box>
@@ -2,7 +2,14 @@ import { Box, Text, useInput } from 'ink';
 import Spinner from 'ink-spinner';
 import React from 'react';
 import { SYMBOLS, THEME } from '../App.js';
-import type { Component, Screen } from '../types/index.js';
+import * as api from '../api/client.js';
+import type {
+  Component,
+  MigrationReport,
+  PolicyReport,
+  ProjectInfo,
+  Screen,
+} from '../types/index.js';
 
 interface DashboardProps {
   components: Component[];
@@ -22,6 +29,32 @@ interface MenuItem {
 
 export function Dashboard({ components, loading, error, onNavigate, onScan }: DashboardProps) {
   const [selectedIndex, setSelectedIndex] = React.useState(0);
+  const [project, setProject] = React.useState<ProjectInfo | null>(null);
+  const [policy, setPolicy] = React.useState<PolicyReport | null>(null);
+  const [migration, setMigration] = React.useState<MigrationReport | null>(null);
+
+  // Reloaded after every scan, in case components.json changed
+  React.useEffect(() => {
+    if (loading) return;
+    let cancelled = false;
+    api.getProject().then((result) => {
+      if (!cancelled && result.success && result.data) setProject(result.data.project);
+    });
+    if (components.length > 0) {
+      api.getPolicyReport().then((result) => {
+        if (!cancelled && result.success && result.data) setPolicy(result.data.report);
+      });
+      api.getMigrationReport().then((result) => {
+        if (!cancelled && result.success && result.data) setMigration(result.data.report);
+      });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [loading, components.length]);
+
+  // Only offered once the project is on Tailwind 4 and components still use v3 names
+  const needsMigration = migration?.tailwindMajor === 4 && migration.pending.length > 0;
 
   const menuItems: MenuItem[] = [
     {
@@ -45,6 +78,45 @@ export function Dashboard({ components, loading, error, onNavigate, onScan }: Da
       description: 'Restore previous component versions',
       color: 'yellow',
     },
+    {
+      label: 'Class Inventory',
+      value: 'inventory' as Screen,
+      icon: '',
+      description: 'Class usage across the project',
+      color: 'blue',
+    },
+    {
+      label: 'Style Report',
+      value: 'style-report' as Screen,
+      icon: '',
+      description: 'Check components against the style policy',
+      color: 'red',
+    },
+    {
+      label: 'Accessibility',
+      value: 'a11y' as Screen,
+      icon: '',
+      description: 'Audit focus, disabled, invalid and motion styles',
+      color: 'green',
+    },
+    {
+      label: 'Theme Tokens',
+      value: 'theme' as Screen,
+      icon: '',
+      description: 'Edit the CSS variables of globals.css',
+      color: 'magenta',
+    },
+    ...(needsMigration
+      ? [
+          {
+            label: 'Migrate to v4',
+            value: 'migration' as Screen,
+            icon: '',
+            description: `${migration.pending.length} components still use Tailwind 3 class names`,
+            color: 'yellow',
+          },
+        ]
+      : []),
     {
       label: 'Rescan Project',
       value: 'rescan' as const,
@@ -133,6 +205,57 @@ export function Dashboard({ components, loading, error, onNavigate, onScan }: Da
               <Text> components ready to tweak</Text>
             </Box>
           )}
+
+          {project && !loading && (
+            <Box>
+              <Text color={THEME.muted}>{SYMBOLS.dot} Style </Text>
+              <Text color={project.style ? THEME.accent : THEME.muted}>
+                {project.style ?? 'no components.json'}
+              </Text>
+              <Text color={THEME.muted}> │ Tailwind </Text>
+              <Text color={project.tailwind.major ? THEME.accent : THEME.muted}>
+                {project.tailwind.major ? `v${project.tailwind.major}` : 'unknown'}
+              </Text>
+              {project.tailwind.version && (
+                <Text color={THEME.muted}> ({project.tailwind.version})</Text>
+              )}
+              {project.iconLibrary && (
+                <>
+                  <Text color={THEME.muted}> │ Icons </Text>
+                  <Text color={THEME.accent}>{project.iconLibrary}</Text>
+                </>
+              )}
+            </Box>
+          )}
+
+          {needsMigration && !loading && (
+            <Box>
+              <Text color={THEME.muted}>{SYMBOLS.dot} Tailwind 4 migration </Text>
+              <Text color={THEME.accent}>
+                {migration.totalChanges} v3 classes in {migration.pending.length} components
+              </Text>
+            </Box>
+          )}
+
+          {policy?.configured && !loading && (
+            <Box>
+              <Text color={THEME.muted}>{SYMBOLS.dot} Style policy </Text>
+              {policy.findings.length === 0 ? (
+                <Text color={THEME.success}>{SYMBOLS.check} no findings</Text>
+              ) : (
+                <>
+                  <Text color={policy.counts.error ? THEME.error : THEME.muted}>
+                    {policy.counts.error} errors
+                  </Text>
+                  <Text color={THEME.muted}> │ </Text>
+                  <Text color={policy.counts.warning ? THEME.accent : THEME.muted}>
+                    {policy.counts.warning} warnings
+                  </Text>
+                  <Text color={THEME.muted}> │ {policy.counts.info} info</Text>
+                </>
+              )}
+            </Box>
+          )}
         </Box>
       </Box>
 
@@ -1,28 +1,50 @@
 import { Box, Text, useInput } from 'ink';
 import TextInput from 'ink-text-input';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { SYMBOLS, THEME } from '../App.js';
+import * as api from '../api/client.js';
+import { getScaleOptions, useTailwindTheme } from '../hooks/useTailwindTheme.js';
+import type {
+  Component,
+  MatchesResult,
+  MatchMode,
+  RuleMatch,
+  ScaleShift,
+  TemplateRule,
+} from '../types/index.js';
 
 interface EditorProps {
-  selectedCount: number;
-  onPreview: (find: string, replace: string, isRegex: boolean) => void;
+  selectedComponents: Component[];
+  onPreview: (rule: TemplateRule) => void;
   onCancel: () => void;
+  // Opens the manual editor prefilled, e.g. from the class inventory
+  initialRule?: TemplateRule;
 }
 
-type Field = 'find' | 'replace';
-type Mode = 'manual' | 'quick' | 'suboptions';
+type Field = 'find' | 'replace' | 'prefixes';
+type Mode = 'manual' | 'quick' | 'suboptions' | 'variants';
+
+interface VariantOption {
+  label: string;
+  path?: string;
+  components: number;
+}
 
 interface SubOption {
   label: string;
   value: string;
+  // For scale actions, moves every class on the scale instead of a find/replace
+  scaleShift?: ScaleShift;
 }
 
 interface QuickActionCategory {
   label: string;
   description: string;
   icon: string;
-  type: 'select-from' | 'select-to' | 'simple';
+  type: 'select-from' | 'select-to' | 'scale' | 'simple';
   options?: SubOption[];
+  // For select-to actions, the theme scale the options come from
+  scale?: string;
   // For simple actions (no sub-options)
   find?: string;
   replace?: string;
@@ -35,74 +57,102 @@ const QUICK_ACTION_CATEGORIES: QuickActionCategory[] = [
     description: 'Update rounded-* classes',
     icon: '',
     type: 'select-to',
-    options: [
-      { label: 'none (sharp)', value: 'rounded-none' },
-      { label: 'sm (2px)', value: 'rounded-sm' },
-      { label: 'default (4px)', value: 'rounded' },
-      { label: 'md (6px)', value: 'rounded-md' },
-      { label: 'lg (8px)', value: 'rounded-lg' },
-      { label: 'xl (12px)', value: 'rounded-xl' },
-      { label: '2xl (16px)', value: 'rounded-2xl' },
-      { label: '3xl (24px)', value: 'rounded-3xl' },
-      { label: 'full (pill)', value: 'rounded-full' },
-    ],
+    scale: 'radius',
   },
   {
     label: 'Ring Size',
     description: 'Focus ring width',
     icon: '',
     type: 'select-to',
-    options: [
-      { label: '0 (none)', value: 'ring-0' },
-      { label: '1 (1px)', value: 'ring-1' },
-      { label: '2 (2px)', value: 'ring-2' },
-      { label: '4 (4px)', value: 'ring-4' },
-      { label: '8 (8px)', value: 'ring-8' },
-    ],
+    scale: 'ring',
   },
   {
     label: 'Shadow',
     description: 'Update shadow depth',
     icon: '',
     type: 'select-to',
-    options: [
-      { label: 'none', value: 'shadow-none' },
-      { label: 'sm (subtle)', value: 'shadow-sm' },
-      { label: 'default', value: 'shadow' },
-      { label: 'md (medium)', value: 'shadow-md' },
-      { label: 'lg (large)', value: 'shadow-lg' },
-      { label: 'xl (huge)', value: 'shadow-xl' },
-      { label: '2xl', value: 'shadow-2xl' },
-    ],
+    scale: 'shadow',
   },
   {
     label: 'Text Size',
     description: 'Typography scale',
     icon: '',
     type: 'select-to',
-    options: [
-      { label: 'xs (12px)', value: 'text-xs' },
-      { label: 'sm (14px)', value: 'text-sm' },
-      { label: 'base (16px)', value: 'text-base' },
-      { label: 'lg (18px)', value: 'text-lg' },
-      { label: 'xl (20px)', value: 'text-xl' },
-      { label: '2xl (24px)', value: 'text-2xl' },
-    ],
+    scale: 'text-size',
   },
   {
     label: 'Padding',
     description: 'Internal spacing',
     icon: '',
     type: 'select-to',
+    scale: 'spacing',
+  },
+  {
+    label: 'Step Along Scale',
+    description: 'Relative size changes',
+    icon: '',
+    type: 'scale',
     options: [
-      { label: '0 (none)', value: 'p-0' },
-      { label: '1 (4px)', value: 'p-1' },
-      { label: '2 (8px)', value: 'p-2' },
-      { label: '3 (12px)', value: 'p-3' },
-      { label: '4 (16px)', value: 'p-4' },
-      { label: '5 (20px)', value: 'p-5' },
-      { label: '6 (24px)', value: 'p-6' },
-      { label: '8 (32px)', value: 'p-8' },
+      {
+        label: 'radius one step up',
+        value: 'rounded +1',
+        scaleShift: { scale: 'radius', direction: 'up' },
+      },
+      {
+        label: 'radius one step down',
+        value: 'rounded -1',
+        scaleShift: { scale: 'radius', direction: 'down' },
+      },
+      {
+        label: 'shadow one step up',
+        value: 'shadow +1',
+        scaleShift: { scale: 'shadow', direction: 'up' },
+      },
+      {
+        label: 'shadow one step down',
+        value: 'shadow -1',
+        scaleShift: { scale: 'shadow', direction: 'down' },
+      },
+      {
+        label: 'text size one step up',
+        value: 'text +1',
+        scaleShift: { scale: 'text-size', direction: 'up' },
+      },
+      {
+        label: 'text size one step down',
+        value: 'text -1',
+        scaleShift: { scale: 'text-size', direction: 'down' },
+      },
+      {
+        label: 'font weight one step up',
+        value: 'font +1',
+        scaleShift: { scale: 'font-weight', direction: 'up' },
+      },
+      {
+        label: 'font weight one step down',
+        value: 'font -1',
+        scaleShift: { scale: 'font-weight', direction: 'down' },
+      },
+      {
+        label: 'ring width one step up',
+        value: 'ring +1',
+        scaleShift: { scale: 'ring', direction: 'up' },
+      },
+      {
+        label: 'ring width one step down',
+        value: 'ring -1',
+        scaleShift: { scale: 'ring', direction: 'down' },
+      },
+      {
+        label: 'padding, margin and gap',
+        value: 'spacing +25%',
+        scaleShift: { scale: 'spacing', direction: 'up', percent: 25 },
+      },
+      {
+        label: 'padding, margin and gap',
+        value: 'spacing -25%',
+        scaleShift: { scale: 'spacing', direction: 'down', percent: 25 },
+      },
     ],
   },
   {
@@ -126,75 +176,235 @@ const QUICK_ACTION_CATEGORIES: QuickActionCategory[] = [
     description: 'Better keyboard UX',
     icon: '',
     type: 'simple',
-    find: 'focus:',
-    replace: 'focus-visible:',
+    find: 'focus:(\\S+)',
+    replace: 'focus-visible:$1',
+    isRegex: true,
   },
   {
     label: 'Hover to Group-Hover',
     description: 'Parent-based hover',
     icon: '',
     type: 'simple',
-    find: 'hover:',
-    replace: 'group-hover:',
+    find: 'hover:(\\S+)',
+    replace: 'group-hover:$1',
+    isRegex: true,
   },
 ];
 
-// Regex patterns for matching existing classes
-const CLASS_PATTERNS: Record<string, string> = {
-  'rounded-none': '\\brounded(-none|-sm|-md|-lg|-xl|-2xl|-3xl|-full)?\\b',
-  'rounded-sm': '\\brounded(-none|-sm|-md|-lg|-xl|-2xl|-3xl|-full)?\\b',
-  rounded: '\\brounded(-none|-sm|-md|-lg|-xl|-2xl|-3xl|-full)?\\b',
-  'rounded-md': '\\brounded(-none|-sm|-md|-lg|-xl|-2xl|-3xl|-full)?\\b',
-  'rounded-lg': '\\brounded(-none|-sm|-md|-lg|-xl|-2xl|-3xl|-full)?\\b',
-  'rounded-xl': '\\brounded(-none|-sm|-md|-lg|-xl|-2xl|-3xl|-full)?\\b',
-  'rounded-2xl': '\\brounded(-none|-sm|-md|-lg|-xl|-2xl|-3xl|-full)?\\b',
-  'rounded-3xl': '\\brounded(-none|-sm|-md|-lg|-xl|-2xl|-3xl|-full)?\\b',
-  'rounded-full': '\\brounded(-none|-sm|-md|-lg|-xl|-2xl|-3xl|-full)?\\b',
-  'ring-0': '\\bring(-0|-1|-2|-4|-8)?\\b',
-  'ring-1': '\\bring(-0|-1|-2|-4|-8)?\\b',
-  'ring-2': '\\bring(-0|-1|-2|-4|-8)?\\b',
-  'ring-4': '\\bring(-0|-1|-2|-4|-8)?\\b',
-  'ring-8': '\\bring(-0|-1|-2|-4|-8)?\\b',
-  'shadow-none': '\\bshadow(-none|-sm|-md|-lg|-xl|-2xl)?\\b',
-  'shadow-sm': '\\bshadow(-none|-sm|-md|-lg|-xl|-2xl)?\\b',
-  shadow: '\\bshadow(-none|-sm|-md|-lg|-xl|-2xl)?\\b',
-  'shadow-md': '\\bshadow(-none|-sm|-md|-lg|-xl|-2xl)?\\b',
-  'shadow-lg': '\\bshadow(-none|-sm|-md|-lg|-xl|-2xl)?\\b',
-  'shadow-xl': '\\bshadow(-none|-sm|-md|-lg|-xl|-2xl)?\\b',
-  'shadow-2xl': '\\bshadow(-none|-sm|-md|-lg|-xl|-2xl)?\\b',
-  'text-xs': '\\btext-(xs|sm|base|lg|xl|2xl)\\b',
-  'text-sm': '\\btext-(xs|sm|base|lg|xl|2xl)\\b',
-  'text-base': '\\btext-(xs|sm|base|lg|xl|2xl)\\b',
-  'text-lg': '\\btext-(xs|sm|base|lg|xl|2xl)\\b',
-  'text-xl': '\\btext-(xs|sm|base|lg|xl|2xl)\\b',
-  'text-2xl': '\\btext-(xs|sm|base|lg|xl|2xl)\\b',
-  'p-0': '\\bp-(0|1|2|3|4|5|6|8)\\b',
-  'p-1': '\\bp-(0|1|2|3|4|5|6|8)\\b',
-  'p-2': '\\bp-(0|1|2|3|4|5|6|8)\\b',
-  'p-3': '\\bp-(0|1|2|3|4|5|6|8)\\b',
-  'p-4': '\\bp-(0|1|2|3|4|5|6|8)\\b',
-  'p-5': '\\bp-(0|1|2|3|4|5|6|8)\\b',
-  'p-6': '\\bp-(0|1|2|3|4|5|6|8)\\b',
-  'p-8': '\\bp-(0|1|2|3|4|5|6|8)\\b',
-};
-
-export function Editor({ selectedCount, onPreview, onCancel }: EditorProps) {
-  const [find, setFind] = useState('');
-  const [replace, setReplace] = useState('');
-  const [isRegex, setIsRegex] = useState(false);
-  const [activeField, setActiveField] = useState<Field>('find');
+// Quick actions match whole class tokens, so rounded-md never rewrites rounded-md-custom
+function buildQuickRule(
+  category: QuickActionCategory,
+  option?: SubOption,
+  options: SubOption[] = []
+): TemplateRule {
+  if (category.type === 'select-from' && option) {
+    return { find: option.value, replace: '', isRegex: false, matchMode: 'token' };
+  }
+  if (category.type === 'scale' && option?.scaleShift) {
+    // rounded-md -> rounded-lg, rounded-t-sm -> rounded-t, hover:shadow-sm -> hover:shadow
+    return {
+      find: '',
+      replace: '',
+      isRegex: false,
+      matchMode: 'token',
+      scaleShift: option.scaleShift,
+    };
+  }
+  if (category.type === 'select-to' && option) {
+    // Any class on the same scale is replaced by the chosen value
+    const scale = options.map((o) => o.value).join(' ');
+    return { find: scale, replace: option.value, isRegex: false, matchMode: 'token' };
+  }
+  return {
+    find: category.find ?? '',
+    replace: category.replace ?? '',
+    isRegex: category.isRegex ?? false,
+    matchMode: 'token',
+  };
+}
+
+// One entry per cva group.option found in the selected components
+async function loadVariantOptions(components: Component[]): Promise<VariantOption[]> {
+  const counts = new Map<string, number>();
+
+  for (const component of components) {
+    const result = await api.getComponent(component.id);
+    if (!result.success || !result.data) continue;
+
+    const variants = new Set<string>();
+    for (const definition of result.data.variants ?? []) {
+      for (const [group, options] of Object.entries(definition.groups)) {
+        for (const option of options) variants.add(`${group}.${option}`);
+      }
+    }
+    for (const variant of variants) counts.set(variant, (counts.get(variant) ?? 0) + 1);
+  }
+
+  // A single component is scoped by name, several share a wildcard path
+  const scope = components.length === 1 ? components[0].name : '*';
+  return [
+    { label: 'All classes', components: components.length },
+    ...[...counts.entries()].map(([variant, count]) => ({
+      label: variant,
+      path: `${scope}.${variant}`,
+      components: count,
+    })),
+  ];
+}
+
+const VARIANT_PAGE_SIZE = 12;
+const SUBOPTION_PAGE_SIZE = 12;
+// Matches shown in the manual mode match panel
+const MATCH_LIMIT = 5;
+// Characters of surrounding line shown either side of a match
+const MATCH_CONTEXT = 20;
+// Wait for a pause in typing before asking the backend for matches
+const MATCH_DEBOUNCE_MS = 250;
+
+// "5 of 12+ matches" when the search stopped at the limit before the last file
+function describeMatches({ matches, total, complete }: MatchesResult): string {
+  if (total === 0 && complete) return 'No matches';
+  const count = `${total}${complete ? '' : '+'}`;
+  return `${matches.length} of ${count} match${total === 1 && complete ? '' : 'es'}`;
+}
+
+// The match with its capture groups coloured, trimmed to a little surrounding context
+function MatchLine({ match }: { match: RuleMatch }) {
+  const start = match.column - 1;
+  const before = match.lineText.slice(Math.max(0, start - MATCH_CONTEXT), start);
+  const after = match.lineText
+    .slice(start + match.text.length)
+    .slice(0, MATCH_CONTEXT)
+    .trimEnd();
+
+  // Nested groups are shown through their outermost group
+  const segments: { text: string; group: boolean }[] = [];
+  let cursor = 0;
+  for (const group of [...match.groups].sort((a, b) => a.start - b.start)) {
+    if (group.start < cursor || group.start === group.end) continue;
+    segments.push({ text: match.text.slice(cursor, group.start), group: false });
+    segments.push({ text: match.text.slice(group.start, group.end), group: true });
+    cursor = group.end;
+  }
+  segments.push({ text: match.text.slice(cursor), group: false });
+
+  return (
+    <Text>
+      <Text color={THEME.muted}>{before.length < start ? `…${before}` : before}</Text>
+      {segments.map((segment, idx) => (
+        <Text
+          key={idx}
+          color={segment.group ? THEME.accent : THEME.secondary}
+          bold
+          underline={segment.group}
+        >
+          {segment.text}
+        </Text>
+      ))}
+      <Text color={THEME.muted}>{after}</Text>
+    </Text>
+  );
+}
+
+export function Editor({ selectedComponents, onPreview, onCancel, initialRule }: EditorProps) {
+  const selectedCount = selectedComponents.length;
+  const [find, setFind] = useState(initialRule?.find ?? '');
+  const [replace, setReplace] = useState(initialRule?.replace ?? '');
+  const [isRegex, setIsRegex] = useState(initialRule?.isRegex ?? false);
+  const [matchMode, setMatchMode] = useState<MatchMode>(initialRule?.matchMode ?? 'text');
+  const [prefixInput, setPrefixInput] = useState('');
+  const [activeField, setActiveField] = useState<Field>(initialRule ? 'replace' : 'find');
   const [error, setError] = useState<string | null>(null);
+  const [matchResult, setMatchResult] = useState<MatchesResult | null>(null);
+  const [matchError, setMatchError] = useState<string | null>(null);
 
   // Menu state
-  const [mode, setMode] = useState<Mode>('quick');
+  const [mode, setMode] = useState<Mode>(initialRule ? 'manual' : 'quick');
   const [categoryIndex, setCategoryIndex] = useState(0);
   const [subOptionIndex, setSubOptionIndex] = useState(0);
   const [selectedCategory, setSelectedCategory] = useState<QuickActionCategory | null>(null);
 
+  // cva variant scope applied to every rule built in this editor
+  const [variantPath, setVariantPath] = useState<string | undefined>(undefined);
+  const [variantOptions, setVariantOptions] = useState<VariantOption[] | null>(null);
+  const [variantIndex, setVariantIndex] = useState(0);
+
+  const { theme: tailwindTheme, error: themeError } = useTailwindTheme();
+  const getOptions = (category: QuickActionCategory): SubOption[] =>
+    category.scale ? getScaleOptions(tailwindTheme, category.scale) : (category.options ?? []);
+  const subOptions = selectedCategory ? getOptions(selectedCategory) : [];
+
+  useEffect(() => {
+    let cancelled = false;
+    loadVariantOptions(selectedComponents).then((options) => {
+      if (!cancelled) setVariantOptions(options);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedComponents]);
+
+  // "dark hover:" -> ['dark', 'hover']
+  const prefixes = prefixInput
+    .split(/\s+/)
+    .map((prefix) => prefix.replace(/:$/, ''))
+    .filter(Boolean);
+
+  // Live matches for the manual find/replace, refreshed as the user types
+  useEffect(() => {
+    if (mode !== 'manual' || !find) {
+      setMatchResult(null);
+      setMatchError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const onlyPrefixes = prefixInput
+        .split(/\s+/)
+        .map((prefix) => prefix.replace(/:$/, ''))
+        .filter(Boolean);
+      const result = await api.findMatches(
+        selectedComponents.map((component) => component.path),
+        {
+          find,
+          replace,
+          isRegex,
+          matchMode,
+          ...(variantPath ? { variantPath } : {}),
+          ...(onlyPrefixes.length > 0 ? { prefixes: onlyPrefixes } : {}),
+        },
+        MATCH_LIMIT
+      );
+      if (cancelled) return;
+
+      if (result.success && result.data) {
+        setMatchResult(result.data);
+        setMatchError(null);
+      } else {
+        setMatchResult(null);
+        setMatchError(result.error?.message ?? 'Failed to find matches');
+      }
+    }, MATCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [mode, find, replace, isRegex, matchMode, prefixInput, variantPath, selectedComponents]);
+
+  const preview = (rule: TemplateRule) => {
+    onPreview({
+      ...rule,
+      ...(variantPath ? { variantPath } : {}),
+      ...(prefixes.length > 0 ? { prefixes } : {}),
+    });
+  };
+
   useInput((input, key) => {
     // Global escape handling
     if (key.escape || input === 'q') {
-      if (mode === 'suboptions') {
+      if (mode === 'suboptions' || mode === 'variants') {
         setMode('quick');
         setSelectedCategory(null);
         setSubOptionIndex(0);
@@ -224,7 +434,7 @@ export function Editor({ selectedCount, onPreview, onCancel }: EditorProps) {
           category.replace !== undefined
         ) {
           // Direct action - no sub-options
-          onPreview(category.find, category.replace, false);
+          preview(buildQuickRule(category));
         } else if (category.type !== 'simple') {
           // Has sub-options
           setSelectedCategory(category);
@@ -238,6 +448,13 @@ export function Editor({ selectedCount, onPreview, onCancel }: EditorProps) {
         setMode('manual');
         return;
       }
+      // 'v' to scope edits to a cva variant
+      if (input === 'v') {
+        const current = variantOptions?.findIndex((o) => o.path === variantPath) ?? 0;
+        setVariantIndex(Math.max(0, current));
+        setMode('variants');
+        return;
+      }
       // Number shortcuts for first 9 categories
       const num = parseInt(input, 10);
       if (num >= 1 && num <= Math.min(9, QUICK_ACTION_CATEGORIES.length)) {
@@ -247,7 +464,7 @@ export function Editor({ selectedCount, onPreview, onCancel }: EditorProps) {
           category.find !== undefined &&
           category.replace !== undefined
         ) {
-          onPreview(category.find, category.replace, false);
+          preview(buildQuickRule(category));
         } else if (category.type !== 'simple') {
           setSelectedCategory(category);
           setMode('suboptions');
@@ -258,46 +475,40 @@ export function Editor({ selectedCount, onPreview, onCancel }: EditorProps) {
     }
 
     // Sub-options mode navigation
-    if (mode === 'suboptions' && selectedCategory?.options) {
+    if (mode === 'suboptions' && selectedCategory) {
       if (key.upArrow) {
         setSubOptionIndex((prev) => Math.max(0, prev - 1));
         return;
       }
       if (key.downArrow) {
-        setSubOptionIndex((prev) =>
-          Math.min((selectedCategory.options?.length ?? 1) - 1, prev + 1)
-        );
+        setSubOptionIndex((prev) => Math.max(0, Math.min(subOptions.length - 1, prev + 1)));
         return;
       }
-      if (key.return) {
-        const option = selectedCategory.options[subOptionIndex];
-        if (selectedCategory.type === 'select-from') {
-          // Remove class - find the class, replace with empty
-          onPreview(`\\s*${option.value}`, '', true);
-        } else {
-          // select-to - use regex pattern to find existing class and replace
-          const pattern = CLASS_PATTERNS[option.value];
-          if (pattern) {
-            onPreview(pattern, option.value, true);
-          } else {
-            // Fallback to simple replacement
-            onPreview(option.value, option.value, false);
-          }
-        }
+      if (key.return && subOptions[subOptionIndex]) {
+        preview(buildQuickRule(selectedCategory, subOptions[subOptionIndex], subOptions));
         return;
       }
       // Number shortcuts
       const num = parseInt(input, 10);
-      if (num >= 1 && num <= Math.min(9, selectedCategory.options.length)) {
-        const option = selectedCategory.options[num - 1];
-        if (selectedCategory.type === 'select-from') {
-          onPreview(`\\s*${option.value}`, '', true);
-        } else {
-          const pattern = CLASS_PATTERNS[option.value];
-          if (pattern) {
-            onPreview(pattern, option.value, true);
-          }
-        }
+      if (num >= 1 && num <= Math.min(9, subOptions.length)) {
+        preview(buildQuickRule(selectedCategory, subOptions[num - 1], subOptions));
+        return;
+      }
+    }
+
+    // Variant picker navigation
+    if (mode === 'variants' && variantOptions) {
+      if (key.upArrow) {
+        setVariantIndex((prev) => Math.max(0, prev - 1));
+        return;
+      }
+      if (key.downArrow) {
+        setVariantIndex((prev) => Math.min(variantOptions.length - 1, prev + 1));
+        return;
+      }
+      if (key.return) {
+        setVariantPath(variantOptions[variantIndex]?.path);
+        setMode('quick');
         return;
       }
     }
@@ -305,13 +516,17 @@ export function Editor({ selectedCount, onPreview, onCancel }: EditorProps) {
     // Manual mode handling
     if (mode === 'manual') {
       if (key.tab) {
-        setActiveField((f) => (f === 'find' ? 'replace' : 'find'));
+        setActiveField((f) => (f === 'find' ? 'replace' : f === 'replace' ? 'prefixes' : 'find'));
         return;
       }
       if (input === 'r' && key.ctrl) {
         setIsRegex((r) => !r);
         return;
       }
+      if (input === 't' && key.ctrl) {
+        setMatchMode((m) => (m === 'token' ? 'text' : 'token'));
+        return;
+      }
     }
   });
 
@@ -331,7 +546,7 @@ export function Editor({ selectedCount, onPreview, onCancel }: EditorProps) {
     }
 
     setError(null);
-    onPreview(find, replace, isRegex);
+    preview({ find, replace, isRegex, matchMode });
   };
 
   // Render Quick Action Categories
@@ -379,7 +594,8 @@ export function Editor({ selectedCount, onPreview, onCancel }: EditorProps) {
         <Text color={THEME.muted}>
           <Text color={THEME.secondary}>1-{Math.min(9, QUICK_ACTION_CATEGORIES.length)}</Text> Quick
           │ <Text color={THEME.secondary}>↵</Text> Select │ <Text color={THEME.secondary}>m</Text>{' '}
-          Manual mode │ <Text color={THEME.secondary}>Esc</Text> Cancel
+          Manual mode │ <Text color={THEME.secondary}>v</Text> Variant │{' '}
+          <Text color={THEME.secondary}>Esc</Text> Cancel
         </Text>
       </Box>
     </Box>
@@ -387,7 +603,14 @@ export function Editor({ selectedCount, onPreview, onCancel }: EditorProps) {
 
   // Render Sub-options for selected category
   const renderSubOptionsMode = () => {
-    if (!selectedCategory?.options) return null;
+    if (!selectedCategory) return null;
+    const offset = Math.max(
+      0,
+      Math.min(
+        subOptionIndex - Math.floor(SUBOPTION_PAGE_SIZE / 2),
+        subOptions.length - SUBOPTION_PAGE_SIZE
+      )
+    );
 
     return (
       <Box flexDirection="column">
@@ -398,8 +621,19 @@ export function Editor({ selectedCount, onPreview, onCancel }: EditorProps) {
           </Text>
           <Text color={THEME.muted}>
             {' '}
-            ─ {selectedCategory.type === 'select-from' ? 'Select to remove' : 'Select target value'}
+            ─{' '}
+            {selectedCategory.type === 'select-from'
+              ? 'Select to remove'
+              : selectedCategory.type === 'scale'
+                ? 'Select a step'
+                : 'Select target value'}
           </Text>
+          {selectedCategory.scale && tailwindTheme && (
+            <Text color={THEME.muted}>
+              {' '}
+              │ {tailwindTheme.path ? tailwindTheme.path.split(/[\\/]/).pop() : 'Tailwind defaults'}
+            </Text>
+          )}
         </Box>
 
         <Box
@@ -409,17 +643,22 @@ export function Editor({ selectedCount, onPreview, onCancel }: EditorProps) {
           paddingX={1}
           marginBottom={1}
         >
-          {selectedCategory.options.map((option, idx) => {
-            const isCurrent = idx === subOptionIndex;
+          {subOptions.length === 0 && (
+            <Text color={themeError ? THEME.error : THEME.muted}>
+              {themeError ?? "Loading the project's Tailwind theme..."}
+            </Text>
+          )}
+          {subOptions.slice(offset, offset + SUBOPTION_PAGE_SIZE).map((option, idx) => {
+            const isCurrent = offset + idx === subOptionIndex;
             return (
-              <Box key={idx}>
+              <Box key={offset + idx}>
                 <Box width={3}>
                   <Text color={isCurrent ? THEME.primary : THEME.muted}>
                     {isCurrent ? SYMBOLS.arrow : ' '}
                   </Text>
                 </Box>
-                <Box width={3}>
-                  <Text color={THEME.muted}>{idx + 1}.</Text>
+                <Box width={4}>
+                  <Text color={THEME.muted}>{offset + idx + 1}.</Text>
                 </Box>
                 <Box width={18}>
                   <Text color={isCurrent ? THEME.accent : THEME.highlight} bold={isCurrent}>
@@ -442,6 +681,74 @@ export function Editor({ selectedCount, onPreview, onCancel }: EditorProps) {
     );
   };
 
+  // Render cva variant picker
+  const renderVariantsMode = () => {
+    const options = variantOptions ?? [];
+    const offset = Math.max(
+      0,
+      Math.min(variantIndex - Math.floor(VARIANT_PAGE_SIZE / 2), options.length - VARIANT_PAGE_SIZE)
+    );
+    const visible = options.slice(offset, offset + VARIANT_PAGE_SIZE);
+
+    return (
+      <Box flexDirection="column">
+        <Box marginBottom={1}>
+          <Text bold color={THEME.secondary}>
+            Variant Scope
+          </Text>
+          <Text color={THEME.muted}> ─ Limit edits to one cva variant</Text>
+        </Box>
+
+        <Box
+          flexDirection="column"
+          borderStyle="single"
+          borderColor={THEME.secondary}
+          paddingX={1}
+          marginBottom={1}
+        >
+          {!variantOptions && <Text color={THEME.muted}>Loading variants...</Text>}
+          {variantOptions && options.length === 1 && (
+            <Text color={THEME.muted}>No cva variants in the selected components</Text>
+          )}
+          {visible.map((option, idx) => {
+            const isCurrent = offset + idx === variantIndex;
+            const isActive = option.path === variantPath;
+            return (
+              <Box key={option.label}>
+                <Box width={3}>
+                  <Text color={isCurrent ? THEME.primary : THEME.muted}>
+                    {isCurrent ? SYMBOLS.arrow : ' '}
+                  </Text>
+                </Box>
+                <Box width={3}>
+                  <Text color={isActive ? THEME.success : THEME.muted}>
+                    {isActive ? SYMBOLS.check : ' '}
+                  </Text>
+                </Box>
+                <Box width={24}>
+                  <Text color={isCurrent ? THEME.accent : THEME.highlight} bold={isCurrent}>
+                    {option.label}
+                  </Text>
+                </Box>
+                <Text color={THEME.muted}>
+                  {option.path ?? 'no scope'} ({option.components} of {selectedCount})
+                </Text>
+              </Box>
+            );
+          })}
+        </Box>
+
+        <Box justifyContent="center">
+          <Text color={THEME.muted}>
+            <Text color={THEME.secondary}>↑/↓</Text> Navigate │{' '}
+            <Text color={THEME.secondary}>↵</Text> Use scope │{' '}
+            <Text color={THEME.secondary}>Esc</Text> Back
+          </Text>
+        </Box>
+      </Box>
+    );
+  };
+
   // Render Manual Mode
   const renderManualMode = () => (
     <Box flexDirection="column">
@@ -502,6 +809,26 @@ export function Editor({ selectedCount, onPreview, onCancel }: EditorProps) {
           </Box>
         </Box>
 
+        <Box marginBottom={1}>
+          <Box width={10}>
+            <Text color={activeField === 'prefixes' ? THEME.secondary : THEME.muted}>Only:</Text>
+          </Box>
+          <Box
+            borderStyle={activeField === 'prefixes' ? 'round' : 'single'}
+            borderColor={activeField === 'prefixes' ? THEME.secondary : THEME.muted}
+            paddingX={1}
+            width={40}
+          >
+            {activeField === 'prefixes' ? (
+              <TextInput value={prefixInput} onChange={setPrefixInput} onSubmit={handleSubmit} />
+            ) : (
+              <Text color={prefixInput ? THEME.highlight : THEME.muted}>
+                {prefixInput || '(any prefix, e.g. dark hover)'}
+              </Text>
+            )}
+          </Box>
+        </Box>
+
         <Box>
           <Box width={10} />
           <Text color={isRegex ? THEME.success : THEME.muted}>
@@ -509,12 +836,82 @@ export function Editor({ selectedCount, onPreview, onCancel }: EditorProps) {
           </Text>
           <Text color={THEME.muted}> (Ctrl+R)</Text>
         </Box>
+
+        <Box>
+          <Box width={10} />
+          <Text color={matchMode === 'token' ? THEME.success : THEME.muted}>
+            {matchMode === 'token' ? SYMBOLS.check : SYMBOLS.circle} Whole classes only
+          </Text>
+          <Text color={THEME.muted}> (Ctrl+T)</Text>
+        </Box>
+
+        {isRegex && (
+          <Box>
+            <Box width={10} />
+            <Text color={THEME.muted}>
+              Replace with <Text color={THEME.accent}>$1</Text>-
+              <Text color={THEME.accent}>$99</Text> groups,{' '}
+              <Text color={THEME.accent}>{'$<name>'}</Text> named groups,{' '}
+              <Text color={THEME.accent}>{'$&'}</Text> whole match,{' '}
+              <Text color={THEME.accent}>$$</Text> a literal $
+            </Text>
+          </Box>
+        )}
       </Box>
 
+      {find && (
+        <Box
+          flexDirection="column"
+          borderStyle="single"
+          borderColor={THEME.muted}
+          paddingX={1}
+          marginBottom={1}
+        >
+          {matchError ? (
+            <Text color={THEME.error}>
+              {SYMBOLS.cross} {matchError}
+            </Text>
+          ) : (
+            <Text color={THEME.muted}>
+              {matchResult ? describeMatches(matchResult) : 'No matches'}
+            </Text>
+          )}
+          {matchResult && matchResult.skipped.length > 0 && (
+            <Text color={THEME.accent}>
+              Skipped {matchResult.skipped.map((file) => file.path.split('/').pop()).join(', ')}:{' '}
+              {matchResult.skipped[0].error}
+            </Text>
+          )}
+          {matchResult?.matches.map((match, idx) => (
+            <Box key={idx} flexDirection="column">
+              <Box>
+                <Text color={THEME.muted}>
+                  {match.path.split('/').pop()}:{match.line}{' '}
+                </Text>
+                <MatchLine match={match} />
+              </Box>
+              <Box paddingLeft={2}>
+                <Text color={THEME.muted}>{SYMBOLS.arrow} </Text>
+                <Text color={match.replacement ? THEME.success : THEME.muted}>
+                  {match.replacement || '(deleted)'}
+                </Text>
+                {match.groups.map((group) => (
+                  <Text key={group.index} color={THEME.muted}>
+                    {'  '}${group.name ? `<${group.name}>` : group.index} ={' '}
+                    <Text color={THEME.accent}>{group.text}</Text>
+                  </Text>
+                ))}
+              </Box>
+            </Box>
+          ))}
+        </Box>
+      )}
+
       <Box justifyContent="center">
         <Text color={THEME.muted}>
           <Text color={THEME.secondary}>Tab</Text> Switch │ <Text color={THEME.secondary}>↵</Text>{' '}
           Preview │ <Text color={THEME.secondary}>Ctrl+R</Text> Regex │{' '}
+          <Text color={THEME.secondary}>Ctrl+T</Text> Tokens │{' '}
           <Text color={THEME.secondary}>Esc</Text> Back
         </Text>
       </Box>
@@ -529,10 +926,19 @@ export function Editor({ selectedCount, onPreview, onCancel }: EditorProps) {
         <Text color={THEME.muted}> │ </Text>
         <Text color={THEME.accent}>{selectedCount}</Text>
         <Text color={THEME.muted}> components selected</Text>
+        <Text color={THEME.muted}> │ Scope: </Text>
+        <Text color={variantPath ? THEME.accent : THEME.muted}>{variantPath ?? 'all classes'}</Text>
+        {prefixes.length > 0 && (
+          <>
+            <Text color={THEME.muted}> │ Only: </Text>
+            <Text color={THEME.accent}>{prefixes.map((prefix) => `${prefix}:`).join(' ')}</Text>
+          </>
+        )}
       </Box>
 
       {mode === 'quick' && renderQuickMode()}
       {mode === 'suboptions' && renderSubOptionsMode()}
+      {mode === 'variants' && renderVariantsMode()}
       {mode === 'manual' && renderManualMode()}
     </Box>
   );
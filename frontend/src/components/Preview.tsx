@@ -1,53 +1,91 @@
-import * as Diff from 'diff';
 import { Box, Text, useInput } from 'ink';
 import Spinner from 'ink-spinner';
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { SYMBOLS, THEME } from '../App.js';
 import * as api from '../api/client.js';
-import type { Preview } from '../types/index.js';
+import type { Preview, TemplateRule } from '../types/index.js';
+
+interface DiffLine {
+  text: string;
+  hunk: number;
+  header: boolean;
+}
+
+function hunkKey(path: string, hunkId: string): string {
+  return `${path}#${hunkId}`;
+}
+
+// Hunk headers followed by their lines, so each line knows the hunk it belongs to
+function getDiffLines(preview: Preview): DiffLine[] {
+  return preview.hunks.flatMap((hunk, index) => [
+    {
+      text: `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+      hunk: index,
+      header: true,
+    },
+    ...hunk.lines.map((text) => ({ text, hunk: index, header: false })),
+  ]);
+}
+
+// Diff lines shown at once
+const VISIBLE_LINES = 12;
 
 interface PreviewViewProps {
   componentPaths: string[];
-  find: string;
-  replace: string;
-  isRegex: boolean;
+  rule: TemplateRule;
   onApply: (message: string) => void;
   onCancel: () => void;
 }
 
-export function PreviewView({
-  componentPaths,
-  find,
-  replace,
-  isRegex,
-  onApply,
-  onCancel,
-}: PreviewViewProps) {
+export function PreviewView({ componentPaths, rule, onApply, onCancel }: PreviewViewProps) {
   const [loading, setLoading] = useState(true);
   const [applying, setApplying] = useState(false);
   const [previews, setPreviews] = useState<Preview[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [errorCode, setErrorCode] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
   const [currentIdx, setCurrentIdx] = useState(0);
   const [scrollOffset, setScrollOffset] = useState(0);
+  const [hunkIdx, setHunkIdx] = useState(0);
+  // Rejected hunks as path#hunkId; everything else is applied
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+  // Previewed files edited outside the tweaker since the preview was generated
+  const [stalePaths, setStalePaths] = useState<Set<string>>(new Set());
 
-  useEffect(() => {
-    const fetchPreview = async () => {
-      setLoading(true);
-      setError(null);
+  const fetchPreview = useCallback(async () => {
+    setLoading(true);
+    setError(null);
 
-      const result = await api.previewEdit(componentPaths, find, replace, isRegex);
+    const result = await api.previewEdit(componentPaths, rule);
 
-      if (result.success && result.data) {
-        setPreviews(result.data.previews);
-      } else {
-        setError(result.error?.message || 'Failed to generate preview');
-      }
+    if (result.success && result.data) {
+      setPreviews(result.data.previews);
+      setCurrentIdx(0);
+      setScrollOffset(0);
+      setHunkIdx(0);
+      setRejected(new Set());
+      setStalePaths(new Set());
+    } else {
+      setError(result.error?.message || 'Failed to generate preview');
+      setErrorCode(result.error?.code || null);
+    }
 
-      setLoading(false);
-    };
+    setLoading(false);
+  }, [componentPaths, rule]);
 
+  useEffect(() => {
     fetchPreview();
-  }, [componentPaths, find, replace, isRegex]);
+  }, [fetchPreview]);
+
+  useEffect(
+    () =>
+      api.subscribeToEvents((event) => {
+        if (event.external && componentPaths.includes(event.path)) {
+          setStalePaths((prev) => new Set(prev).add(event.path));
+        }
+      }),
+    [componentPaths]
+  );
 
   useInput((input, key) => {
     if (applying) return;
@@ -57,31 +95,100 @@ export function PreviewView({
       return;
     }
 
+    const preview = previews[currentIdx];
+
     if (key.leftArrow) {
       setCurrentIdx((i) => Math.max(0, i - 1));
       setScrollOffset(0);
+      setHunkIdx(0);
     } else if (key.rightArrow) {
       setCurrentIdx((i) => Math.min(previews.length - 1, i + 1));
       setScrollOffset(0);
+      setHunkIdx(0);
     } else if (key.upArrow) {
       setScrollOffset((o) => Math.max(0, o - 1));
-    } else if (key.downArrow) {
-      setScrollOffset((o) => o + 1);
+    } else if (key.downArrow && preview) {
+      const maxOffset = Math.max(0, getDiffLines(preview).length - VISIBLE_LINES);
+      setScrollOffset((o) => Math.min(maxOffset, o + 1));
+    } else if ((input === 'n' || input === 'p') && preview?.hunks.length) {
+      const next =
+        input === 'n' ? Math.min(preview.hunks.length - 1, hunkIdx + 1) : Math.max(0, hunkIdx - 1);
+      setHunkIdx(next);
+      setScrollOffset(getDiffLines(preview).findIndex((line) => line.header && line.hunk === next));
+    } else if (input === ' ' && preview?.hunks[hunkIdx]) {
+      toggleHunks(preview, [preview.hunks[hunkIdx].id]);
+    } else if (input === 'f' && preview) {
+      toggleHunks(
+        preview,
+        preview.hunks.map((hunk) => hunk.id)
+      );
+    } else if (input === 'r' && stalePaths.size > 0) {
+      fetchPreview();
     } else if (input === 'y' || key.return) {
       handleApply();
     }
   });
 
+  // Rejects the hunks if any of them is accepted, otherwise accepts them all
+  const toggleHunks = (preview: Preview, hunkIds: string[]) => {
+    setRejected((current) => {
+      const next = new Set(current);
+      const keys = hunkIds.map((id) => hunkKey(preview.path, id));
+      const reject = keys.some((k) => !current.has(k));
+      for (const k of keys) {
+        if (reject) next.add(k);
+        else next.delete(k);
+      }
+      return next;
+    });
+  };
+
+  const getAcceptedHunks = (preview: Preview): string[] =>
+    preview.hunks
+      .filter((hunk) => !rejected.has(hunkKey(preview.path, hunk.id)))
+      .map((hunk) => hunk.id);
+
+  // Accepted files whose edit breaks them; the backend refuses the whole apply
+  const getBlockedPreviews = (): Preview[] =>
+    previews.filter((p) => (p.issues?.length ?? 0) > 0 && getAcceptedHunks(p).length > 0);
+
   const handleApply = async () => {
+    const approved = previews.filter((p) => getAcceptedHunks(p).length > 0);
+    if (approved.length === 0) {
+      setNotice('Every hunk is rejected, nothing to apply.');
+      return;
+    }
+    if (getBlockedPreviews().length > 0) return;
+
     setApplying(true);
-    const result = await api.applyEdit(componentPaths, find, replace, isRegex);
+    setNotice(null);
+    // Everything accepted applies the rule as is; otherwise only the accepted hunks are sent
+    const result =
+      rejected.size === 0
+        ? await api.applyEdit(componentPaths, rule, api.getFingerprints(previews))
+        : await api.applyApproved(
+            approved.map((p) => ({
+              path: p.path,
+              hunks: getAcceptedHunks(p),
+              fingerprint: p.fingerprint,
+            })),
+            rule
+          );
 
     if (result.success && result.data) {
       onApply(
-        `Applied changes to ${result.data.modified.length} files. Backup: ${result.data.backup}`
+        `Applied changes to ${result.data.modified.length} files. Backup: ${result.data.backupId}`
+      );
+    } else if (result.error?.code === 'STALE_PREVIEW') {
+      // Show the diff against the current files instead of writing over the new edits
+      setApplying(false);
+      await fetchPreview();
+      setNotice(
+        'Files changed on disk since the preview. Review the refreshed diff and apply again.'
       );
     } else {
       setError(result.error?.message || 'Failed to apply changes');
+      setErrorCode(result.error?.code || null);
       setApplying(false);
     }
   };
@@ -104,9 +211,17 @@ export function PreviewView({
       <Box flexDirection="column">
         <Box borderStyle="round" borderColor={THEME.error} paddingX={2} paddingY={1}>
           <Text color={THEME.error}>
-            {SYMBOLS.cross} Error: {error}
+            {SYMBOLS.cross} {errorCode === 'REGEX_TIMEOUT' ? 'Regex timed out' : 'Error'}: {error}
           </Text>
         </Box>
+        {errorCode === 'REGEX_TIMEOUT' && (
+          <Box marginTop={1}>
+            <Text color={THEME.muted}>
+              The pattern backtracks too much on these files. Avoid nested or overlapping
+              quantifiers such as (a+)+ or \w+\w+.
+            </Text>
+          </Box>
+        )}
         <Box marginTop={1}>
           <Text color={THEME.muted}>Press </Text>
           <Text color={THEME.secondary}>q/Esc</Text>
@@ -124,7 +239,19 @@ export function PreviewView({
         </Box>
         <Box marginTop={1}>
           <Text color={THEME.muted}>Pattern: </Text>
-          <Text color={THEME.secondary}>"{find}"</Text>
+          <Text color={THEME.secondary}>
+            {rule.migration
+              ? `${rule.migration} migration`
+              : rule.scaleShift
+                ? `${rule.scaleShift.scale} ${rule.scaleShift.direction}`
+                : `"${rule.find}"`}
+          </Text>
+          {rule.variantPath && (
+            <>
+              <Text color={THEME.muted}> in </Text>
+              <Text color={THEME.accent}>{rule.variantPath}</Text>
+            </>
+          )}
         </Box>
         <Box marginTop={1}>
           <Text color={THEME.muted}>Press </Text>
@@ -137,18 +264,16 @@ export function PreviewView({
 
   const preview = previews[currentIdx];
   const totalChanges = previews.reduce((sum, p) => sum + p.changes, 0);
+  const totalHunks = previews.reduce((sum, p) => sum + p.hunks.length, 0);
+  const acceptedHunks = previews.reduce((sum, p) => sum + getAcceptedHunks(p).length, 0);
+  const acceptedFiles = previews.filter((p) => getAcceptedHunks(p).length > 0).length;
+  const fileAccepted = getAcceptedHunks(preview).length;
 
-  // Parse diff for display
-  const diffLines = Diff.createPatch(
-    preview.path,
-    preview.before,
-    preview.after,
-    'Original',
-    'Modified'
-  ).split('\n');
+  const diffLines = getDiffLines(preview);
 
-  const visibleLines = 12;
+  const visibleLines = VISIBLE_LINES;
   const displayLines = diffLines.slice(scrollOffset, scrollOffset + visibleLines);
+  const blockedFiles = getBlockedPreviews().length;
 
   return (
     <Box flexDirection="column">
@@ -167,7 +292,11 @@ export function PreviewView({
         </Box>
         <Box>
           <Text color={THEME.success}>+{totalChanges}</Text>
-          <Text color={THEME.muted}> total changes</Text>
+          <Text color={THEME.muted}> total changes │ </Text>
+          <Text color={acceptedHunks === totalHunks ? THEME.success : THEME.accent}>
+            {acceptedHunks}/{totalHunks}
+          </Text>
+          <Text color={THEME.muted}> hunks accepted</Text>
         </Box>
       </Box>
 
@@ -177,6 +306,16 @@ export function PreviewView({
           {SYMBOLS.arrow} {preview.path.split(/[/\\]/).pop()}
         </Text>
         <Text color={THEME.muted}> ({preview.changes} changes)</Text>
+        {fileAccepted === 0 ? (
+          <Text color={THEME.error}> skipped</Text>
+        ) : (
+          fileAccepted < preview.hunks.length && (
+            <Text color={THEME.accent}>
+              {' '}
+              {fileAccepted}/{preview.hunks.length} hunks
+            </Text>
+          )
+        )}
       </Box>
 
       {applying ? (
@@ -203,21 +342,34 @@ export function PreviewView({
             )}
 
             {displayLines.map((line, idx) => {
+              const hunk = preview.hunks[line.hunk];
+              const isRejected = rejected.has(hunkKey(preview.path, hunk.id));
               let color: string | undefined;
 
-              if (line.startsWith('+') && !line.startsWith('+++')) {
+              if (line.header) {
+                color = line.hunk === hunkIdx ? THEME.highlight : THEME.secondary;
+              } else if (isRejected) {
+                color = THEME.muted;
+              } else if (line.text.startsWith('+')) {
                 color = THEME.success;
-              } else if (line.startsWith('-') && !line.startsWith('---')) {
+              } else if (line.text.startsWith('-')) {
                 color = THEME.error;
-              } else if (line.startsWith('@@')) {
-                color = THEME.secondary;
               }
 
-              const displayText = line.slice(0, 70);
-              const isTruncated = line.length > 70;
+              const displayText = line.text.slice(0, 64);
+              const isTruncated = line.text.length > 64;
+
+              if (line.header) {
+                return (
+                  <Text key={idx} color={color} bold={line.hunk === hunkIdx}>
+                    {line.hunk === hunkIdx ? SYMBOLS.arrow : ' '} [{isRejected ? ' ' : 'x'}]{' '}
+                    {displayText}
+                  </Text>
+                );
+              }
 
               return (
-                <Text key={idx} color={color}>
+                <Text key={idx} color={color} strikethrough={isRejected}>
                   {displayText}
                   {isTruncated && <Text color={THEME.muted}>...</Text>}
                 </Text>
@@ -238,30 +390,161 @@ export function PreviewView({
             <Text color={THEME.error}>{SYMBOLS.box} deletions</Text>
           </Box>
 
-          {/* Apply Button */}
-          <Box
-            marginTop={1}
-            borderStyle="round"
-            borderColor={THEME.success}
-            paddingX={2}
-            justifyContent="center"
-          >
-            <Text color={THEME.success}>Press </Text>
-            <Text bold color={THEME.success}>
-              y
-            </Text>
-            <Text color={THEME.success}> or </Text>
-            <Text bold color={THEME.success}>
-              Enter
-            </Text>
-            <Text color={THEME.success}> to apply changes</Text>
-          </Box>
+          {/* Parse or type errors, the backend refuses to write this file */}
+          {preview.issues && preview.issues.length > 0 && (
+            <Box
+              marginTop={1}
+              flexDirection="column"
+              borderStyle="single"
+              borderColor={THEME.error}
+              paddingX={1}
+            >
+              <Text color={THEME.error}>
+                {SYMBOLS.cross} This edit breaks the file and will not be applied
+              </Text>
+              {preview.issues.slice(0, 3).map((issue, idx) => (
+                <Box key={idx}>
+                  <Box width={10}>
+                    <Text color={THEME.muted}>
+                      L{issue.line}:{issue.column}
+                    </Text>
+                  </Box>
+                  <Text color={THEME.error}>{issue.message.slice(0, 60)}</Text>
+                </Box>
+              ))}
+              {preview.issues.length > 3 && (
+                <Text color={THEME.muted}>+{preview.issues.length - 3} more</Text>
+              )}
+            </Box>
+          )}
+
+          {/* Conflicts resolved by the backend after the edit */}
+          {preview.conflicts && preview.conflicts.length > 0 && (
+            <Box
+              marginTop={1}
+              flexDirection="column"
+              borderStyle="single"
+              borderColor={THEME.accent}
+              paddingX={1}
+            >
+              <Text color={THEME.accent}>
+                {SYMBOLS.diamond} Resolved {preview.conflicts.length} class conflict
+                {preview.conflicts.length === 1 ? '' : 's'}
+              </Text>
+              {preview.conflicts.slice(0, 4).map((conflict, idx) => (
+                <Box key={idx}>
+                  <Box width={6}>
+                    <Text color={THEME.muted}>L{conflict.line}</Text>
+                  </Box>
+                  <Text color={THEME.error}>{conflict.removed}</Text>
+                  <Text color={THEME.muted}> removed, overridden by </Text>
+                  <Text color={THEME.success}>{conflict.kept}</Text>
+                </Box>
+              ))}
+              {preview.conflicts.length > 4 && (
+                <Text color={THEME.muted}>+{preview.conflicts.length - 4} more</Text>
+              )}
+            </Box>
+          )}
+
+          {/* Classes the project's Tailwind theme does not generate, e.g. a typo in a replacement */}
+          {preview.unknownClasses && preview.unknownClasses.length > 0 && (
+            <Box
+              marginTop={1}
+              flexDirection="column"
+              borderStyle="single"
+              borderColor={THEME.accent}
+              paddingX={1}
+            >
+              <Text color={THEME.accent}>
+                {SYMBOLS.diamond} {preview.unknownClasses.length} class
+                {preview.unknownClasses.length === 1 ? '' : 'es'} not in the Tailwind theme
+              </Text>
+              {preview.unknownClasses.slice(0, 4).map((unknown, idx) => (
+                <Box key={idx}>
+                  <Box width={6}>
+                    <Text color={THEME.muted}>L{unknown.line}</Text>
+                  </Box>
+                  <Text color={THEME.error}>{unknown.className}</Text>
+                  <Text color={THEME.muted}> is not on the {unknown.scale} scale</Text>
+                  {unknown.suggestion && (
+                    <>
+                      <Text color={THEME.muted}>, did you mean </Text>
+                      <Text color={THEME.success}>{unknown.suggestion}</Text>
+                      <Text color={THEME.muted}>?</Text>
+                    </>
+                  )}
+                </Box>
+              ))}
+              {preview.unknownClasses.length > 4 && (
+                <Text color={THEME.muted}>+{preview.unknownClasses.length - 4} more</Text>
+              )}
+            </Box>
+          )}
+
+          {stalePaths.size > 0 && (
+            <Box marginTop={1}>
+              <Text color={THEME.accent}>
+                {SYMBOLS.dot} {stalePaths.size} file{stalePaths.size === 1 ? '' : 's'} changed on
+                disk since this preview ─ press <Text color={THEME.secondary}>r</Text> to refresh
+              </Text>
+            </Box>
+          )}
+
+          {notice && (
+            <Box marginTop={1}>
+              <Text color={THEME.accent}>
+                {SYMBOLS.diamond} {notice}
+              </Text>
+            </Box>
+          )}
+
+          {/* Apply Button, replaced by what to fix while an accepted file would break */}
+          {blockedFiles > 0 ? (
+            <Box
+              marginTop={1}
+              borderStyle="round"
+              borderColor={THEME.error}
+              paddingX={2}
+              justifyContent="center"
+            >
+              <Text color={THEME.error}>
+                {SYMBOLS.cross} {blockedFiles} file{blockedFiles === 1 ? '' : 's'} would break ─
+                press <Text color={THEME.secondary}>f</Text> on {blockedFiles === 1 ? 'it' : 'them'}{' '}
+                to reject the file before applying
+              </Text>
+            </Box>
+          ) : (
+            <Box
+              marginTop={1}
+              borderStyle="round"
+              borderColor={THEME.success}
+              paddingX={2}
+              justifyContent="center"
+            >
+              <Text color={THEME.success}>Press </Text>
+              <Text bold color={THEME.success}>
+                y
+              </Text>
+              <Text color={THEME.success}> or </Text>
+              <Text bold color={THEME.success}>
+                Enter
+              </Text>
+              <Text color={THEME.success}>
+                {' '}
+                to apply {acceptedHunks} hunks in {acceptedFiles} files
+              </Text>
+            </Box>
+          )}
 
           {/* Controls */}
           <Box marginTop={1} justifyContent="center">
             <Text color={THEME.muted}>
               <Text color={THEME.secondary}>←/→</Text> Switch file │{' '}
               <Text color={THEME.secondary}>↑/↓</Text> Scroll │{' '}
+              <Text color={THEME.secondary}>n/p</Text> Hunk │{' '}
+              <Text color={THEME.secondary}>Space</Text> Toggle hunk │{' '}
+              <Text color={THEME.secondary}>f</Text> Toggle file │{' '}
               <Text color={THEME.secondary}>q/Esc</Text> Cancel
             </Text>
           </Box>
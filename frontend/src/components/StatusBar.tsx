@@ -17,6 +17,11 @@ const screenLabels: Record<Screen, { label: string; icon: string }> = {
   preview: { label: 'Preview', icon: '%' },
   templates: { label: 'Templates', icon: '@' },
   backups: { label: 'Backups', icon: '+' },
+  inventory: { label: 'Inventory', icon: '=' },
+  'style-report': { label: 'Style Report', icon: '!' },
+  a11y: { label: 'Accessibility', icon: '&' },
+  theme: { label: 'Theme', icon: '^' },
+  migration: { label: 'Migration', icon: '$' },
   help: { label: 'Help', icon: '?' },
 };
 
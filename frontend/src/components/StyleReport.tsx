@@ -0,0 +1,225 @@
+import { Box, Text, useInput } from 'ink';
+import Spinner from 'ink-spinner';
+import { useCallback, useEffect, useState } from 'react';
+import { SYMBOLS, THEME } from '../App.js';
+import * as api from '../api/client.js';
+import type { PolicyFinding, PolicyReport, Severity } from '../types/index.js';
+
+interface StyleReportProps {
+  onFixed: (message: string) => void;
+  onBack: () => void;
+}
+
+type Filter = 'all' | Severity;
+
+const FILTERS: Filter[] = ['all', 'error', 'warning', 'info'];
+const PAGE_SIZE = 10;
+
+const SEVERITY_COLORS: Record<Severity, string> = {
+  error: THEME.error,
+  warning: THEME.accent,
+  info: THEME.secondary,
+};
+
+export function StyleReport({ onFixed, onBack }: StyleReportProps) {
+  const [report, setReport] = useState<PolicyReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [fixing, setFixing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<Filter>('all');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    const result = await api.getPolicyReport();
+    if (result.success && result.data) {
+      setReport(result.data.report);
+      setError(null);
+    } else {
+      setError(result.error?.message || 'Failed to check style policy');
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const findings = (report?.findings ?? []).filter(
+    (finding) => filter === 'all' || finding.severity === filter
+  );
+  const selected: PolicyFinding | undefined = findings[selectedIndex];
+
+  const applyFix = async (finding: PolicyFinding) => {
+    if (!finding.fix) return;
+    setFixing(true);
+    const result = await api.batchAction(finding.fix.action, [finding.path], finding.fix.options);
+    setFixing(false);
+
+    if (result.success) {
+      onFixed(`${finding.fix.name} in ${finding.componentId}`);
+      await loadReport();
+      setSelectedIndex((i) => Math.max(0, Math.min(i, findings.length - 2)));
+    } else {
+      setError(result.error?.message || 'Failed to apply fix');
+    }
+  };
+
+  useInput((input, key) => {
+    if (loading || fixing) return;
+
+    if (key.escape || input === 'q') {
+      onBack();
+    } else if (key.upArrow) {
+      setSelectedIndex((i) => Math.max(0, i - 1));
+    } else if (key.downArrow) {
+      setSelectedIndex((i) => Math.min(findings.length - 1, i + 1));
+    } else if (key.tab) {
+      setFilter((current) => FILTERS[(FILTERS.indexOf(current) + 1) % FILTERS.length]);
+      setSelectedIndex(0);
+    } else if (input === 'f' && selected) {
+      applyFix(selected);
+    } else if (input === 'r') {
+      loadReport();
+    }
+  });
+
+  if (loading || fixing) {
+    return (
+      <Box borderStyle="round" borderColor={THEME.secondary} paddingX={2} paddingY={1}>
+        <Text color={THEME.success}>
+          <Spinner type="dots" />
+        </Text>
+        <Text> {fixing ? 'Applying fix...' : 'Checking style policy...'}</Text>
+      </Box>
+    );
+  }
+
+  if (!report) {
+    return (
+      <Box flexDirection="column">
+        <Box borderStyle="round" borderColor={THEME.error} paddingX={2} paddingY={1}>
+          <Text color={THEME.error}>
+            {SYMBOLS.cross} {error}
+          </Text>
+        </Box>
+        <Box marginTop={1}>
+          <Text color={THEME.muted}>Press Esc to go back</Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  if (!report.configured) {
+    return (
+      <Box flexDirection="column">
+        <Box borderStyle="round" borderColor={THEME.muted} paddingX={2} paddingY={1}>
+          <Text color={THEME.muted}>
+            No style policy. Add a stylePolicy with allowed, required and banned classes to
+            .shadcn-tweaker.json.
+          </Text>
+        </Box>
+        <Box marginTop={1}>
+          <Text color={THEME.muted}>Press Esc to go back</Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  const offset = Math.max(
+    0,
+    Math.min(selectedIndex - Math.floor(PAGE_SIZE / 2), findings.length - PAGE_SIZE)
+  );
+
+  return (
+    <Box flexDirection="column">
+      <Box marginBottom={1}>
+        <Text bold color={THEME.highlight}>
+          {SYMBOLS.diamond} Style Report
+        </Text>
+        <Text color={THEME.muted}> ─ {report.components} components │ </Text>
+        <Text color={THEME.error}>{report.counts.error} errors</Text>
+        <Text color={THEME.muted}> │ </Text>
+        <Text color={THEME.accent}>{report.counts.warning} warnings</Text>
+        <Text color={THEME.muted}> │ </Text>
+        <Text color={THEME.secondary}>{report.counts.info} info</Text>
+      </Box>
+
+      <Box marginBottom={1}>
+        {FILTERS.map((item) => (
+          <Text
+            key={item}
+            color={item === filter ? THEME.primary : THEME.muted}
+            bold={item === filter}
+          >
+            {item === filter ? `[${item}]` : ` ${item} `}{' '}
+          </Text>
+        ))}
+      </Box>
+
+      {error && (
+        <Box marginBottom={1}>
+          <Text color={THEME.error}>
+            {SYMBOLS.cross} {error}
+          </Text>
+        </Box>
+      )}
+
+      <Box
+        flexDirection="column"
+        borderStyle="single"
+        borderColor={THEME.muted}
+        paddingX={1}
+        marginBottom={1}
+      >
+        {findings.length === 0 ? (
+          <Text color={THEME.success}>{SYMBOLS.check} No findings</Text>
+        ) : (
+          findings.slice(offset, offset + PAGE_SIZE).map((finding, idx) => {
+            const isSelected = offset + idx === selectedIndex;
+            return (
+              <Box
+                key={`${finding.path}:${finding.line}:${finding.column}:${finding.className}:${finding.rule}`}
+              >
+                <Box width={3}>
+                  <Text color={isSelected ? THEME.primary : THEME.muted}>
+                    {isSelected ? SYMBOLS.arrow : ' '}
+                  </Text>
+                </Box>
+                <Box width={3}>
+                  <Text color={SEVERITY_COLORS[finding.severity]}>{SYMBOLS.dot}</Text>
+                </Box>
+                <Box width={36}>
+                  <Text color={isSelected ? THEME.secondary : THEME.highlight} bold={isSelected}>
+                    {finding.componentId}:{finding.line}
+                  </Text>
+                </Box>
+                <Text color={THEME.muted}>{finding.message}</Text>
+              </Box>
+            );
+          })
+        )}
+      </Box>
+
+      {selected && (
+        <Box marginBottom={1} paddingX={1}>
+          <Text color={THEME.muted}>Fix: </Text>
+          {selected.fix ? (
+            <Text color={THEME.success}>{selected.fix.name}</Text>
+          ) : (
+            <Text color={THEME.muted}>none, edit by hand</Text>
+          )}
+        </Box>
+      )}
+
+      <Box justifyContent="center">
+        <Text color={THEME.muted}>
+          <Text color={THEME.secondary}>↑/↓</Text> Navigate │{' '}
+          <Text color={THEME.secondary}>Tab</Text> Filter │ <Text color={THEME.secondary}>f</Text>{' '}
+          Apply fix │ <Text color={THEME.secondary}>r</Text> Recheck │{' '}
+          <Text color={THEME.secondary}>Esc</Text> Back
+        </Text>
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,182 @@
+import { Box, Text, useInput } from 'ink';
+import Spinner from 'ink-spinner';
+import { useEffect, useState } from 'react';
+import { SYMBOLS, THEME } from '../App.js';
+import * as api from '../api/client.js';
+import type { ComponentMigration, MigrationReport, TemplateRule } from '../types/index.js';
+
+interface TailwindMigrationProps {
+  // Opens the preview of the migration in these components
+  onPreview: (componentPaths: string[], rule: TemplateRule) => void;
+  onBack: () => void;
+}
+
+const MIGRATION_RULE: TemplateRule = {
+  find: '',
+  replace: '',
+  isRegex: false,
+  matchMode: 'token',
+  migration: 'tailwind-v4',
+};
+const PAGE_SIZE = 10;
+
+export function TailwindMigration({ onPreview, onBack }: TailwindMigrationProps) {
+  const [report, setReport] = useState<MigrationReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  useEffect(() => {
+    api.getMigrationReport().then((result) => {
+      if (result.success && result.data) {
+        setReport(result.data.report);
+      } else {
+        setError(result.error?.message || 'Failed to check Tailwind 4 migration');
+      }
+      setLoading(false);
+    });
+  }, []);
+
+  const pending = report?.pending ?? [];
+  const selected: ComponentMigration | undefined = pending[selectedIndex];
+  const migratable = pending.filter((component) => component.changes.length > 0);
+
+  useInput((input, key) => {
+    if (loading) return;
+
+    if (key.escape || input === 'q') {
+      onBack();
+    } else if (key.upArrow) {
+      setSelectedIndex((i) => Math.max(0, i - 1));
+    } else if (key.downArrow) {
+      setSelectedIndex((i) => Math.min(pending.length - 1, i + 1));
+    } else if (key.return && selected && selected.changes.length > 0) {
+      onPreview([selected.path], MIGRATION_RULE);
+    } else if (input === 'a' && migratable.length > 0) {
+      onPreview(
+        migratable.map((component) => component.path),
+        MIGRATION_RULE
+      );
+    }
+  });
+
+  if (loading) {
+    return (
+      <Box borderStyle="round" borderColor={THEME.secondary} paddingX={2} paddingY={1}>
+        <Text color={THEME.success}>
+          <Spinner type="dots" />
+        </Text>
+        <Text> Checking class names...</Text>
+      </Box>
+    );
+  }
+
+  if (error || !report) {
+    return (
+      <Box flexDirection="column">
+        <Box borderStyle="round" borderColor={THEME.error} paddingX={2} paddingY={1}>
+          <Text color={THEME.error}>
+            {SYMBOLS.cross} {error}
+          </Text>
+        </Box>
+        <Box marginTop={1}>
+          <Text color={THEME.muted}>Press Esc to go back</Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  const offset = Math.max(
+    0,
+    Math.min(selectedIndex - Math.floor(PAGE_SIZE / 2), pending.length - PAGE_SIZE)
+  );
+
+  return (
+    <Box flexDirection="column">
+      <Box marginBottom={1}>
+        <Text bold color={THEME.highlight}>
+          {SYMBOLS.diamond} Tailwind v4 Migration
+        </Text>
+        <Text color={THEME.muted}> ─ {report.components} components │ </Text>
+        <Text color={THEME.accent}>{pending.length} to migrate</Text>
+        <Text color={THEME.muted}> │ {report.totalChanges} classes │ </Text>
+        <Text color={THEME.success}>{report.migrated} already on v4</Text>
+      </Box>
+
+      {report.tailwindMajor !== 4 && (
+        <Box marginBottom={1}>
+          <Text color={THEME.accent}>
+            {SYMBOLS.diamond} The project is not on Tailwind 4
+            {report.tailwindMajor ? ` (v${report.tailwindMajor})` : ''}. Upgrade it before renaming
+            classes.
+          </Text>
+        </Box>
+      )}
+
+      <Box
+        flexDirection="column"
+        borderStyle="single"
+        borderColor={THEME.muted}
+        paddingX={1}
+        marginBottom={1}
+      >
+        {pending.length === 0 ? (
+          <Text color={THEME.success}>{SYMBOLS.check} No Tailwind 3 class names left</Text>
+        ) : (
+          pending.slice(offset, offset + PAGE_SIZE).map((component, idx) => {
+            const isSelected = offset + idx === selectedIndex;
+            const count = component.changes.reduce((sum, change) => sum + change.count, 0);
+            return (
+              <Box key={component.path}>
+                <Box width={3}>
+                  <Text color={isSelected ? THEME.primary : THEME.muted}>
+                    {isSelected ? SYMBOLS.arrow : ' '}
+                  </Text>
+                </Box>
+                <Box width={40}>
+                  <Text color={isSelected ? THEME.secondary : THEME.highlight} bold={isSelected}>
+                    {component.componentId}
+                  </Text>
+                </Box>
+                <Text color={THEME.muted}>{count} classes</Text>
+                {component.unresolved.length > 0 && (
+                  <Text color={THEME.accent}> │ {component.unresolved.length} by hand</Text>
+                )}
+              </Box>
+            );
+          })
+        )}
+      </Box>
+
+      {selected && (
+        <Box flexDirection="column" marginBottom={1} paddingX={1}>
+          {selected.changes.map((change) => (
+            <Box key={`${change.from}:${change.to}`}>
+              <Text color={THEME.error}>{change.from}</Text>
+              <Text color={THEME.muted}> → </Text>
+              {change.to ? (
+                <Text color={THEME.success}>{change.to}</Text>
+              ) : (
+                <Text color={THEME.muted}>merged into the color</Text>
+              )}
+              {change.count > 1 && <Text color={THEME.muted}> ×{change.count}</Text>}
+            </Box>
+          ))}
+          {selected.unresolved.length > 0 && (
+            <Text color={THEME.accent}>
+              No color to merge into, edit by hand: {selected.unresolved.join(' ')}
+            </Text>
+          )}
+        </Box>
+      )}
+
+      <Box justifyContent="center">
+        <Text color={THEME.muted}>
+          <Text color={THEME.secondary}>↑/↓</Text> Navigate │ <Text color={THEME.secondary}>↵</Text>{' '}
+          Preview component │ <Text color={THEME.secondary}>a</Text> Preview all │{' '}
+          <Text color={THEME.secondary}>Esc</Text> Back
+        </Text>
+      </Box>
+    </Box>
+  );
+}
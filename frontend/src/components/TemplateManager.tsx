@@ -5,13 +5,23 @@ import TextInput from 'ink-text-input';
 import { useCallback, useEffect, useState } from 'react';
 import { SYMBOLS, THEME } from '../App.js';
 import * as api from '../api/client.js';
-import type { Preview, Template, TemplateRule } from '../types/index.js';
+import { getScaleOptions, useTailwindTheme } from '../hooks/useTailwindTheme.js';
+import type {
+  Preview,
+  ScaleShift,
+  Template,
+  TemplateRule,
+  ThemePreset,
+  ThemeTransformRequest,
+} from '../types/index.js';
 
 interface TemplateManagerProps {
   onApplyTemplate: (rules: TemplateRule[]) => void;
   onBack: () => void;
   selectedPaths?: string[];
   onDirectApply?: (message: string) => void;
+  // Opens the theme screen on the preview of a color transform
+  onPreviewTheme?: (transform: ThemeTransformRequest) => void;
 }
 
 type Mode = 'list' | 'suboptions' | 'create' | 'view' | 'select-components' | 'confirm';
@@ -23,6 +33,8 @@ type Mode = 'list' | 'suboptions' | 'create' | 'view' | 'select-components' | 'c
 interface SubOption {
   label: string;
   value: string;
+  scaleShift?: ScaleShift;
+  themeTransform?: ThemeTransformRequest;
 }
 
 interface QuickTemplate {
@@ -30,66 +42,15 @@ interface QuickTemplate {
   label: string;
   description: string;
   icon: string;
-  type: 'select-to' | 'select-from' | 'simple';
+  type: 'select-to' | 'select-from' | 'scale' | 'theme' | 'simple';
   options?: SubOption[];
+  // select-to options come from this theme scale
+  scale?: string;
   find?: string;
   replace?: string;
   isRegex?: boolean;
 }
 
-// Helper function to generate class patterns
-const createClassPattern = (prefix: string, values: string[]): Record<string, string> => {
-  const pattern = `\\b${prefix}(-${values.join('|-')})?\\b`;
-  return Object.fromEntries(values.map((value) => [`${prefix}-${value}`, pattern]));
-};
-
-// Regex patterns for matching existing classes
-const CLASS_PATTERNS: Record<string, string> = {
-  ...createClassPattern('rounded', ['none', 'sm', 'md', 'lg', 'xl', '2xl', '3xl', 'full']),
-  rounded: '\\brounded(-none|-sm|-md|-lg|-xl|-2xl|-3xl|-full)?\\b',
-  ...createClassPattern('ring', ['0', '1', '2', '4', '8']),
-  ...createClassPattern('shadow', ['none', 'sm', 'md', 'lg', 'xl', '2xl']),
-  shadow: '\\bshadow(-none|-sm|-md|-lg|-xl|-2xl)?\\b',
-  ...createClassPattern('text', ['xs', 'sm', 'base', 'lg', 'xl', '2xl']),
-  ...createClassPattern('gap', ['0', '1', '2', '3', '4', '6', '8']),
-  ...createClassPattern('p', ['0', '1', '2', '3', '4', '6', '8', '10', '12', '16', '20', '24']),
-  ...createClassPattern('m', ['0', '1', '2', '3', '4', '6', '8', '10', '12', '16', '20', '24']),
-  ...createClassPattern('font', [
-    'thin',
-    'extralight',
-    'light',
-    'normal',
-    'medium',
-    'semibold',
-    'bold',
-    'extrabold',
-    'black',
-  ]),
-  'border-0': '\\bborder(-0|-2|-4|-8)?\\b(?!-)',
-  border: '\\bborder(-0|-2|-4|-8)?\\b(?!-)',
-  'border-2': '\\bborder(-0|-2|-4|-8)?\\b(?!-)',
-  'border-4': '\\bborder(-0|-2|-4|-8)?\\b(?!-)',
-  'border-8': '\\bborder(-0|-2|-4|-8)?\\b(?!-)',
-  ...createClassPattern('opacity', [
-    '0',
-    '5',
-    '10',
-    '20',
-    '25',
-    '30',
-    '40',
-    '50',
-    '60',
-    '70',
-    '75',
-    '80',
-    '90',
-    '95',
-    '100',
-  ]),
-  ...createClassPattern('duration', ['75', '100', '150', '200', '300', '500', '700', '1000']),
-};
-
 const QUICK_TEMPLATES: QuickTemplate[] = [
   {
     id: 'quick-border-radius',
@@ -97,17 +58,7 @@ const QUICK_TEMPLATES: QuickTemplate[] = [
     description: 'Update rounded-* classes',
     icon: '',
     type: 'select-to',
-    options: [
-      { label: 'none (sharp)', value: 'rounded-none' },
-      { label: 'sm (2px)', value: 'rounded-sm' },
-      { label: 'default (4px)', value: 'rounded' },
-      { label: 'md (6px)', value: 'rounded-md' },
-      { label: 'lg (8px)', value: 'rounded-lg' },
-      { label: 'xl (12px)', value: 'rounded-xl' },
-      { label: '2xl (16px)', value: 'rounded-2xl' },
-      { label: '3xl (24px)', value: 'rounded-3xl' },
-      { label: 'full (pill)', value: 'rounded-full' },
-    ],
+    scale: 'radius',
   },
   {
     id: 'quick-ring-size',
@@ -115,13 +66,7 @@ const QUICK_TEMPLATES: QuickTemplate[] = [
     description: 'Focus ring width',
     icon: '',
     type: 'select-to',
-    options: [
-      { label: '0 (none)', value: 'ring-0' },
-      { label: '1 (1px)', value: 'ring-1' },
-      { label: '2 (2px)', value: 'ring-2' },
-      { label: '4 (4px)', value: 'ring-4' },
-      { label: '8 (8px)', value: 'ring-8' },
-    ],
+    scale: 'ring',
   },
   {
     id: 'quick-shadow',
@@ -129,15 +74,7 @@ const QUICK_TEMPLATES: QuickTemplate[] = [
     description: 'Update shadow depth',
     icon: '',
     type: 'select-to',
-    options: [
-      { label: 'none', value: 'shadow-none' },
-      { label: 'sm (subtle)', value: 'shadow-sm' },
-      { label: 'default', value: 'shadow' },
-      { label: 'md (medium)', value: 'shadow-md' },
-      { label: 'lg (large)', value: 'shadow-lg' },
-      { label: 'xl (huge)', value: 'shadow-xl' },
-      { label: '2xl', value: 'shadow-2xl' },
-    ],
+    scale: 'shadow',
   },
   {
     id: 'quick-text-size',
@@ -145,14 +82,7 @@ const QUICK_TEMPLATES: QuickTemplate[] = [
     description: 'Typography scale',
     icon: '',
     type: 'select-to',
-    options: [
-      { label: 'xs (12px)', value: 'text-xs' },
-      { label: 'sm (14px)', value: 'text-sm' },
-      { label: 'base (16px)', value: 'text-base' },
-      { label: 'lg (18px)', value: 'text-lg' },
-      { label: 'xl (20px)', value: 'text-xl' },
-      { label: '2xl (24px)', value: 'text-2xl' },
-    ],
+    scale: 'text-size',
   },
   {
     id: 'quick-padding',
@@ -160,15 +90,7 @@ const QUICK_TEMPLATES: QuickTemplate[] = [
     description: 'Internal spacing',
     icon: '',
     type: 'select-to',
-    options: [
-      { label: '0 (none)', value: 'p-0' },
-      { label: '1 (4px)', value: 'p-1' },
-      { label: '2 (8px)', value: 'p-2' },
-      { label: '3 (12px)', value: 'p-3' },
-      { label: '4 (16px)', value: 'p-4' },
-      { label: '6 (24px)', value: 'p-6' },
-      { label: '8 (32px)', value: 'p-8' },
-    ],
+    scale: 'spacing',
   },
   {
     id: 'quick-font-weight',
@@ -176,14 +98,75 @@ const QUICK_TEMPLATES: QuickTemplate[] = [
     description: 'Text boldness',
     icon: '',
     type: 'select-to',
+    scale: 'font-weight',
+  },
+  {
+    id: 'quick-step-scale',
+    label: 'Step Along Scale',
+    description: 'Relative size changes',
+    icon: '',
+    type: 'scale',
     options: [
-      { label: 'thin (100)', value: 'font-thin' },
-      { label: 'light (300)', value: 'font-light' },
-      { label: 'normal (400)', value: 'font-normal' },
-      { label: 'medium (500)', value: 'font-medium' },
-      { label: 'semibold (600)', value: 'font-semibold' },
-      { label: 'bold (700)', value: 'font-bold' },
-      { label: 'extrabold (800)', value: 'font-extrabold' },
+      {
+        label: 'radius one step up',
+        value: 'rounded +1',
+        scaleShift: { scale: 'radius', direction: 'up' },
+      },
+      {
+        label: 'radius one step down',
+        value: 'rounded -1',
+        scaleShift: { scale: 'radius', direction: 'down' },
+      },
+      {
+        label: 'shadow one step up',
+        value: 'shadow +1',
+        scaleShift: { scale: 'shadow', direction: 'up' },
+      },
+      {
+        label: 'shadow one step down',
+        value: 'shadow -1',
+        scaleShift: { scale: 'shadow', direction: 'down' },
+      },
+      {
+        label: 'text size one step up',
+        value: 'text +1',
+        scaleShift: { scale: 'text-size', direction: 'up' },
+      },
+      {
+        label: 'text size one step down',
+        value: 'text -1',
+        scaleShift: { scale: 'text-size', direction: 'down' },
+      },
+      {
+        label: 'font weight one step up',
+        value: 'font +1',
+        scaleShift: { scale: 'font-weight', direction: 'up' },
+      },
+      {
+        label: 'font weight one step down',
+        value: 'font -1',
+        scaleShift: { scale: 'font-weight', direction: 'down' },
+      },
+      {
+        label: 'ring width one step up',
+        value: 'ring +1',
+        scaleShift: { scale: 'ring', direction: 'up' },
+      },
+      {
+        label: 'ring width one step down',
+        value: 'ring -1',
+        scaleShift: { scale: 'ring', direction: 'down' },
+      },
+      {
+        label: 'padding, margin and gap',
+        value: 'spacing +25%',
+        scaleShift: { scale: 'spacing', direction: 'up', percent: 25 },
+      },
+      {
+        label: 'padding, margin and gap',
+        value: 'spacing -25%',
+        scaleShift: { scale: 'spacing', direction: 'down', percent: 25 },
+      },
     ],
   },
   {
@@ -207,11 +190,68 @@ const QUICK_TEMPLATES: QuickTemplate[] = [
     description: 'Better keyboard UX',
     icon: '',
     type: 'simple',
-    find: 'focus:',
-    replace: 'focus-visible:',
+    find: 'focus:(\\S+)',
+    replace: 'focus-visible:$1',
+    isRegex: true,
+  },
+  {
+    id: 'quick-theme-colors',
+    label: 'Theme Colors',
+    description: 'Color variables in globals.css',
+    icon: '',
+    type: 'theme',
+    options: [
+      {
+        label: 'shift every hue by 20°',
+        value: 'hue +20°',
+        themeTransform: { transform: { type: 'hue-shift', degrees: 20 } },
+      },
+      {
+        label: 'shift every hue back by 20°',
+        value: 'hue -20°',
+        themeTransform: { transform: { type: 'hue-shift', degrees: -20 } },
+      },
+      {
+        label: 'lighten every color',
+        value: 'lightness +5%',
+        themeTransform: { transform: { type: 'lighten', amount: 5 } },
+      },
+      {
+        label: 'darken every color',
+        value: 'lightness -5%',
+        themeTransform: { transform: { type: 'lighten', amount: -5 } },
+      },
+      {
+        label: 'darken --primary in dark mode',
+        value: 'primary -5% dark',
+        themeTransform: {
+          transform: { type: 'lighten', amount: -5 },
+          tokens: ['--primary'],
+          scopes: ['dark'],
+        },
+      },
+      {
+        label: 'convert colors to OKLCH',
+        value: 'to oklch()',
+        themeTransform: { transform: { type: 'convert', format: 'oklch' } },
+      },
+      {
+        label: 'foregrounds to WCAG AA',
+        value: 'contrast 4.5:1',
+        themeTransform: { transform: { type: 'contrast', ratio: 4.5 } },
+      },
+      {
+        label: 'foregrounds to WCAG AAA',
+        value: 'contrast 7:1',
+        themeTransform: { transform: { type: 'contrast', ratio: 7 } },
+      },
+    ],
   },
 ];
 
+// Spacing scales run to dozens of values, so long option lists scroll
+const SUBOPTION_PAGE_SIZE = 12;
+
 // Helper components
 const LoadingSpinner = ({ message }: { message: string }) => (
   <Box borderStyle="round" borderColor={THEME.secondary} paddingX={2} paddingY={1}>
@@ -236,6 +276,7 @@ export function TemplateManager({
   onBack,
   selectedPaths = [],
   onDirectApply,
+  onPreviewTheme,
 }: TemplateManagerProps) {
   const [templates, setTemplates] = useState<Template[]>([]);
   const [loading, setLoading] = useState(true);
@@ -245,9 +286,15 @@ export function TemplateManager({
   const [mode, setMode] = useState<Mode>('list');
   const [cursor, setCursor] = useState(0);
   const [selectedTemplate, setSelectedTemplate] = useState<Template | null>(null);
+  const [presets, setPresets] = useState<ThemePreset[]>([]);
+  const [selectedPreset, setSelectedPreset] = useState<ThemePreset | null>(null);
 
   const [selectedQuickTemplate, setSelectedQuickTemplate] = useState<QuickTemplate | null>(null);
   const [subOptionCursor, setSubOptionCursor] = useState(0);
+  const { theme: tailwindTheme, error: themeError } = useTailwindTheme();
+  const subOptions = selectedQuickTemplate?.scale
+    ? getScaleOptions(tailwindTheme, selectedQuickTemplate.scale)
+    : (selectedQuickTemplate?.options ?? []);
 
   const [previews, setPreviews] = useState<Preview[]>([]);
   const [previewIdx, setPreviewIdx] = useState(0);
@@ -269,6 +316,7 @@ export function TemplateManager({
   const totalQuickTemplates = QUICK_TEMPLATES.length;
   const allItems = [
     ...QUICK_TEMPLATES.map((qt) => ({ type: 'quick' as const, item: qt })),
+    ...presets.map((preset) => ({ type: 'preset' as const, item: preset })),
     ...templates.map((t) => ({ type: 'user' as const, item: t })),
   ];
 
@@ -301,8 +349,33 @@ export function TemplateManager({
   useEffect(() => {
     fetchTemplates();
     fetchComponents();
+    api.getPresets().then((result) => {
+      if (result.success && result.data) setPresets(result.data.presets);
+    });
   }, [fetchTemplates, fetchComponents]);
 
+  // Presets run on the selected components, or on every component when none are selected
+  const fetchPresetPreview = async (preset: ThemePreset) => {
+    setLoadingPreview(true);
+    setError(null);
+
+    const result = await api.previewPreset(
+      preset.id,
+      selectedPaths.length > 0 ? selectedPaths : undefined
+    );
+
+    if (result.success && result.data) {
+      setSelectedPreset(preset);
+      setPreviews(result.data.previews);
+      setPreviewIdx(0);
+      setScrollOffset(0);
+      setMode('confirm');
+    } else {
+      setError(result.error?.message || 'Failed to preview preset');
+    }
+    setLoadingPreview(false);
+  };
+
   const fetchPreviewForRule = async (rule: TemplateRule) => {
     const pathsToUse = Array.from(
       internalSelectedPaths.size > 0 ? internalSelectedPaths : new Set(selectedPaths)
@@ -317,7 +390,7 @@ export function TemplateManager({
     setError(null);
     setPendingRule(rule);
 
-    const result = await api.previewEdit(pathsToUse, rule.find, rule.replace, rule.isRegex);
+    const result = await api.previewEdit(pathsToUse, rule);
 
     if (result.success && result.data) {
       setPreviews(result.data.previews);
@@ -337,7 +410,7 @@ export function TemplateManager({
     const allPreviews: Preview[] = [];
 
     for (const rule of template.rules) {
-      const result = await api.previewEdit(selectedPaths, rule.find, rule.replace, rule.isRegex);
+      const result = await api.previewEdit(selectedPaths, rule);
       if (result.success && result.data) {
         for (const preview of result.data.previews) {
           const existing = allPreviews.find((p) => p.path === preview.path);
@@ -365,6 +438,7 @@ export function TemplateManager({
         find: qt.find,
         replace: qt.replace,
         isRegex: qt.isRegex || false,
+        matchMode: 'token',
       };
       setSelectedQuickTemplate(qt);
       setPendingRule(rule);
@@ -384,23 +458,31 @@ export function TemplateManager({
   const handleSubOptionSelect = (option: SubOption) => {
     if (!selectedQuickTemplate) return;
 
-    let rule: TemplateRule;
-
-    if (selectedQuickTemplate.type === 'select-from') {
-      rule = {
-        find: `\\s*${option.value}`,
-        replace: '',
-        isRegex: true,
-      };
-    } else {
-      const pattern = CLASS_PATTERNS[option.value];
-      rule = {
-        find: pattern || option.value,
-        replace: option.value,
-        isRegex: !!pattern,
-      };
+    // Theme colors live in the CSS file, not in components, so there is nothing to select
+    if (selectedQuickTemplate.type === 'theme') {
+      if (option.themeTransform) onPreviewTheme?.(option.themeTransform);
+      return;
     }
 
+    // Quick actions match whole class tokens, so p-2 never rewrites p-20
+    const rule: TemplateRule =
+      selectedQuickTemplate.type === 'scale'
+        ? {
+            find: '',
+            replace: '',
+            isRegex: false,
+            matchMode: 'token',
+            scaleShift: option.scaleShift,
+          }
+        : selectedQuickTemplate.type === 'select-from'
+          ? { find: option.value, replace: '', isRegex: false, matchMode: 'token' }
+          : {
+              find: subOptions.map((o) => o.value).join(' '),
+              replace: option.value,
+              isRegex: false,
+              matchMode: 'token',
+            };
+
     setPendingRule(rule);
     setMode('select-components');
     setComponentCursor(0);
@@ -463,7 +545,7 @@ export function TemplateManager({
       return;
     }
 
-    if (mode === 'suboptions' && selectedQuickTemplate?.options) {
+    if (mode === 'suboptions' && selectedQuickTemplate) {
       if (key.escape || input === 'q') {
         setMode('list');
         setSelectedQuickTemplate(null);
@@ -474,18 +556,16 @@ export function TemplateManager({
         return;
       }
       if (key.downArrow) {
-        setSubOptionCursor((c) =>
-          Math.min((selectedQuickTemplate.options?.length ?? 1) - 1, c + 1)
-        );
+        setSubOptionCursor((c) => Math.max(0, Math.min(subOptions.length - 1, c + 1)));
         return;
       }
-      if (key.return) {
-        handleSubOptionSelect(selectedQuickTemplate.options[subOptionCursor]);
+      if (key.return && subOptions[subOptionCursor]) {
+        handleSubOptionSelect(subOptions[subOptionCursor]);
         return;
       }
       const num = parseInt(input, 10);
-      if (num >= 1 && num <= Math.min(9, selectedQuickTemplate.options.length)) {
-        handleSubOptionSelect(selectedQuickTemplate.options[num - 1]);
+      if (num >= 1 && num <= Math.min(9, subOptions.length)) {
+        handleSubOptionSelect(subOptions[num - 1]);
         return;
       }
       return;
@@ -514,6 +594,7 @@ export function TemplateManager({
         setMode('list');
         setPreviews([]);
         setSelectedQuickTemplate(null);
+        setSelectedPreset(null);
         setPendingRule(null);
       } else if (key.leftArrow) {
         setPreviewIdx((i) => Math.max(0, i - 1));
@@ -554,6 +635,7 @@ export function TemplateManager({
     }
 
     // List mode
+    if (loadingPreview) return;
     if (key.escape || input === 'q') {
       onBack();
     } else if (key.upArrow) {
@@ -565,6 +647,8 @@ export function TemplateManager({
       if (selected) {
         if (selected.type === 'quick') {
           handleQuickTemplateSelect(selected.item as QuickTemplate);
+        } else if (selected.type === 'preset') {
+          fetchPresetPreview(selected.item as ThemePreset);
         } else {
           setSelectedTemplate(selected.item as Template);
           setMode('view');
@@ -619,14 +703,31 @@ export function TemplateManager({
 
     setApplying(true);
 
-    if (pendingRule) {
-      const result = await api.applyEdit(
-        pathsToUse,
-        pendingRule.find,
-        pendingRule.replace,
-        pendingRule.isRegex
+    if (selectedPreset) {
+      // Components and the theme file are written together, with one backup
+      const result = await api.applyApproved(
+        previews.map((preview) => ({
+          path: preview.path,
+          after: preview.after,
+          fingerprint: preview.fingerprint,
+        }))
       );
       setApplying(false);
+      setSelectedPreset(null);
+
+      if (result.success && result.data) {
+        if (onDirectApply) {
+          onDirectApply(`Applied "${selectedPreset.name}" to ${result.data.modified.length} files`);
+        } else {
+          setMode('list');
+        }
+      } else {
+        setError(result.error?.message || 'Failed to apply preset');
+        setMode('list');
+      }
+    } else if (pendingRule) {
+      const result = await api.applyEdit(pathsToUse, pendingRule, api.getFingerprints(previews));
+      setApplying(false);
 
       if (result.success && result.data) {
         const label = selectedQuickTemplate?.label || 'Quick action';
@@ -640,7 +741,11 @@ export function TemplateManager({
         setMode('list');
       }
     } else if (selectedTemplate) {
-      const result = await api.applyTemplate(selectedTemplate.id, pathsToUse);
+      const result = await api.applyTemplate(
+        selectedTemplate.id,
+        pathsToUse,
+        api.getFingerprints(previews)
+      );
       setApplying(false);
 
       if (result.success && result.data) {
@@ -663,7 +768,15 @@ export function TemplateManager({
   }
 
   // Sub-options mode
-  if (mode === 'suboptions' && selectedQuickTemplate?.options) {
+  if (mode === 'suboptions' && selectedQuickTemplate) {
+    const offset = Math.max(
+      0,
+      Math.min(
+        subOptionCursor - Math.floor(SUBOPTION_PAGE_SIZE / 2),
+        subOptions.length - SUBOPTION_PAGE_SIZE
+      )
+    );
+
     return (
       <Box flexDirection="column">
         <Box marginBottom={1}>
@@ -671,7 +784,21 @@ export function TemplateManager({
           <Text bold color={THEME.secondary}>
             {selectedQuickTemplate.label}
           </Text>
-          <Text color={THEME.muted}> ─ Select target value</Text>
+          <Text color={THEME.muted}>
+            {' '}
+            ─{' '}
+            {selectedQuickTemplate.type === 'scale'
+              ? 'Select a step'
+              : selectedQuickTemplate.type === 'theme'
+                ? 'Select a transform'
+                : 'Select target value'}
+          </Text>
+          {selectedQuickTemplate.scale && tailwindTheme && (
+            <Text color={THEME.muted}>
+              {' '}
+              │ {tailwindTheme.path ? tailwindTheme.path.split(/[\\/]/).pop() : 'Tailwind defaults'}
+            </Text>
+          )}
         </Box>
 
         <Box
@@ -681,17 +808,22 @@ export function TemplateManager({
           paddingX={1}
           marginBottom={1}
         >
-          {selectedQuickTemplate.options.map((option, idx) => {
-            const isCurrent = idx === subOptionCursor;
+          {subOptions.length === 0 && (
+            <Text color={themeError ? THEME.error : THEME.muted}>
+              {themeError ?? "Loading the project's Tailwind theme..."}
+            </Text>
+          )}
+          {subOptions.slice(offset, offset + SUBOPTION_PAGE_SIZE).map((option, idx) => {
+            const isCurrent = offset + idx === subOptionCursor;
             return (
-              <Box key={idx}>
+              <Box key={offset + idx}>
                 <Box width={3}>
                   <Text color={isCurrent ? THEME.primary : THEME.muted}>
                     {isCurrent ? SYMBOLS.arrow : ' '}
                   </Text>
                 </Box>
-                <Box width={3}>
-                  <Text color={THEME.muted}>{idx + 1}.</Text>
+                <Box width={4}>
+                  <Text color={THEME.muted}>{offset + idx + 1}.</Text>
                 </Box>
                 <Box width={18}>
                   <Text color={isCurrent ? THEME.accent : THEME.highlight} bold={isCurrent}>
@@ -707,7 +839,8 @@ export function TemplateManager({
         <Box justifyContent="center">
           <Text color={THEME.muted}>
             <Text color={THEME.secondary}>1-9</Text> Quick │ <Text color={THEME.secondary}>↵</Text>{' '}
-            Next: Select Components │ <Text color={THEME.secondary}>Esc</Text> Back
+            {selectedQuickTemplate.type === 'theme' ? 'Preview' : 'Next: Select Components'} │{' '}
+            <Text color={THEME.secondary}>Esc</Text> Back
           </Text>
         </Box>
       </Box>
@@ -854,7 +987,8 @@ export function TemplateManager({
 
     const preview = previews[previewIdx];
     const totalChanges = previews.reduce((sum, p) => sum + p.changes, 0);
-    const templateName = selectedQuickTemplate?.label || selectedTemplate?.name || 'Changes';
+    const templateName =
+      selectedPreset?.name || selectedQuickTemplate?.label || selectedTemplate?.name || 'Changes';
 
     const lineDiff = Diff.diffLines(preview.before, preview.after);
     const changedGroups: Array<{ removed: string[]; added: string[]; lineNum: number }> = [];
@@ -1095,14 +1229,28 @@ export function TemplateManager({
           </Text>
           {selectedTemplate.rules.map((rule, idx) => (
             <Box key={idx} flexDirection="column" marginLeft={2} marginTop={0}>
-              <Box>
-                <Text color={THEME.muted}>Find: </Text>
-                <Text color={THEME.accent}>{rule.find}</Text>
-              </Box>
-              <Box>
-                <Text color={THEME.muted}>Replace: </Text>
-                <Text color={THEME.success}>{rule.replace || '(delete)'}</Text>
-              </Box>
+              {rule.scaleShift ? (
+                <Box>
+                  <Text color={THEME.muted}>Scale: </Text>
+                  <Text color={THEME.accent}>
+                    {rule.scaleShift.scale} {rule.scaleShift.direction}{' '}
+                    {rule.scaleShift.percent
+                      ? `${rule.scaleShift.percent}%`
+                      : `${rule.scaleShift.steps ?? 1} step`}
+                  </Text>
+                </Box>
+              ) : (
+                <>
+                  <Box>
+                    <Text color={THEME.muted}>Find: </Text>
+                    <Text color={THEME.accent}>{rule.find}</Text>
+                  </Box>
+                  <Box>
+                    <Text color={THEME.muted}>Replace: </Text>
+                    <Text color={THEME.success}>{rule.replace || '(delete)'}</Text>
+                  </Box>
+                </>
+              )}
               {rule.isRegex && <Text color={THEME.muted}>(regex)</Text>}
             </Box>
           ))}
@@ -1130,6 +1278,10 @@ export function TemplateManager({
   }
 
   // Main list view
+  if (loadingPreview) {
+    return <LoadingSpinner message="Generating preview..." />;
+  }
+
   return (
     <Box flexDirection="column">
       <Box marginBottom={1}>
@@ -1174,6 +1326,33 @@ export function TemplateManager({
         </Box>
       </Box>
 
+      {/* Presets Section */}
+      <Box marginBottom={1} flexDirection="column">
+        <Box marginBottom={0}>
+          <Text color={THEME.accent}>{SYMBOLS.arrow} Presets</Text>
+        </Box>
+        <Box flexDirection="column" borderStyle="single" borderColor={THEME.muted} paddingX={1}>
+          {presets.map((preset, idx) => {
+            const isCurrent = totalQuickTemplates + idx === cursor;
+            return (
+              <Box key={preset.id}>
+                <Box width={3}>
+                  <Text color={isCurrent ? THEME.primary : THEME.muted}>
+                    {isCurrent ? SYMBOLS.arrow : ' '}
+                  </Text>
+                </Box>
+                <Box width={25}>
+                  <Text color={isCurrent ? THEME.secondary : THEME.highlight} bold={isCurrent}>
+                    {preset.name}
+                  </Text>
+                </Box>
+                <Text color={THEME.muted}>{preset.description}</Text>
+              </Box>
+            );
+          })}
+        </Box>
+      </Box>
+
       {/* User Templates Section */}
       <Box marginBottom={1} flexDirection="column">
         <Box marginBottom={0}>
@@ -1186,7 +1365,7 @@ export function TemplateManager({
             </Text>
           ) : (
             templates.map((template, idx) => {
-              const listIdx = totalQuickTemplates + idx;
+              const listIdx = totalQuickTemplates + presets.length + idx;
               const isCurrent = listIdx === cursor;
               return (
                 <Box key={template.id}>
@@ -0,0 +1,445 @@
+import { Box, Text, useInput } from 'ink';
+import Spinner from 'ink-spinner';
+import TextInput from 'ink-text-input';
+import { useCallback, useEffect, useState } from 'react';
+import { SYMBOLS, THEME } from '../App.js';
+import * as api from '../api/client.js';
+import type {
+  ApiResponse,
+  ContrastCheck,
+  Preview,
+  Theme,
+  ThemeChange,
+  ThemeEdit,
+  ThemeScope,
+  ThemeTransformRequest,
+} from '../types/index.js';
+
+interface ThemeEditorProps {
+  // Opens on the preview of this color transform's edits
+  transform?: ThemeTransformRequest;
+  onApplied: (message: string) => void;
+  onBack: () => void;
+}
+
+interface ThemePreview {
+  preview: Preview;
+  changes: ThemeChange[];
+  contrast: ContrastCheck[];
+}
+
+// A transform or import: edits computed by the backend, already previewed
+type ComputedEdits = ApiResponse<ThemePreview & { edits: ThemeEdit[] }>;
+
+type Mode = 'list' | 'edit' | 'import' | 'preview';
+
+const SCOPES: ThemeScope[] = ['light', 'dark', 'theme'];
+const SCOPE_LABELS: Record<ThemeScope, string> = {
+  light: ':root',
+  dark: '.dark',
+  theme: '@theme',
+};
+const PAGE_SIZE = 12;
+const DIFF_LINES = 12;
+
+function editKey(edit: Pick<ThemeEdit, 'scope' | 'name'>): string {
+  return `${edit.scope}:${edit.name}`;
+}
+
+export function ThemeEditor({ transform, onApplied, onBack }: ThemeEditorProps) {
+  const [theme, setTheme] = useState<Theme | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [scope, setScope] = useState<ThemeScope>('light');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [mode, setMode] = useState<Mode>('list');
+  const [draft, setDraft] = useState('');
+  const [importSource, setImportSource] = useState('');
+  // Pending values by scope and name, written together on apply
+  const [edits, setEdits] = useState<Map<string, ThemeEdit>>(new Map());
+  const [preview, setPreview] = useState<ThemePreview | null>(null);
+
+  const loadTheme = useCallback(async () => {
+    setLoading(true);
+    const result = await api.getTheme();
+    if (result.success && result.data) {
+      setTheme(result.data.theme);
+      setError(null);
+    } else {
+      setError(result.error?.message || 'Failed to read theme');
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadTheme();
+  }, [loadTheme]);
+
+  // Computed edits replace the pending ones and open on their preview
+  const showComputedEdits = useCallback((result: ComputedEdits, failure: string) => {
+    setBusy(false);
+    if (!result.success || !result.data) {
+      setError(result.error?.message || failure);
+    } else if (result.data.edits.length === 0) {
+      setError('Nothing to change: every variable already has that value');
+    } else {
+      const { edits: computed, preview, changes, contrast } = result.data;
+      setEdits(new Map(computed.map((edit) => [editKey(edit), edit])));
+      setPreview({ preview, changes, contrast });
+      setError(null);
+      setMode('preview');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!transform) return;
+    setBusy(true);
+    api
+      .transformTheme(transform)
+      .then((result) => showComputedEdits(result, 'Failed to preview color transform'));
+  }, [transform, showComputedEdits]);
+
+  // A path to a .css file, or the snippet itself pasted in
+  const importTheme = async (source: string) => {
+    const trimmed = source.trim();
+    if (!trimmed) {
+      setMode('list');
+      return;
+    }
+    setBusy(true);
+    const isFile = trimmed.endsWith('.css') && !trimmed.includes('{');
+    const result = await api.importTheme(isFile ? { file: trimmed } : { css: trimmed });
+    if (!result.success) setMode('list');
+    showComputedEdits(result, 'Failed to import theme');
+  };
+
+  const tokens = (theme?.tokens ?? []).filter((token) => token.scope === scope);
+  const selected = tokens[selectedIndex];
+
+  const showPreview = async () => {
+    setBusy(true);
+    const result = await api.previewTheme([...edits.values()]);
+    setBusy(false);
+    if (result.success && result.data) {
+      const { preview, changes, contrast } = result.data;
+      setPreview({ preview, changes, contrast });
+      setError(null);
+      setMode('preview');
+    } else {
+      setError(result.error?.message || 'Failed to preview theme edits');
+    }
+  };
+
+  const apply = async () => {
+    if (!preview) return;
+    setBusy(true);
+    const result = await api.applyTheme([...edits.values()], preview.preview.fingerprint);
+    setBusy(false);
+    setPreview(null);
+    setMode('list');
+
+    if (result.success && result.data) {
+      onApplied(`Updated ${result.data.changes.length} theme variables`);
+      setEdits(new Map());
+      await loadTheme();
+    } else {
+      setError(result.error?.message || 'Failed to apply theme edits');
+    }
+  };
+
+  useInput((input, key) => {
+    if (loading || busy) return;
+
+    if (mode === 'edit' || mode === 'import') {
+      if (key.escape) setMode('list');
+      return;
+    }
+
+    if (mode === 'preview') {
+      if (input === 'y') {
+        apply();
+      } else if (input === 'n' || key.escape) {
+        setPreview(null);
+        setMode('list');
+      }
+      return;
+    }
+
+    if (key.escape || input === 'q') {
+      onBack();
+    } else if (key.upArrow) {
+      setSelectedIndex((i) => Math.max(0, i - 1));
+    } else if (key.downArrow) {
+      setSelectedIndex((i) => Math.min(tokens.length - 1, i + 1));
+    } else if (key.tab) {
+      setScope((current) => SCOPES[(SCOPES.indexOf(current) + 1) % SCOPES.length]);
+      setSelectedIndex(0);
+    } else if (key.return && selected) {
+      setDraft(edits.get(editKey(selected))?.value ?? selected.value);
+      setMode('edit');
+    } else if (input === 'x' && selected) {
+      setEdits((current) => {
+        const next = new Map(current);
+        next.delete(editKey(selected));
+        return next;
+      });
+    } else if (input === 'i') {
+      setImportSource('');
+      setMode('import');
+    } else if (input === 'p' && edits.size > 0) {
+      showPreview();
+    } else if (input === 'r') {
+      loadTheme();
+    }
+  });
+
+  const submitDraft = (value: string) => {
+    setMode('list');
+    if (!selected) return;
+    const trimmed = value.trim();
+    setEdits((current) => {
+      const next = new Map(current);
+      if (!trimmed || trimmed === selected.value) {
+        next.delete(editKey(selected));
+      } else {
+        next.set(editKey(selected), { name: selected.name, scope: selected.scope, value: trimmed });
+      }
+      return next;
+    });
+  };
+
+  if (loading || busy) {
+    return (
+      <Box borderStyle="round" borderColor={THEME.secondary} paddingX={2} paddingY={1}>
+        <Text color={THEME.success}>
+          <Spinner type="dots" />
+        </Text>
+        <Text> {loading ? 'Reading theme...' : 'Working...'}</Text>
+      </Box>
+    );
+  }
+
+  if (!theme) {
+    return (
+      <Box flexDirection="column">
+        <Box borderStyle="round" borderColor={THEME.error} paddingX={2} paddingY={1}>
+          <Text color={THEME.error}>
+            {SYMBOLS.cross} {error}
+          </Text>
+        </Box>
+        <Box marginTop={1}>
+          <Text color={THEME.muted}>Press Esc to go back</Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  if (mode === 'preview' && preview) {
+    const diffLines = preview.preview.diff
+      .split('\n')
+      .filter((line) => line.startsWith('+') || line.startsWith('-'))
+      .slice(0, DIFF_LINES);
+    // Pairs the edits changed, and those that fail either way
+    const contrast = preview.contrast.filter(
+      (check) => !check.passes || (check.before !== null && check.before !== check.ratio)
+    );
+
+    return (
+      <Box flexDirection="column">
+        <Box marginBottom={1}>
+          <Text bold color={THEME.highlight}>
+            {SYMBOLS.diamond} Theme Preview
+          </Text>
+          <Text color={THEME.muted}> ─ {theme.path}</Text>
+        </Box>
+
+        <Box flexDirection="column" marginBottom={1} paddingX={1}>
+          {preview.changes.map((change) => (
+            <Box key={editKey(change)}>
+              <Box width={10}>
+                <Text color={THEME.muted}>{SCOPE_LABELS[change.scope]}</Text>
+              </Box>
+              <Box width={28}>
+                <Text color={THEME.highlight}>{change.name}</Text>
+              </Box>
+              <Text color={THEME.error}>{change.before ?? '(new)'}</Text>
+              <Text color={THEME.muted}> → </Text>
+              <Text color={THEME.success}>{change.value}</Text>
+            </Box>
+          ))}
+        </Box>
+
+        {contrast.length > 0 && (
+          <Box flexDirection="column" marginBottom={1} paddingX={1}>
+            <Text color={THEME.muted}>Contrast, 4.5:1 for WCAG AA:</Text>
+            {contrast.map((check) => (
+              <Box key={`${check.scope}:${check.foreground}`}>
+                <Box width={3}>
+                  <Text color={check.passes ? THEME.success : THEME.error}>
+                    {check.passes ? SYMBOLS.check : SYMBOLS.cross}
+                  </Text>
+                </Box>
+                <Box width={10}>
+                  <Text color={THEME.muted}>{SCOPE_LABELS[check.scope]}</Text>
+                </Box>
+                <Box width={44}>
+                  <Text color={THEME.highlight}>
+                    {check.foreground} on {check.background}
+                  </Text>
+                </Box>
+                {check.before !== null && check.before !== check.ratio && (
+                  <Text color={THEME.muted}>{check.before}:1 → </Text>
+                )}
+                <Text color={check.passes ? THEME.success : THEME.error}>{check.ratio}:1</Text>
+              </Box>
+            ))}
+          </Box>
+        )}
+
+        <Box
+          flexDirection="column"
+          borderStyle="single"
+          borderColor={THEME.muted}
+          paddingX={1}
+          marginBottom={1}
+        >
+          {diffLines.length === 0 ? (
+            <Text color={THEME.muted}>No changes to the file</Text>
+          ) : (
+            diffLines.map((line, idx) => (
+              <Text key={idx} color={line.startsWith('+') ? THEME.success : THEME.error}>
+                {line}
+              </Text>
+            ))
+          )}
+        </Box>
+
+        <Box justifyContent="center">
+          <Text color={THEME.muted}>
+            <Text color={THEME.secondary}>y</Text> Apply │ <Text color={THEME.secondary}>n</Text>{' '}
+            Back to editing
+          </Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  const offset = Math.max(
+    0,
+    Math.min(selectedIndex - Math.floor(PAGE_SIZE / 2), tokens.length - PAGE_SIZE)
+  );
+
+  return (
+    <Box flexDirection="column">
+      <Box marginBottom={1}>
+        <Text bold color={THEME.highlight}>
+          {SYMBOLS.diamond} Theme Tokens
+        </Text>
+        <Text color={THEME.muted}> ─ {theme.path}</Text>
+        {edits.size > 0 && <Text color={THEME.accent}> │ {edits.size} pending</Text>}
+      </Box>
+
+      <Box marginBottom={1}>
+        {SCOPES.map((item) => (
+          <Text
+            key={item}
+            color={item === scope ? THEME.primary : THEME.muted}
+            bold={item === scope}
+          >
+            {item === scope ? `[${SCOPE_LABELS[item]}]` : ` ${SCOPE_LABELS[item]} `}{' '}
+          </Text>
+        ))}
+      </Box>
+
+      {error && (
+        <Box marginBottom={1}>
+          <Text color={THEME.error}>
+            {SYMBOLS.cross} {error}
+          </Text>
+        </Box>
+      )}
+
+      <Box
+        flexDirection="column"
+        borderStyle="single"
+        borderColor={THEME.muted}
+        paddingX={1}
+        marginBottom={1}
+      >
+        {tokens.length === 0 ? (
+          <Text color={THEME.muted}>No variables in {SCOPE_LABELS[scope]}</Text>
+        ) : (
+          tokens.slice(offset, offset + PAGE_SIZE).map((token, idx) => {
+            const isSelected = offset + idx === selectedIndex;
+            const pending = edits.get(editKey(token));
+            return (
+              <Box key={`${editKey(token)}:${token.line}`}>
+                <Box width={3}>
+                  <Text color={isSelected ? THEME.primary : THEME.muted}>
+                    {isSelected ? SYMBOLS.arrow : ' '}
+                  </Text>
+                </Box>
+                <Box width={28}>
+                  <Text color={isSelected ? THEME.secondary : THEME.highlight} bold={isSelected}>
+                    {token.name}
+                  </Text>
+                </Box>
+                <Text color={pending ? THEME.muted : undefined} strikethrough={Boolean(pending)}>
+                  {token.value}
+                </Text>
+                {pending && (
+                  <>
+                    <Text color={THEME.muted}> → </Text>
+                    <Text color={THEME.success}>{pending.value}</Text>
+                  </>
+                )}
+              </Box>
+            );
+          })
+        )}
+      </Box>
+
+      {mode === 'edit' && selected && (
+        <Box marginBottom={1} borderStyle="round" borderColor={THEME.secondary} paddingX={1}>
+          <Text color={THEME.secondary}>{selected.name}: </Text>
+          <TextInput value={draft} onChange={setDraft} onSubmit={submitDraft} />
+        </Box>
+      )}
+
+      {mode === 'import' && (
+        <Box
+          marginBottom={1}
+          flexDirection="column"
+          borderStyle="round"
+          borderColor={THEME.secondary}
+          paddingX={1}
+        >
+          <Text color={THEME.muted}>
+            Path to a .css file, or paste the CSS from a shadcn theme:
+          </Text>
+          <TextInput value={importSource} onChange={setImportSource} onSubmit={importTheme} />
+        </Box>
+      )}
+
+      {mode === 'list' && selected && (
+        <Box marginBottom={1} paddingX={1}>
+          <Text color={THEME.muted}>
+            {selected.kind}
+            {selected.colorFormat ? ` (${selected.colorFormat})` : ''} │ line {selected.line}
+          </Text>
+        </Box>
+      )}
+
+      <Box justifyContent="center">
+        <Text color={THEME.muted}>
+          <Text color={THEME.secondary}>↑/↓</Text> Navigate │{' '}
+          <Text color={THEME.secondary}>Tab</Text> Scope │ <Text color={THEME.secondary}>↵</Text>{' '}
+          Edit │ <Text color={THEME.secondary}>x</Text> Revert │{' '}
+          <Text color={THEME.secondary}>i</Text> Import │ <Text color={THEME.secondary}>p</Text>{' '}
+          Preview │ <Text color={THEME.secondary}>Esc</Text> Back
+        </Text>
+      </Box>
+    </Box>
+  );
+}
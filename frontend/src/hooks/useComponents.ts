@@ -1,14 +1,61 @@
-import { useCallback, useRef, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import * as api from '../api/client.js';
-import type { Component, Screen } from '../types/index.js';
+import type { Component, ComponentEvent, Screen } from '../types/index.js';
+
+function getFolder(component: Component): string {
+  return component.id.slice(0, component.id.lastIndexOf('/') + 1);
+}
+
+// New components go after the last one in their folder, keeping folders together
+function insertComponent(components: Component[], component: Component): Component[] {
+  const folder = getFolder(component);
+  let index = components.length;
+  for (let i = components.length - 1; i >= 0; i--) {
+    if (getFolder(components[i]) === folder) {
+      index = i + 1;
+      break;
+    }
+  }
+  return [...components.slice(0, index), component, ...components.slice(index)];
+}
 
 export function useComponents() {
   const [components, setComponents] = useState<Component[]>([]);
   const [selectedPaths, setSelectedPaths] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Components edited outside the tweaker since they were last viewed
+  const [changedPaths, setChangedPaths] = useState<Set<string>>(new Set());
   const hasScannedRef = useRef(false);
 
+  // Follow changes on disk instead of waiting for a rescan
+  useEffect(() => {
+    const handleEvent = (event: ComponentEvent) => {
+      const { component } = event;
+      if (event.type === 'delete') {
+        setComponents((prev) => prev.filter((c) => c.path !== event.path));
+        setSelectedPaths((prev) => {
+          if (!prev.has(event.path)) return prev;
+          const next = new Set(prev);
+          next.delete(event.path);
+          return next;
+        });
+      } else if (component) {
+        setComponents((prev) =>
+          prev.some((c) => c.path === event.path)
+            ? prev.map((c) => (c.path === event.path ? component : c))
+            : insertComponent(prev, component)
+        );
+      }
+
+      if (event.external && event.type !== 'add') {
+        setChangedPaths((prev) => new Set(prev).add(event.path));
+      }
+    };
+
+    return api.subscribeToEvents(handleEvent);
+  }, []);
+
   const scanComponents = useCallback(async () => {
     setLoading(true);
     setError(null);
@@ -26,6 +73,15 @@ export function useComponents() {
 
   const hasScanned = useCallback(() => hasScannedRef.current, []);
 
+  const clearChanged = useCallback((path: string) => {
+    setChangedPaths((prev) => {
+      if (!prev.has(path)) return prev;
+      const next = new Set(prev);
+      next.delete(path);
+      return next;
+    });
+  }, []);
+
   const toggleSelection = useCallback((path: string) => {
     setSelectedPaths((prev) => {
       const next = new Set(prev);
@@ -46,6 +102,10 @@ export function useComponents() {
     setSelectedPaths(new Set());
   }, []);
 
+  const selectPaths = useCallback((paths: string[]) => {
+    setSelectedPaths(new Set(paths));
+  }, []);
+
   const getSelectedComponents = useCallback(() => {
     return components.filter((c) => selectedPaths.has(c.path));
   }, [components, selectedPaths]);
@@ -53,6 +113,7 @@ export function useComponents() {
   return {
     components,
     selectedPaths,
+    changedPaths,
     loading,
     error,
     hasScanned,
@@ -60,7 +121,9 @@ export function useComponents() {
     toggleSelection,
     selectAll,
     deselectAll,
+    selectPaths,
     getSelectedComponents,
+    clearChanged,
     setError,
   };
 }
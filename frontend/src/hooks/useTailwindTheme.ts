@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import * as api from '../api/client.js';
+import type { TailwindTheme, ThemeScaleValue } from '../types/index.js';
+
+// The value behind a class, e.g. var(--radius), and whether the project sets it
+function describeValue(entry: ThemeScaleValue): string {
+  const parts = [
+    entry.css ?? (entry.custom ? null : 'Tailwind default'),
+    entry.custom ? 'project' : null,
+  ];
+  return parts.filter(Boolean).join(', ');
+}
+
+// Options for a quick action on one of the theme's scales, empty until the theme has loaded
+export function getScaleOptions(
+  theme: TailwindTheme | null,
+  scaleId: string
+): { label: string; value: string }[] {
+  const scale = theme?.scales.find((candidate) => candidate.id === scaleId);
+  if (!scale) return [];
+
+  return scale.values.map((entry) => ({
+    label: describeValue(entry),
+    value: entry.value ? `${scale.utility}-${entry.value}` : scale.utility,
+  }));
+}
+
+// The scales of the project's tailwind.config or @theme, loaded once per screen
+export function useTailwindTheme() {
+  const [theme, setTheme] = useState<TailwindTheme | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    api.getTailwindTheme().then((result) => {
+      if (cancelled) return;
+      if (result.success && result.data) {
+        setTheme(result.data.theme);
+      } else {
+        setError(result.error?.message || 'Failed to load the Tailwind theme');
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { theme, error };
+}